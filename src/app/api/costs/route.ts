@@ -0,0 +1,40 @@
+/**
+ * LLM Costs API
+ * Spend recorded in the cost ledger: totals per repo, per model and per day,
+ * and each run's estimated cost against what it actually cost
+ *
+ * GET ?days=<n>     - Only count calls from the last n days
+ * GET ?runId=<id>   - Every LLM call of one run
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadLedger, summarizeLedger } from '@/lib/costLedger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const runId = searchParams.get('runId');
+    const days = searchParams.get('days');
+
+    if (runId) {
+      const calls = loadLedger().filter(entry => entry.runId === runId);
+      return NextResponse.json({ runId, calls });
+    }
+
+    let since: Date | undefined;
+    if (days) {
+      const count = parseInt(days, 10);
+      if (!Number.isFinite(count) || count <= 0) {
+        return NextResponse.json({ error: `Invalid days: ${days}` }, { status: 400 });
+      }
+      since = new Date(Date.now() - count * 24 * 60 * 60 * 1000);
+    }
+
+    return NextResponse.json(summarizeLedger(since));
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
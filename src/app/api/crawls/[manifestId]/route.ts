@@ -0,0 +1,27 @@
+/**
+ * Crawl Manifest API
+ * Returns a manifest (path -> blob SHA) with its files' contents from the blob store
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadManifest, readManifestFiles } from '@/lib/blobStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ manifestId: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { manifestId } = await params;
+    const manifest = loadManifest(manifestId);
+    const files = manifest && readManifestFiles(manifest);
+    if (!manifest || !files) {
+      return NextResponse.json({ error: `Crawl not found: ${manifestId}` }, { status: 404 });
+    }
+    return NextResponse.json({ manifest, files });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
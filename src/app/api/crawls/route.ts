@@ -0,0 +1,41 @@
+/**
+ * Crawl Manifests API
+ * Stores a set of files in the blob store, e.g. a saved version of a crawl
+ *
+ * POST - { repoUrl, files: Record<path, content>, commitSha? };
+ *        returns { id, fileCount } of the manifest listing them
+ *
+ * Read a manifest and its files back with GET /api/crawls/:manifestId
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createManifest } from '@/lib/blobStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let body: { repoUrl?: string; files?: Record<string, string>; commitSha?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { repoUrl, files, commitSha } = body;
+  if (!repoUrl) {
+    return NextResponse.json({ error: 'repoUrl is required' }, { status: 400 });
+  }
+  if (!files || typeof files !== 'object' || Array.isArray(files) ||
+      Object.values(files).some(content => typeof content !== 'string')) {
+    return NextResponse.json({ error: 'files must map paths to file contents' }, { status: 400 });
+  }
+
+  try {
+    const manifest = createManifest(repoUrl, files, { commitSha });
+    return NextResponse.json({ id: manifest.id, fileCount: Object.keys(manifest.files).length });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
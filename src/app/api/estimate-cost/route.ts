@@ -1,15 +1,16 @@
 /**
  * Cost Estimation API
- * Estimates LLM costs for tutorial generation
+ * Estimates LLM costs for tutorial generation by simulating each stage's
+ * prompts over the selected files (`fileContents`), pricing each stage with
+ * its model when `stageModels` routes stages to other providers/models.
+ * The response includes a per-stage breakdown (`stages`) with each stage's
+ * calls, tokens, tokenizer and confidence range (`costLow`..`costHigh`).
+ * With only `totalChars`, the files' contents are assumed to be typical code
+ * and the ranges are wider.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { 
-  estimateTokens, 
-  calculateCost, 
-  formatCost,
-  type CostEstimate 
-} from '@/lib/costEstimator';
+import { getFullCostEstimate } from '@/lib/costEstimator';
 import { getProvider, getModel } from '@/lib/providers';
 
 export async function POST(request: NextRequest) {
@@ -22,7 +23,13 @@ export async function POST(request: NextRequest) {
       fileCount, 
       estimatedChapters = 8,
       // Optional: pass actual file contents for more accurate estimate
-      fileContents 
+      fileContents,
+      // Optional: per-stage provider/model overrides
+      stageModels,
+      // Optional: the run settings that change what the prompts look like
+      language,
+      summarizeFiles,
+      chapterConcurrency,
     } = body;
     
     if (!providerId || !modelId) {
@@ -41,34 +48,32 @@ export async function POST(request: NextRequest) {
     }
     
     // Estimate tokens
-    let tokens;
+    let files: Array<{ path: string; content: string }>;
+    let sizeOnly = false;
     if (fileContents && Array.isArray(fileContents)) {
       // Use actual file contents if provided
-      tokens = estimateTokens(fileContents, estimatedChapters);
+      files = fileContents.filter(
+        (file): file is { path: string; content: string } =>
+          typeof file?.path === 'string' && typeof file?.content === 'string'
+      );
     } else if (totalChars) {
-      // Estimate from total character count
-      const fakeFiles = [{ path: 'combined', content: 'x'.repeat(totalChars) }];
-      tokens = estimateTokens(fakeFiles, estimatedChapters);
+      // Estimate from total character count, split evenly over the files
+      const count = Math.max(1, Math.floor(fileCount) || 1);
+      const size = Math.ceil(totalChars / count);
+      files = Array.from({ length: count }, (_, i) => ({ path: `file-${i}`, content: ' '.repeat(size) }));
+      sizeOnly = true;
     } else {
       return NextResponse.json({
         error: 'Either totalChars or fileContents is required',
       }, { status: 400 });
     }
     
-    // Calculate cost
-    const cost = calculateCost(model, tokens);
-    const isFree = model.costPer1kInput === 0 && model.costPer1kOutput === 0;
-    
-    const estimate: CostEstimate = {
-      provider: provider.name,
-      model: model.name,
-      tokens,
-      costLow: cost.low,
-      costEstimated: cost.estimated,
-      costHigh: cost.high,
-      isFree,
-      formattedCost: formatCost(cost),
-    };
+    const estimate = getFullCostEstimate(providerId, modelId, files, estimatedChapters, stageModels, {
+      language: typeof language === 'string' ? language : undefined,
+      summarizeFiles: typeof summarizeFiles === 'boolean' ? summarizeFiles : undefined,
+      chapterConcurrency: typeof chapterConcurrency === 'number' ? chapterConcurrency : undefined,
+      sizeOnly,
+    });
     
     return NextResponse.json(estimate);
     
@@ -1,6 +1,30 @@
 import { NextResponse } from 'next/server';
+import JSZip from 'jszip';
 import { getAllExcludedPatterns, getRequiredExcludedPatterns } from '@/lib/excludedPatterns';
 import { getAllIncludedPatterns } from '@/lib/includedPatterns';
+import { shouldIncludeFile, wouldBeIncluded } from '@/lib/patternMatching';
+import { computeContentHash, loadCrawlSnapshot, saveCrawlSnapshot, type CrawlSnapshot } from '@/lib/repoCache';
+import { createManifest, loadManifest, readBlob, writeBlob } from '@/lib/blobStore';
+import {
+  getSourceProvider,
+  isValidRef,
+  parseRepoUrl,
+  resolveSourceToken,
+  usesGitHubApi,
+  type RepoSource,
+  type SourceFile,
+  type SourceProvider,
+  type SourceRequest
+} from '@/lib/sourceProviders';
+
+// With more files than this to download, one archive request beats a request per file
+const ARCHIVE_MIN_FILES = 50;
+
+// Larger archives are crawled file by file rather than held in memory
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+// 'auto' downloads an archive when that saves requests, 'api' never does, 'archive' always tries first
+type CrawlMethod = 'auto' | 'api' | 'archive';
 
 export async function POST(request: Request) {
   try {
@@ -10,25 +34,36 @@ export async function POST(request: Request) {
       useRelativePaths, 
       includePatterns, 
       excludePatterns, 
-      maxFileSize 
+      maxFileSize,
+      crawlMethod,
+      ref
     } = await request.json();
 
-    // Use token from request, or fallback to environment variable
-    const githubToken = token || process.env.GITHUB_TOKEN || process.env.GITHUB_ACCESS_TOKEN || process.env.GH_TOKEN;
-
     // Validate required inputs
     if (!repoUrl) {
       return NextResponse.json({ error: "Repository URL is required" }, { status: 400 });
     }
 
-    // For security reasons, check if the URL is a valid GitHub URL
-    const githubUrlPattern = /^https:\/\/github\.com\/[^/]+\/[^/]+/;
-    if (!githubUrlPattern.test(repoUrl)) {
-      return NextResponse.json({ error: "Invalid GitHub URL" }, { status: 400 });
+    // For security reasons, only crawl repositories on known hosts (see sourceProviders)
+    const source = parseRepoUrl(repoUrl);
+    if (!source) {
+      return NextResponse.json(
+        { error: "Unsupported repository URL. Use a GitHub, GitLab or Bitbucket repository URL with a valid branch, tag or commit." },
+        { status: 400 }
+      );
+    }
+    const provider = getSourceProvider(source.provider);
+
+    // A branch, tag or commit picked in the form overrides the one in the URL
+    if (ref) {
+      if (typeof ref !== 'string' || !isValidRef(ref)) {
+        return NextResponse.json({ error: `Invalid branch, tag or commit: ${ref}` }, { status: 400 });
+      }
+      source.ref = ref;
     }
 
-    // Make request to GitHub API to get repository contents
-    const { owner, repo, path, ref } = parseGitHubUrl(repoUrl);
+    // Use token from request, or fallback to the provider's environment variables
+    const sourceToken = resolveSourceToken(source, token);
     
     // Handle include patterns - respect empty array from frontend
     // Only use default patterns if includePatterns is undefined or null
@@ -40,15 +75,15 @@ export async function POST(request: Request) {
     // Fetch files recursively
     try {
       const result = await crawlGitHubFiles({
-        owner,
-        repo,
-        ref,
-        path,
-        token: githubToken,
+        source,
+        provider,
+        token: sourceToken,
         useRelativePaths,
         includePatterns: finalIncludePatterns,
         excludePatterns: finalExcludePatterns,
-        maxFileSize: maxFileSize || 500000
+        maxFileSize: maxFileSize || 500000,
+        repoUrl,
+        crawlMethod: ['api', 'archive'].includes(crawlMethod) ? crawlMethod : 'auto'
       });
       
       return NextResponse.json(result);
@@ -126,25 +161,6 @@ export async function POST(request: Request) {
   }
 }
 
-// Helper function to parse GitHub URLs
-function parseGitHubUrl(url: string) {
-  const parsedUrl = new URL(url);
-  const pathParts = parsedUrl.pathname.split('/').filter(Boolean);
-  
-  const owner = pathParts[0];
-  const repo = pathParts[1];
-  
-  let ref = '';
-  let path = '';
-  
-  if (pathParts.length > 2 && pathParts[2] === 'tree') {
-    ref = pathParts[3];
-    path = pathParts.slice(4).join('/');
-  }
-  
-  return { owner, repo, ref, path };
-}
-
 // Replace browser-only atob() with Node.js compatible approach
 function decodeBase64(base64String: string): string {
   // Remove any newlines that might be in the base64 string
@@ -153,147 +169,542 @@ function decodeBase64(base64String: string): string {
   return Buffer.from(cleanBase64, 'base64').toString('utf-8');
 }
 
-// HYBRID APPROACH: Function to crawl GitHub files - tries Tree API first, falls back to directory crawling
+// Path of a repo file as reported to the client, relative to the base path if requested
+function toRelativePath(itemPath: string, path: string, useRelativePaths: boolean): string {
+  if (useRelativePaths && path && itemPath.startsWith(path)) {
+    return itemPath.substring(path.length).replace(/^\//, '');
+  }
+  return itemPath;
+}
+
+// Content of each file (path -> blob SHA) from the blob store, or null when a blob is missing
+function readStoredFiles(blobShas: Record<string, string>): Record<string, string> | null {
+  const files: Record<string, string> = {};
+  for (const [filePath, sha] of Object.entries(blobShas)) {
+    const content = readBlob(sha);
+    if (content === null) return null;
+    files[filePath] = content;
+  }
+  return files;
+}
+
+// Bring the previous crawl's files up to a newer commit by downloading only
+// the files changed since, and only those not already in the blob store.
+// Returns null when the changes can't be applied (history rewritten, too many
+// changes, a file failed to download) so the caller does a full crawl instead.
+async function crawlChangedFiles({
+  source,
+  provider,
+  request,
+  useRelativePaths,
+  includePatterns,
+  excludePatterns,
+  maxFileSize,
+  snapshot: previous,
+  commitSha
+}: {
+  source: RepoSource;
+  provider: SourceProvider;
+  request: SourceRequest;
+  useRelativePaths: boolean;
+  includePatterns: string[];
+  excludePatterns: string[];
+  maxFileSize: number;
+  snapshot: CrawlSnapshot;
+  commitSha: string;
+}): Promise<{
+  files: Record<string, string>;
+  blobShas: Record<string, string>;
+  skippedFiles: [string, number][];
+  excludedFiles: string[];
+  changedPaths: string[];
+} | null> {
+  const manifest = loadManifest(previous.manifestId);
+  if (!manifest || !provider.compareCommits) return null;
+
+  const { path } = source;
+  const blobShas = { ...manifest.files };
+  let skippedFiles = [...previous.skippedFiles];
+  const excludedFiles = new Set(previous.excludedFiles);
+  const changedPaths: string[] = [];
+
+  if (previous.commitSha !== commitSha) {
+    const changes = await provider.compareCommits(source, previous.commitSha, commitSha, request);
+    if (!changes) {
+      console.log(`Can't crawl incrementally since ${previous.commitSha.substring(0, 7)}. Doing a full crawl.`);
+      return null;
+    }
+
+    const filesToFetch: (SourceFile & { relPath: string; sha: string })[] = [];
+
+    for (const change of changes) {
+      // A rename removes the old path as well as changing the new one
+      const changedItemPaths = [change.path, change.previousPath].filter((itemPath): itemPath is string => !!itemPath);
+
+      for (const itemPath of changedItemPaths) {
+        if (path && !itemPath.startsWith(path)) continue;
+
+        const relPath = toRelativePath(itemPath, path, useRelativePaths);
+        delete blobShas[relPath];
+        excludedFiles.delete(relPath);
+        skippedFiles = skippedFiles.filter(([skippedPath]) => skippedPath !== itemPath);
+        changedPaths.push(relPath);
+      }
+
+      if (change.status === 'removed' || (path && !change.path.startsWith(path))) continue;
+
+      const relPath = toRelativePath(change.path, path, useRelativePaths);
+      const fileName = relPath.split('/').pop() || '';
+
+      if (!shouldIncludeFile(relPath, fileName, includePatterns, excludePatterns)) {
+        if (wouldBeIncluded(relPath, fileName, includePatterns)) {
+          excludedFiles.add(relPath);
+        }
+        continue;
+      }
+
+      // The same content may be in the store already, e.g. after a revert
+      const storedContent = readBlob(change.sha);
+      if (storedContent !== null && Buffer.byteLength(storedContent, 'utf-8') <= maxFileSize) {
+        blobShas[relPath] = change.sha;
+        continue;
+      }
+
+      filesToFetch.push({ path: change.path, relPath, sha: change.sha });
+    }
+
+    console.log(`Found ${filesToFetch.length} changed files to fetch since ${previous.commitSha.substring(0, 7)}`);
+
+    let failed = false;
+    const batchSize = 10;
+
+    for (let i = 0; i < filesToFetch.length && !failed; i += batchSize) {
+      const batch = filesToFetch.slice(i, i + batchSize);
+
+      await Promise.all(batch.map(async item => {
+        const file = await provider.readFile(source, item, commitSha, request);
+        if (!file) {
+          failed = true;
+          return;
+        }
+
+        if (file.size > maxFileSize) {
+          skippedFiles.push([item.path, file.size]);
+          return;
+        }
+
+        writeBlob(file.content, item.sha);
+        blobShas[item.relPath] = item.sha;
+      }));
+
+      if (i + batchSize < filesToFetch.length) {
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+    }
+
+    if (failed) {
+      console.log('Failed to fetch some changed files. Doing a full crawl.');
+      return null;
+    }
+  }
+
+  const files = readStoredFiles(blobShas);
+  if (!files) {
+    console.log('Files of the previous crawl are missing from the blob store. Doing a full crawl.');
+    return null;
+  }
+
+  return { files, blobShas, skippedFiles, excludedFiles: [...excludedFiles], changedPaths };
+}
+
+// Read a response body, or null (cancelling the download) once it passes maxBytes
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (!response.body) {
+    const buffer = new Uint8Array(await response.arrayBuffer());
+    return buffer.length > maxBytes ? null : buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let totalBytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    totalBytes += value.length;
+    if (totalBytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(totalBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+// Decompress a zip entry, stopping as soon as it grows past maxBytes. The sizes in the
+// archive's directory can't be trusted, so this is what limits a zip bomb.
+// Returns null, with the bytes read so far, when the entry is too large.
+function readZipEntryWithLimit(
+  entry: JSZip.JSZipObject,
+  maxBytes: number
+): Promise<{ content: Buffer | null; size: number }> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer');
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Once paused, JSZip stops decompressing as soon as the stream's buffer fills
+        stream.pause();
+        stream.removeAllListeners('data');
+        resolve({ content: null, size });
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve({ content: Buffer.concat(chunks, size), size }));
+    stream.on('error', reject);
+  });
+}
+
+// Download the repository at a ref as one zip archive and extract the files the crawl
+// wants, applying the same path, pattern and size filters as crawling through the API.
+// Only wanted files are decompressed, and only up to maxFileSize. Returns null when no
+// archive can be downloaded, or it is over MAX_ARCHIVE_BYTES, so the caller crawls
+// through the API instead.
+async function crawlArchive({
+  source,
+  provider,
+  request,
+  ref,
+  useRelativePaths,
+  includePatterns,
+  excludePatterns,
+  maxFileSize
+}: {
+  source: RepoSource;
+  provider: SourceProvider;
+  request: SourceRequest;
+  ref: string;
+  useRelativePaths: boolean;
+  includePatterns: string[];
+  excludePatterns: string[];
+  maxFileSize: number;
+}): Promise<{
+  files: Record<string, string>;
+  skippedFiles: [string, number][];
+  excludedFiles: string[];
+} | null> {
+  const archiveUrl = provider.archiveUrl(source, ref);
+  if (!archiveUrl) return null;
+
+  const response = await request(archiveUrl);
+  if (!response.ok) {
+    provider.throwIfRateLimited(response, await response.text());
+    console.log(`Archive download failed (${response.status}). Crawling through the API instead.`);
+    return null;
+  }
+
+  const contentLength = Number(response.headers.get('content-length') || 0);
+  if (contentLength > MAX_ARCHIVE_BYTES) {
+    await response.body?.cancel();
+    console.log(`Archive is ${Math.round(contentLength / 1024 / 1024)} MB. Crawling through the API instead.`);
+    return null;
+  }
+
+  let zip: JSZip;
+  try {
+    // Archives are often sent without a content-length, so the limit is also applied while downloading
+    const archive = await readBodyWithLimit(response, MAX_ARCHIVE_BYTES);
+    if (!archive) {
+      console.log(`Archive is over ${Math.round(MAX_ARCHIVE_BYTES / 1024 / 1024)} MB. Crawling through the API instead.`);
+      return null;
+    }
+    zip = await JSZip.loadAsync(archive);
+  } catch (error) {
+    console.log('Failed to read archive. Crawling through the API instead.', error);
+    return null;
+  }
+
+  const { path } = source;
+  const files: Record<string, string> = {};
+  const skippedFiles: [string, number][] = [];
+  const excludedFiles: string[] = [];
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir) continue;
+
+    // Symlinks are skipped, as in the local crawler
+    const mode = entry.unixPermissions;
+    if (typeof mode === 'number' && (mode & 0o170000) === 0o120000) continue;
+
+    // Archives put everything under one top-level directory, e.g. owner-repo-<sha>/
+    const itemPath = entry.name.substring(entry.name.indexOf('/') + 1);
+    if (!itemPath || (path && !itemPath.startsWith(path))) continue;
+
+    const relPath = toRelativePath(itemPath, path, useRelativePaths);
+    const fileName = relPath.split('/').pop() || '';
+
+    if (!shouldIncludeFile(relPath, fileName, includePatterns, excludePatterns)) {
+      if (wouldBeIncluded(relPath, fileName, includePatterns)) {
+        excludedFiles.push(relPath);
+      }
+      continue;
+    }
+
+    const { content, size } = await readZipEntryWithLimit(entry, maxFileSize);
+    if (!content) {
+      skippedFiles.push([itemPath, size]);
+      continue;
+    }
+
+    files[relPath] = content.toString('utf-8');
+  }
+
+  console.log(`Extracted ${Object.keys(files).length} files from the ${provider.name} archive`);
+  return { files, skippedFiles, excludedFiles };
+}
+
+// Store the crawled files in the blob store and remember the crawl, so the next
+// one can start from it. Returns the manifest ID; failing to store isn't fatal.
+// An incomplete crawl isn't remembered, as its missing files would never be fetched.
+function recordCrawl({
+  repoUrl,
+  commitSha,
+  settingsHash,
+  files,
+  blobShas,
+  skippedFiles,
+  excludedFiles,
+  incomplete = false
+}: {
+  repoUrl: string;
+  commitSha?: string;
+  settingsHash: string;
+  files: Record<string, string>;
+  blobShas: Record<string, string>;
+  skippedFiles: [string, number][];
+  excludedFiles: string[];
+  incomplete?: boolean;
+}): string | undefined {
+  try {
+    const manifest = createManifest(repoUrl, files, { commitSha, blobShas });
+    if (commitSha && !incomplete) {
+      saveCrawlSnapshot({
+        repoUrl,
+        commitSha,
+        settingsHash,
+        crawledAt: new Date().toISOString(),
+        manifestId: manifest.id,
+        skippedFiles,
+        excludedFiles
+      });
+    }
+    return manifest.id;
+  } catch (error) {
+    console.error('Failed to store crawled files:', error);
+    return undefined;
+  }
+}
+
+// Response body of a crawl: the files and the stats shown to the user
+function buildCrawlResult({
+  files,
+  manifestId,
+  skippedFiles,
+  excludedFiles,
+  path,
+  ref,
+  includePatterns,
+  excludePatterns,
+  requestCount,
+  method,
+  commitSha,
+  baseCommitSha,
+  changedPaths,
+  unlistedPaths,
+  failedPaths
+}: {
+  files: Record<string, string>;
+  manifestId?: string;
+  skippedFiles: [string, number][];
+  excludedFiles: string[];
+  path: string;
+  ref: string;
+  includePatterns: string[];
+  excludePatterns: string[];
+  requestCount: number;
+  method: string;
+  commitSha?: string;
+  baseCommitSha?: string;
+  changedPaths?: string[];
+  unlistedPaths?: string[];
+  failedPaths?: string[];
+}) {
+  console.log(`Fetched ${Object.keys(files).length} files with ${requestCount} API requests using ${method} method.`);
+  
+  // Limit the number of excluded files to report to avoid excessively large responses
+  const excludedFilesToReport = excludedFiles.length > 100 ? 
+    [...excludedFiles.slice(0, 100), `... and ${excludedFiles.length - 100} more files`] : 
+    excludedFiles;
+  
+  return {
+    files,
+    stats: {
+      downloaded_count: Object.keys(files).length,
+      skipped_count: skippedFiles.length,
+      skipped_files: skippedFiles,
+      excluded_count: excludedFiles.length,
+      excluded_files: excludedFilesToReport,
+      base_path: path || null,
+      ref: ref || undefined,
+      include_patterns: includePatterns,
+      exclude_patterns: excludePatterns,
+      api_requests: requestCount,
+      method: method,
+      commit_sha: commitSha,
+      base_commit_sha: baseCommitSha,
+      changed_paths: changedPaths,
+      unlisted_paths: unlistedPaths?.length ? unlistedPaths : undefined,
+      failed_paths: failedPaths?.length ? failedPaths : undefined,
+      manifest_id: manifestId
+    }
+  };
+}
+
+// HYBRID APPROACH: Function to crawl repository files - lists the whole tree first, falls back to
+// directory crawling on GitHub. The source provider makes the API calls for the repository's host.
+// When the previous crawl of the repo used the same settings, only the files changed since its commit are fetched.
+// When many files are needed, or the tree can't be listed, the repository is downloaded as one archive instead.
 async function crawlGitHubFiles({ 
-  owner, 
-  repo, 
-  ref, 
-  path, 
+  source,
+  provider,
   token, 
   useRelativePaths,
   includePatterns, 
   excludePatterns,
-  maxFileSize 
-}: any) {
+  maxFileSize,
+  repoUrl,
+  crawlMethod
+}: {
+  source: RepoSource;
+  provider: SourceProvider;
+  token?: string;
+  useRelativePaths: boolean;
+  includePatterns: string[];
+  excludePatterns: string[];
+  maxFileSize: number;
+  repoUrl: string;
+  crawlMethod: CrawlMethod;
+}) {
+  const { ref, path } = source;
   const files: Record<string, string> = {};
+  const blobShas: Record<string, string> = {}; // Git blob SHA of each file, from the tree or contents listing
   const skippedFiles: [string, number][] = [];
   const excludedFiles: string[] = []; // Track files excluded by patterns
+  const unlistedPaths: string[] = []; // Directories of a truncated tree that couldn't be listed
+  const failedPaths: string[] = []; // Files that failed to download
   let requestCount = 0;
   let method = 'unknown';
-  
-  // Function to check if a file would match include patterns (ignoring exclusions)
-  function wouldBeIncluded(filePath: string, fileName: string, includePatterns?: string[]) {
-    if (!includePatterns || includePatterns.length === 0) return true;
-    
-    function matchesPattern(path: string, pattern: string) {
-      const regexPattern = pattern
-        .replace(/\./g, '\\.')
-        .replace(/\*\*/g, '__GLOBSTAR__')
-        .replace(/\*/g, '[^/]*')
-        .replace(/__GLOBSTAR__/g, '.*');
-      
-      const regex = new RegExp(`^${regexPattern}$`);
-      return regex.test(path);
+
+  const apiHeaders = provider.requestHeaders(token);
+  const request: SourceRequest = (url, accept) => {
+    requestCount++;
+    return fetch(url, { headers: accept ? { ...apiHeaders, 'Accept': accept } : apiHeaders });
+  };
+
+  const commitSha = await provider.resolveCommitSha(source, request);
+
+  const settingsHash = computeContentHash(
+    JSON.stringify([path, ref, !!useRelativePaths, includePatterns, excludePatterns, maxFileSize])
+  );
+
+  const snapshot = commitSha ? loadCrawlSnapshot(repoUrl) : null;
+  if (commitSha && snapshot?.settingsHash === settingsHash) {
+    const incremental = await crawlChangedFiles({
+      source,
+      provider,
+      request,
+      useRelativePaths,
+      includePatterns,
+      excludePatterns,
+      maxFileSize,
+      snapshot,
+      commitSha
+    });
+
+    if (incremental) {
+      const manifestId = recordCrawl({ ...incremental, repoUrl, commitSha, settingsHash });
+
+      return buildCrawlResult({
+        ...incremental,
+        manifestId,
+        path,
+        ref,
+        includePatterns,
+        excludePatterns,
+        requestCount,
+        method: 'incremental',
+        commitSha,
+        baseCommitSha: snapshot.commitSha
+      });
     }
-    
-    return includePatterns.some(pattern => 
-      matchesPattern(fileName, pattern) || matchesPattern(filePath, pattern)
-    );
+  }
+
+  // The whole crawl from one archive download, or null to crawl through the API
+  let archiveTried = false;
+  const crawlFromArchive = async () => {
+    archiveTried = true;
+    const archive = await crawlArchive({
+      source,
+      provider,
+      request,
+      ref: commitSha || ref,
+      useRelativePaths,
+      includePatterns,
+      excludePatterns,
+      maxFileSize
+    });
+    if (!archive) return null;
+
+    const manifestId = recordCrawl({ ...archive, blobShas: {}, repoUrl, commitSha, settingsHash });
+    return buildCrawlResult({
+      ...archive,
+      manifestId,
+      path,
+      ref,
+      includePatterns,
+      excludePatterns,
+      requestCount,
+      method: 'archive',
+      commitSha
+    });
+  };
+
+  if (crawlMethod === 'archive') {
+    const archiveResult = await crawlFromArchive();
+    if (archiveResult) return archiveResult;
   }
   
-  // First try the tree API approach for efficiency
+  // First try listing the whole tree for efficiency
   try {
-    // Get default branch if ref is not specified
-    // if (!ref) {
-    //   const repoUrl = `https://api.github.com/repos/${owner}/${repo}`;
-    //   const headers: HeadersInit = token ? { 'Authorization': `token ${token}` } : {};
-    //   const repoResponse = await fetch(repoUrl, { headers });
-    //   requestCount++;
-      
-    //   // Check for rate limit headers
-    //   const rateLimitHeaders: Record<string, string> = {};
-    //   ['x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset'].forEach(header => {
-    //     const value = repoResponse.headers.get(header);
-    //     if (value) rateLimitHeaders[header] = value;
-    //   });
-      
-    //   if (!repoResponse.ok) {
-    //     const errorText = await repoResponse.text();
-        
-    //     // Special handling for rate limit errors
-    //     if (repoResponse.status === 403 && errorText.includes('rate limit')) {
-    //       throw {
-    //         rateLimitInfo: {
-    //           status: 403,
-    //           message: errorText,
-    //           headers: rateLimitHeaders
-    //         }
-    //       };
-    //     }
-        
-    //     // If we can't get repo info, fall back to master as common default
-    //     ref = 'master';
-    //   } else {
-    //     const repoInfo = await repoResponse.json();
-    //     ref = repoInfo.default_branch;
-    //   }
-    // }
-    
-    // Get the repository tree recursively to maximize efficiency
-    const treeUrl = `https://api.github.com/repos/${owner}/${repo}/git/trees/${ref}?recursive=1`;
-    const headers: HeadersInit = {
-      'Accept': 'application/vnd.github.v3+json'
-    };
-    
-    if (token) {
-      headers['Authorization'] = `token ${token}`;
-    }
-    
-    const treeResponse = await fetch(treeUrl, { headers });
-    requestCount++;
-    
-    // Track rate limit
-    const rateLimitHeaders: Record<string, string> = {};
-    ['x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset'].forEach(header => {
-      const value = treeResponse.headers.get(header);
-      if (value) rateLimitHeaders[header] = value;
-    });
-    
-    // Handle errors
-    if (!treeResponse.ok) {
-      const errorText = await treeResponse.text();
-      if (treeResponse.status === 403 && errorText.includes('rate limit')) {
-        throw {
-          rateLimitInfo: {
-            status: 403,
-            message: errorText,
-            headers: rateLimitHeaders
-          }
-        };
-      }
-      
-      // Handle abuse detection mechanism errors (HTTP 429)
-      if (treeResponse.status === 429) {
-        throw {
-          abuseDetection: true,
-          message: errorText
-        };
-      }
-      
-      // For other errors, we'll fall back to the directory crawl approach
-      throw new Error(`Tree API error: ${treeResponse.status}`);
-    }
-    
-    const tree = await treeResponse.json();
-    
-    // Check if the tree was truncated (too many files)
-    if (tree.truncated) {
-      console.log('Tree API response was truncated. Falling back to directory crawl.');
-      throw new Error('Tree API response was truncated');
-    }
+    const treeRef = commitSha || ref;
+    const { files: treeFiles, unlistedPaths: treeUnlistedPaths } = await provider.listFiles(source, treeRef, request);
+    unlistedPaths.push(...treeUnlistedPaths);
     
     method = 'tree_api';
     
     // Check for excluded files that would have been included
-    tree.tree.forEach((item: any) => {
-      if (item.type !== 'blob') return;
-      
-      // Calculate relative path if requested
-      let relPath = item.path;
-      if (useRelativePaths && path && item.path.startsWith(path)) {
-        relPath = item.path.substring(path.length).replace(/^\//, '');
-      }
-      
+    treeFiles.forEach(item => {
+      const relPath = toRelativePath(item.path, path, useRelativePaths);
       const fileName = relPath.split('/').pop() || '';
       
       // Check if file would match include patterns but is excluded
@@ -303,132 +714,111 @@ async function crawlGitHubFiles({
       }
     });
     
-    // Filter for the files we want
-    const filesToFetch = tree.tree
-      .filter((item: any) => {
-        // Only process files
-        if (item.type !== 'blob') return false;
-        
-        // Handle path filtering
-        let itemPath = item.path;
-        if (path && !itemPath.startsWith(path)) return false;
-        
-        // Calculate relative path if requested
-        let relPath = itemPath;
-        if (useRelativePaths && path && itemPath.startsWith(path)) {
-          relPath = itemPath.substring(path.length).replace(/^\//, '');
-        }
-        
-        // Apply include/exclude patterns
-        return shouldIncludeFile(relPath, relPath.split('/').pop() || '', includePatterns, excludePatterns);
-      })
-      .map((item: any) => {
-        // Calculate relative path
-        let relPath = item.path;
-        if (useRelativePaths && path && item.path.startsWith(path)) {
-          relPath = item.path.substring(path.length).replace(/^\//, '');
-        }
-        return {
-          ...item,
-          relPath
-        };
-      });
+    // Filter for the files we want, applying include/exclude patterns
+    const filesToFetch = treeFiles
+      .map(item => ({ ...item, relPath: toRelativePath(item.path, path, useRelativePaths) }))
+      .filter(item => shouldIncludeFile(item.relPath, item.relPath.split('/').pop() || '', includePatterns, excludePatterns));
+    
+    // Files already in the blob store from an earlier crawl aren't downloaded again,
+    // and files the listing reports as too large aren't downloaded at all
+    const filesToDownload = filesToFetch.filter(item => {
+      if (item.size !== undefined && item.size > maxFileSize) {
+        skippedFiles.push([item.path, item.size]);
+        return false;
+      }
+      const storedContent = item.sha ? readBlob(item.sha) : null;
+      if (storedContent === null) return true;
+      files[item.relPath] = storedContent;
+      blobShas[item.relPath] = item.sha!;
+      return false;
+    });
     
-    console.log(`Found ${filesToFetch.length} files to fetch via Tree API`);
+    console.log(`Found ${filesToFetch.length} files via ${provider.name} tree listing, ${filesToDownload.length} not in the blob store to fetch`);
+
+    // An archive also has the files of directories the tree listing missed
+    if (crawlMethod === 'auto' && (filesToDownload.length > ARCHIVE_MIN_FILES || unlistedPaths.length > 0)) {
+      const archiveResult = await crawlFromArchive();
+      if (archiveResult) return archiveResult;
+    }
     
     // Batch process files to be nice to API limits
     const batchSize = 10;
     
-    for (let i = 0; i < filesToFetch.length; i += batchSize) {
-      const batch = filesToFetch.slice(i, i + batchSize);
+    for (let i = 0; i < filesToDownload.length; i += batchSize) {
+      const batch = filesToDownload.slice(i, i + batchSize);
       
       // Use Promise.all to fetch files in parallel within each batch
-      await Promise.all(batch.map(async (item: any) => {
+      await Promise.all(batch.map(async item => {
         try {
-          // Use the blob API to get file content
-          const blobUrl = `https://api.github.com/repos/${owner}/${repo}/git/blobs/${item.sha}`;
-          const blobResponse = await fetch(blobUrl, { headers });
-          requestCount++;
+          const file = await provider.readFile(source, item, treeRef, request);
+          if (!file) {
+            failedPaths.push(item.path);
+            return;
+          }
           
-          if (blobResponse.ok) {
-            const blobData = await blobResponse.json();
-            
-            // Check file size
-            if (blobData.size > maxFileSize) {
-              skippedFiles.push([item.path, blobData.size]);
-              return;
-            }
-            
-            if (blobData.encoding === 'base64' && blobData.content) {
-              try {
-                const decodedContent = decodeBase64(blobData.content);
-                files[item.relPath] = decodedContent;
-              } catch (e) {
-                console.error(`Failed to decode content for ${item.path}`, e);
-              }
-            }
+          // Check file size
+          if (file.size > maxFileSize) {
+            skippedFiles.push([item.path, file.size]);
+            return;
+          }
+          
+          files[item.relPath] = file.content;
+          blobShas[item.relPath] = item.sha ?? writeBlob(file.content);
+        } catch (error: unknown) {
+          const err = error as { rateLimitInfo?: unknown; abuseDetection?: boolean };
+          if (err?.rateLimitInfo || err?.abuseDetection) {
+            throw error;
           }
-        } catch (error) {
           console.error(`Error fetching ${item.path}:`, error);
+          failedPaths.push(item.path);
         }
       }));
       
       // Optional: Add a small delay between batches to be gentle on the API
-      if (i + batchSize < filesToFetch.length) {
+      if (i + batchSize < filesToDownload.length) {
         await new Promise(resolve => setTimeout(resolve, 200));
       }
     }
   } catch (error) {
+    // Crawling some other way after hitting a rate limit would only use up more requests
+    const err = error as { rateLimitInfo?: unknown; abuseDetection?: boolean };
+    if (err?.rateLimitInfo || err?.abuseDetection) {
+      throw error;
+    }
+
+    // An incomplete or failed listing can still be crawled from one archive
+    if (crawlMethod !== 'api' && !archiveTried) {
+      console.log(`Tree listing failed (${error instanceof Error ? error.message : error}). Trying an archive download.`);
+      const archiveResult = await crawlFromArchive();
+      if (archiveResult) return archiveResult;
+    }
+
+    // Only GitHub's contents API can be walked directory by directory
+    if (!usesGitHubApi(source)) {
+      throw error;
+    }
+
     // Fall back to directory-by-directory approach if tree approach fails
     console.log('Falling back to directory crawl approach:', error);
     
-    // Reset counters for the fallback method
+    // Reset counters for the fallback method, which walks every directory
     requestCount = 0;
+    unlistedPaths.length = 0;
+    failedPaths.length = 0;
     method = 'contents_api';
     
     // Fallback directory crawler implementation
     async function fetchContents(contentPath: string) {
-      const url = `https://api.github.com/repos/${owner}/${repo}/contents/${contentPath}`;
-      const headers: HeadersInit = {
-        'Accept': 'application/vnd.github.v3+json'
-      };
-      
-      if (token) {
-        headers['Authorization'] = `token ${token}`;
-      }
-      
-      const params = ref ? `?ref=${ref}` : '';
-      const response = await fetch(`${url}${params}`, { headers });
-      requestCount++;
-      
-      // Check for rate limit headers that we want to capture
-      const rateLimitHeaders: Record<string, string> = {};
-      ['x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset'].forEach(header => {
-        const value = response.headers.get(header);
-        if (value) rateLimitHeaders[header] = value;
-      });
+      const url = `${source.apiBase}/repos/${source.owner}/${source.repo}/contents/${contentPath}`;
+      const contentsRef = commitSha || ref;
+      const params = contentsRef ? `?ref=${encodeURIComponent(contentsRef)}` : '';
+      const response = await request(`${url}${params}`);
       
       if (!response.ok) {
         const errorText = await response.text();
         
-        // Special handling for rate limit errors
-        if (response.status === 403 && errorText.includes('rate limit')) {
-          throw {
-            rateLimitInfo: {
-              status: 403,
-              message: errorText,
-              headers: rateLimitHeaders
-            }
-          };
-        }
-        
-        // Handle abuse detection mechanism errors (HTTP 429)
-        if (response.status === 429) {
-          throw {
-            abuseDetection: true,
-            message: errorText
-          };
-        }
+        // Rate limit and abuse detection errors are forwarded to the client
+        provider.throwIfRateLimited(response, errorText);
         
         throw new Error(`GitHub API error: ${response.status} ${errorText}`);
       }
@@ -473,6 +863,14 @@ async function crawlGitHubFiles({
               return;
             }
             
+            // Files already in the blob store from an earlier crawl aren't downloaded again
+            const storedContent = item.sha ? readBlob(item.sha) : null;
+            if (storedContent !== null) {
+              files[relPath] = storedContent;
+              blobShas[relPath] = item.sha;
+              return;
+            }
+            
             // Get file content
             try {
               if (item.download_url) {
@@ -481,28 +879,35 @@ async function crawlGitHubFiles({
                 
                 if (fileResponse.ok) {
                   files[relPath] = await fileResponse.text();
+                  blobShas[relPath] = item.sha;
                 } else if (fileResponse.status === 429) {
                   throw {
                     abuseDetection: true,
                     message: await fileResponse.text()
                   };
+                } else {
+                  failedPaths.push(itemPath);
                 }
               } else {
                 // Alternative method using content API
-                const contentResponse = await fetch(item.url, { headers });
-                requestCount++;
+                const contentResponse = await request(item.url);
                 
                 if (contentResponse.ok) {
                   const contentData = await contentResponse.json();
                   if (contentData.encoding === 'base64' && contentData.content) {
                     const decodedContent = decodeBase64(contentData.content);
                     files[relPath] = decodedContent;
+                    blobShas[relPath] = item.sha;
+                  } else {
+                    failedPaths.push(itemPath);
                   }
                 } else if (contentResponse.status === 429) {
                   throw {
                     abuseDetection: true,
                     message: await contentResponse.text()
                   };
+                } else {
+                  failedPaths.push(itemPath);
                 }
               }
             } catch (error: any) {
@@ -510,6 +915,7 @@ async function crawlGitHubFiles({
                 throw error; // Re-throw to be caught at the higher level
               }
               console.error(`Error fetching content for ${itemPath}:`, error);
+              failedPaths.push(itemPath);
             }
           } else if (item.type === 'dir') {
             // Recursively process directories
@@ -531,72 +937,31 @@ async function crawlGitHubFiles({
     await fetchContents(path || '');
   }
   
-  console.log(`Fetched ${Object.keys(files).length} files with ${requestCount} API requests using ${method} method.`);
-  
-  // Limit the number of excluded files to report to avoid excessively large responses
-  const excludedFilesToReport = excludedFiles.length > 100 ? 
-    [...excludedFiles.slice(0, 100), `... and ${excludedFiles.length - 100} more files`] : 
-    excludedFiles;
-  
-  return {
+  const manifestId = recordCrawl({
+    repoUrl,
+    commitSha,
+    settingsHash,
     files,
-    stats: {
-      downloaded_count: Object.keys(files).length,
-      skipped_count: skippedFiles.length,
-      skipped_files: skippedFiles,
-      excluded_count: excludedFiles.length,
-      excluded_files: excludedFilesToReport,
-      base_path: path || null,
-      include_patterns: includePatterns,
-      exclude_patterns: excludePatterns,
-      api_requests: requestCount,
-      method: method
-    }
-  };
-}
-
-// Helper to check if a file should be included based on patterns
-function shouldIncludeFile(
-  filePath: string, 
-  fileName: string, 
-  includePatterns?: string[], 
-  excludePatterns?: string[]
-) {
-  // Function to check if a path matches a pattern
-  function matchesPattern(path: string, pattern: string) {
-    // Simple pattern matching implementation
-    const regexPattern = pattern
-      .replace(/\./g, '\\.')
-      .replace(/\*\*/g, '__GLOBSTAR__')
-      .replace(/\*/g, '[^/]*')
-      .replace(/__GLOBSTAR__/g, '.*');
-    
-    const regex = new RegExp(`^${regexPattern}$`);
-    return regex.test(path);
-  }
-
-  // Check exclude patterns first - always prioritize exclusions
-  if (excludePatterns && excludePatterns.length > 0) {
-    const shouldExclude = excludePatterns.some(pattern => 
-      matchesPattern(filePath, pattern) || matchesPattern(fileName, pattern)
-    );
-    
-    // If file should be excluded, return false regardless of include patterns
-    if (shouldExclude) {
-      return false;
-    }
-  }
+    blobShas,
+    skippedFiles,
+    excludedFiles,
+    // Remembering the crawl would keep the missing files from ever being fetched
+    incomplete: unlistedPaths.length > 0 || failedPaths.length > 0
+  });
 
-  // If no include patterns specified, don't include any files
-  // This prevents downloading files when no file types are selected
-  if (!includePatterns || includePatterns.length === 0) {
-    return false;
-  }
-  
-  // Check if file matches any include pattern
-  const shouldInclude = includePatterns.some(pattern => 
-    matchesPattern(fileName, pattern) || matchesPattern(filePath, pattern)
-  );
-  
-  return shouldInclude;
-}
\ No newline at end of file
+  return buildCrawlResult({
+    files,
+    manifestId,
+    skippedFiles,
+    excludedFiles,
+    path,
+    ref,
+    includePatterns,
+    excludePatterns,
+    requestCount,
+    method,
+    commitSha,
+    unlistedPaths,
+    failedPaths
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Tutorial Job Events API
+ * Server-Sent Events stream of a job's progress. Recorded events are replayed
+ * first, so clients can reconnect at any time; the stream closes once the job
+ * has finished. `chapter_delta` events (streamed chapter text) are live only:
+ * a reconnecting client gets the chapter written so far as one event.
+ *
+ * GET ?since=<eventId> - Only replay events after this ID
+ *     (the Last-Event-ID header sent by EventSource on reconnect works the same way)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getJob,
+  getChapterDraftEvent,
+  subscribeToJob,
+  isTerminalStatus,
+  type JobEvent,
+} from '@/lib/jobQueue';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = getJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: `Job not found: ${jobId}` }, { status: 404 });
+  }
+
+  const since = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('since');
+  const lastEventId = since !== null && !isNaN(Number(since)) ? Number(since) : -1;
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch {
+          // Stream already torn down by the client
+        }
+      };
+
+      const send = (event: JobEvent) => {
+        if (closed) return;
+        // Live events carry no id, so they don't move the client's Last-Event-ID
+        if (event.live) {
+          controller.enqueue(encoder.encode(
+            `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+          ));
+          return;
+        }
+        if (event.id <= lastEventId) return;
+        controller.enqueue(encoder.encode(
+          `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+        ));
+      };
+
+      // Replay what has happened so far
+      for (const event of job.events) {
+        send(event);
+      }
+      if (isTerminalStatus(job.status)) {
+        close();
+        return;
+      }
+      const draft = getChapterDraftEvent(jobId);
+      if (draft) {
+        send(draft);
+      }
+
+      // Then follow the job live
+      unsubscribe = subscribeToJob(jobId, (event, current) => {
+        send(event);
+        if (isTerminalStatus(current.status)) {
+          close();
+        }
+      });
+
+      request.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,39 @@
+/**
+ * Tutorial Job API
+ * Returns a job's status, recorded progress events and output path, or cancels it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, cancelJob } from '@/lib/jobQueue';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { jobId } = await params;
+    const job = getJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: `Job not found: ${jobId}` }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { jobId } = await params;
+    const job = cancelJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: `Job not found: ${jobId}` }, { status: 404 });
+    }
+    return NextResponse.json({ jobId: job.jobId, status: job.status });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Tutorial Jobs API
+ * Runs tutorial generation as a background job that keeps going when the client disconnects
+ *
+ * POST - Same body as /api/tutorial-generator/stream (including resume_run_id);
+ *        returns { jobId, status } straight away
+ * GET  - Lists jobs with queue occupancy
+ *
+ * Follow a job with GET /api/jobs/:jobId or its event stream at /api/jobs/:jobId/events
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createJob, listJobs, getQueueStats, isTerminalStatus } from '@/lib/jobQueue';
+import { buildTutorialSharedState, type TutorialGenerationRequest } from '@/lib/tutorialRequest';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let payload: TutorialGenerationRequest;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const built = buildTutorialSharedState(payload);
+    if ('error' in built) {
+      return NextResponse.json({ error: built.error }, { status: built.status ?? 400 });
+    }
+
+    // A run is resumed by one job at a time
+    const runId = built.shared.run_id;
+    if (runId && listJobs().some(job => job.runId === runId && !isTerminalStatus(job.status))) {
+      return NextResponse.json({ error: `Run ${runId} is already being resumed` }, { status: 409 });
+    }
+
+    const job = createJob(built.shared);
+    return NextResponse.json({ jobId: job.jobId, status: job.status }, { status: 202 });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json({ jobs: listJobs(), queue: getQueueStats() });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Repository Refs API
+ * Lists a repository's default branch, branches and tags for the ref picker
+ * in the repository form
+ *
+ * POST - { repoUrl, token? }; returns { provider, defaultBranch, branches, tags, urlRef }
+ *        where urlRef is the branch, tag or commit in the URL itself (if any)
+ *
+ * The token is sent in the body rather than the query string so it isn't logged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSourceProvider,
+  parseRepoUrl,
+  resolveSourceToken,
+  type SourceRequest
+} from '@/lib/sourceProviders';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let body: { repoUrl?: string; token?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!body.repoUrl) {
+    return NextResponse.json({ error: 'repoUrl is required' }, { status: 400 });
+  }
+
+  const source = parseRepoUrl(body.repoUrl);
+  if (!source) {
+    return NextResponse.json({ error: 'Unsupported repository URL' }, { status: 400 });
+  }
+
+  const provider = getSourceProvider(source.provider);
+  const headers = provider.requestHeaders(resolveSourceToken(source, body.token));
+  const sourceRequest: SourceRequest = (url, accept) =>
+    fetch(url, { headers: accept ? { ...headers, 'Accept': accept } : headers });
+
+  try {
+    const refs = await provider.listRefs(source, sourceRequest);
+    return NextResponse.json({ provider: source.provider, ...refs, urlRef: source.ref || undefined });
+  } catch (error: unknown) {
+    // Rate limits are thrown as { rateLimitInfo } in the same shape for every provider
+    const rateLimited = error as { rateLimitInfo?: { status: number; message: string }; abuseDetection?: boolean };
+    if (rateLimited?.rateLimitInfo) {
+      return NextResponse.json(
+        { error: rateLimited.rateLimitInfo.message },
+        { status: rateLimited.rateLimitInfo.status }
+      );
+    }
+    if (rateLimited?.abuseDetection) {
+      return NextResponse.json({ error: 'API abuse detection triggered. Try again in a few minutes.' }, { status: 429 });
+    }
+
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Failed to list branches and tags' }, { status: 404 });
+  }
+}
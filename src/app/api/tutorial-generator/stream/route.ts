@@ -1,6 +1,6 @@
 import { NextRequest } from 'next/server';
 import { runTutorialFlowWithProgress, type ProgressCallback } from '@/lib/tutorialFlow';
-import { PROVIDER_IDS } from '@/lib/constants/llm';
+import { buildTutorialSharedState } from '@/lib/tutorialRequest';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -23,85 +23,39 @@ export async function POST(request: NextRequest) {
   const stream = new TransformStream();
   const writer = stream.writable.getWriter();
   
-  // Helper to send SSE events
+  // Helper to send SSE events; once the client has disconnected there is no one to send to
   const sendEvent = async (event: string, data: any) => {
+    if (request.signal.aborted) return;
     const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
     await writer.write(encoder.encode(message));
   };
 
   // Process the request in the background
   (async () => {
+    let shared: Record<string, unknown> | null = null;
     try {
-      const {
-        files,
-        repo_url,
-        include_patterns = ['.js', '.ts', '.jsx', '.tsx', '.md'],
-        exclude_patterns = ['node_modules', '.git', 'dist', 'build'],
-        project_name,
-        language = 'english',
-        use_cache = true,
-        max_abstraction_num = 5,
-        max_file_size = 1000000,
-        openai_api_key,
-        llm_provider = PROVIDER_IDS.OPENAI,
-        llm_model,
-        llm_api_key,
-        llm_base_url,
-        regeneration_mode,
-        force_full_regeneration = false,
-      } = payload;
-
-      // Validate inputs
-      if (!repo_url) {
-        await sendEvent('error', { message: 'Repository URL is required' });
-        await writer.close();
+      const built = buildTutorialSharedState(payload);
+      if ('error' in built) {
+        await sendEvent('error', { message: built.error });
         return;
       }
-
-      if (!files || !Array.isArray(files) || files.length === 0) {
-        await sendEvent('error', { message: 'Files data is required' });
-        await writer.close();
-        return;
-      }
-
-      // Process files
-      const processedFiles = files.map((file: any) => {
-        if (Array.isArray(file) && file.length === 2) return file;
-        if (file.path && file.content) return [file.path, file.content];
-        return file;
-      });
+      shared = built.shared;
+      // Closing the connection cancels the run instead of leaving it running unseen
+      shared.abort_signal = request.signal;
 
       // Send initial progress
-      await sendEvent('progress', { 
+      await sendEvent('progress', {
         stage: 'starting',
-        message: 'Starting tutorial generation...',
+        message: built.resumeRunId
+          ? `Resuming run ${built.resumeRunId} from last checkpoint...`
+          : 'Starting tutorial generation...',
         progress: 0
       });
 
-      // Create shared context
-      const shared = {
-        files: processedFiles,
-        repo_url,
-        include_patterns,
-        exclude_patterns,
-        project_name: project_name || repo_url.split('/').pop()?.replace(/\.git$/, '') || 'GitHub-Tutorial',
-        language,
-        use_cache,
-        max_abstraction_num,
-        max_file_size,
-        skip_fetch_repo: true,
-        openai_api_key: llm_api_key || openai_api_key,
-        llm_provider,
-        llm_model,
-        llm_api_key: llm_api_key || openai_api_key,
-        llm_base_url,
-        force_full_regeneration,
-        requested_regeneration_mode: regeneration_mode,
-      };
-
       // Progress callback for streaming updates
       const onProgress: ProgressCallback = async (update) => {
-        await sendEvent('progress', update);
+        const isOwnEvent = ['chapter_delta', 'llm_fallback', 'budget_exceeded'].includes(update.stage);
+        await sendEvent(isOwnEvent ? update.stage : 'progress', update);
       };
 
       // Run the tutorial flow with progress tracking
@@ -111,18 +65,27 @@ export async function POST(request: NextRequest) {
       await sendEvent('complete', { 
         success: true,
         message: 'Tutorial created successfully',
+        run_id: shared.run_id,
         result 
       });
 
     } catch (error) {
       console.error('[TutorialStream] Error:', error);
       await sendEvent('error', { 
-        message: error instanceof Error ? error.message : 'Unknown error' 
+        message: error instanceof Error ? error.message : 'Unknown error',
+        // Lets the client offer "resume from last checkpoint"
+        run_id: shared?.run_id,
       });
     } finally {
-      await writer.close();
+      try {
+        await writer.close();
+      } catch {
+        // The stream was already closed by the client disconnecting
+      }
     }
-  })();
+  })().catch((error) => {
+    console.error('[TutorialStream] Failed to send events:', error);
+  });
 
   // Return the SSE response
   return new Response(stream.readable, {
@@ -0,0 +1,38 @@
+/**
+ * Tutorial Run API
+ * Returns or deletes a single checkpointed run
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRun, deleteRun } from '@/lib/runCheckpoints';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ runId: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { runId } = await params;
+    const run = loadRun(runId);
+    if (!run) {
+      return NextResponse.json({ error: `Run not found: ${runId}` }, { status: 404 });
+    }
+    return NextResponse.json(run);
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { runId } = await params;
+    if (!deleteRun(runId)) {
+      return NextResponse.json({ error: `Run not found: ${runId}` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Tutorial Runs API
+ * Lists checkpointed tutorial runs (e.g. failed runs that can be resumed)
+ *
+ * GET ?status=failed|paused|running|completed|cancelled
+ *
+ * To resume a run, POST { resume_run_id, llm_api_key? } to /api/jobs (or /api/tutorial-generator/stream).
+ * A run paused at its budget can be resumed with a new max_cost_usd / max_tokens, or with resume_settings.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listRuns, type RunStatus } from '@/lib/runCheckpoints';
+
+export const dynamic = 'force-dynamic';
+
+const RUN_STATUSES: RunStatus[] = ['running', 'failed', 'paused', 'completed', 'cancelled'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+
+    if (status && !RUN_STATUSES.includes(status as RunStatus)) {
+      return NextResponse.json({
+        error: `Invalid status: ${status}. Use one of: ${RUN_STATUSES.join(', ')}`,
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ runs: listRuns(status as RunStatus | undefined) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Tutorial Export API
+ * Downloads a generated tutorial as a zip archive, a single HTML file,
+ * or a print-optimised HTML file (for saving to PDF)
+ *
+ * GET  ?format=zip|html|print                 - Mermaid diagrams are left as source
+ * POST { format, mermaidSvgs }                - Mermaid diagrams pre-rendered by the browser
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadTutorial } from '@/lib/tutorialOutput';
+import {
+  exportTutorial,
+  TUTORIAL_EXPORT_FORMATS,
+  type TutorialExportFormat,
+} from '@/lib/tutorialExport';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ project: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { project } = await params;
+  const format = request.nextUrl.searchParams.get('format') || 'zip';
+  return handleExport(project, format);
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { project } = await params;
+  try {
+    const { format = 'html', mermaidSvgs } = await request.json();
+    return handleExport(project, format, mermaidSvgs);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+}
+
+async function handleExport(
+  project: string,
+  format: string,
+  mermaidSvgs?: Record<string, string>
+) {
+  try {
+    if (!TUTORIAL_EXPORT_FORMATS.includes(format as TutorialExportFormat)) {
+      return NextResponse.json({
+        error: `Unsupported format: ${format}. Use one of: ${TUTORIAL_EXPORT_FORMATS.join(', ')}`,
+      }, { status: 400 });
+    }
+
+    const tutorial = loadTutorial(project);
+    if (!tutorial) {
+      return NextResponse.json({ error: `Tutorial not found: ${project}` }, { status: 404 });
+    }
+
+    const file = await exportTutorial(tutorial, format as TutorialExportFormat, { mermaidSvgs });
+    const body = typeof file.body === 'string' ? file.body : new Uint8Array(file.body);
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename.replace(/[^\w.-]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Tutorial API
+ * Returns a generated tutorial's index and chapter list, or a single
+ * Markdown file when `?file=<name>.md` is given
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadTutorial, loadTutorialFile } from '@/lib/tutorialOutput';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ project: string }> }
+) {
+  try {
+    const { project } = await params;
+    const file = request.nextUrl.searchParams.get('file');
+
+    if (file) {
+      const content = loadTutorialFile(project, file);
+      if (content === null) {
+        return NextResponse.json({ error: `File not found: ${file}` }, { status: 404 });
+      }
+      return NextResponse.json({ filename: file, content });
+    }
+
+    const tutorial = loadTutorial(project);
+    if (!tutorial) {
+      return NextResponse.json({ error: `Tutorial not found: ${project}` }, { status: 404 });
+    }
+    return NextResponse.json(tutorial);
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Tutorials API
+ * Lists tutorials generated into the output directory
+ */
+
+import { NextResponse } from 'next/server';
+import { listTutorials } from '@/lib/tutorialOutput';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ tutorials: listTutorials() });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
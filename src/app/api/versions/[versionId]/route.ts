@@ -0,0 +1,69 @@
+/**
+ * Saved Version API
+ * Returns a saved version with its files, renames it or deletes it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteVersion, getVersion, loadVersionFiles, renameVersion } from '@/lib/savedVersions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ versionId: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { versionId } = await params;
+    const version = getVersion(versionId);
+    if (!version) {
+      return NextResponse.json({ error: `Version not found: ${versionId}` }, { status: 404 });
+    }
+
+    const files = loadVersionFiles(version);
+    if (!files) {
+      return NextResponse.json({ error: `Files of version ${versionId} are no longer stored` }, { status: 410 });
+    }
+    return NextResponse.json({ version, files });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  let body: { name?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!body.name?.trim()) {
+    return NextResponse.json({ error: 'name is required' }, { status: 400 });
+  }
+
+  try {
+    const { versionId } = await params;
+    const version = renameVersion(versionId, body.name.trim());
+    if (!version) {
+      return NextResponse.json({ error: `Version not found: ${versionId}` }, { status: 404 });
+    }
+    return NextResponse.json(version);
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { versionId } = await params;
+    if (!deleteVersion(versionId)) {
+      return NextResponse.json({ error: `Version not found: ${versionId}` }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: versionId });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
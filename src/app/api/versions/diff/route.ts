@@ -0,0 +1,33 @@
+/**
+ * Saved Versions Diff API
+ * GET ?base=:versionId&head=:versionId - files added, removed and modified
+ * between two versions of the same repository, with both sides' contents
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { diffVersions } from '@/lib/savedVersions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const baseId = request.nextUrl.searchParams.get('base');
+  const headId = request.nextUrl.searchParams.get('head');
+  if (!baseId || !headId) {
+    return NextResponse.json({ error: 'base and head version IDs are required' }, { status: 400 });
+  }
+
+  try {
+    const diff = diffVersions(baseId, headId);
+    if (!diff) {
+      return NextResponse.json({ error: `Version not found: ${baseId} or ${headId}` }, { status: 404 });
+    }
+    if (diff.base.repository !== diff.head.repository) {
+      return NextResponse.json({ error: 'Only versions of the same repository can be compared' }, { status: 400 });
+    }
+    return NextResponse.json(diff);
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Saved Versions API
+ * Named versions of crawled files, stored server-side in the blob store
+ *
+ * GET  - Lists versions, newest first (?repository= for one repository's)
+ * POST - { name, repository, manifestId? | files?, timestamp? }; saves a version
+ *        of a crawl already in the blob store (manifestId) or of the given files
+ *
+ * Load, rename or delete one with /api/versions/:versionId;
+ * compare two with GET /api/versions/diff?base=:versionId&head=:versionId
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createVersion, listVersions } from '@/lib/savedVersions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const repository = request.nextUrl.searchParams.get('repository') || undefined;
+    return NextResponse.json({ versions: listVersions(repository) });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: {
+    name?: string;
+    repository?: string;
+    manifestId?: string;
+    files?: Record<string, string>;
+    timestamp?: string;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { name, repository, manifestId, files, timestamp } = body;
+  if (!name?.trim() || !repository) {
+    return NextResponse.json({ error: 'name and repository are required' }, { status: 400 });
+  }
+  if (!manifestId && (!files || typeof files !== 'object' || Array.isArray(files) ||
+      Object.values(files).some(content => typeof content !== 'string'))) {
+    return NextResponse.json({ error: 'manifestId or files (path -> content) is required' }, { status: 400 });
+  }
+
+  try {
+    const version = createVersion({ name: name.trim(), repository, manifestId, files, timestamp });
+    return NextResponse.json(version, { status: 201 });
+  } catch (error: unknown) {
+    const err = error as Error;
+    const status = err.message?.startsWith('Crawl not found') ? 404 : 500;
+    return NextResponse.json({ error: err.message || 'Unknown error' }, { status });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Workspace Overview API
+ * Writes the top-level tutorial of a monorepo once its package tutorials
+ * have been generated
+ *
+ * POST - { project_name, tool, packages, repo_url?, commit_sha?, ref? }
+ *        where each package is { name, path, description?, dependencies, project_name };
+ *        returns { projectName }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isSafePathSegment } from '@/lib/tutorialOutput';
+import { writeWorkspaceOverview, type OverviewPackage } from '@/lib/workspaceOverview';
+import { WORKSPACE_TOOL_NAMES, type WorkspaceTool } from '@/lib/workspaces';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface OverviewRequestPackage {
+  name?: string;
+  path?: string;
+  description?: string;
+  dependencies?: string[];
+  project_name?: string;
+}
+
+export async function POST(request: NextRequest) {
+  let body: {
+    project_name?: string;
+    tool?: string;
+    packages?: OverviewRequestPackage[];
+    repo_url?: string;
+    commit_sha?: string;
+    ref?: string;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!body.project_name || !isSafePathSegment(body.project_name)) {
+    return NextResponse.json({ error: 'A valid project_name is required' }, { status: 400 });
+  }
+  if (!body.tool || !Object.hasOwn(WORKSPACE_TOOL_NAMES, body.tool)) {
+    return NextResponse.json({ error: 'Unknown workspace tool' }, { status: 400 });
+  }
+  if (!Array.isArray(body.packages) || body.packages.length === 0) {
+    return NextResponse.json({ error: 'packages is required' }, { status: 400 });
+  }
+
+  const packages: OverviewPackage[] = [];
+  for (const pkg of body.packages) {
+    if (!pkg?.name || !pkg.path || !pkg.project_name || !isSafePathSegment(pkg.project_name)) {
+      return NextResponse.json({ error: 'Each package needs a name, path and valid project_name' }, { status: 400 });
+    }
+    packages.push({
+      name: pkg.name,
+      path: pkg.path,
+      description: pkg.description,
+      dependencies: Array.isArray(pkg.dependencies) ? pkg.dependencies : [],
+      projectName: pkg.project_name,
+    });
+  }
+
+  try {
+    writeWorkspaceOverview({
+      projectName: body.project_name,
+      tool: body.tool as WorkspaceTool,
+      packages,
+      repoUrl: body.repo_url,
+      commitSha: body.commit_sha,
+      ref: body.ref,
+    });
+    return NextResponse.json({ projectName: body.project_name });
+  } catch (error: unknown) {
+    const err = error as Error;
+    return NextResponse.json({ error: err.message || 'Failed to write the overview' }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { CostDashboard } from '@/components/CostDashboard';
+
+export default function CostsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-2xl font-bold mb-6">LLM Costs</h1>
+      <p className="mb-4 text-gray-600 dark:text-gray-400">
+        Every LLM call is recorded with its tokens and cost. Cached answers are free.
+      </p>
+
+      <CostDashboard />
+    </div>
+  );
+}
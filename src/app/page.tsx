@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, FormEvent, useEffect, useRef } from "react";
+import { useState, FormEvent, useEffect, useRef, useMemo, useCallback } from "react";
+import Link from "next/link";
 import { getAllExcludedPatterns } from "@/lib/excludedPatterns";
 import {
   githubFileCrawler,
@@ -16,13 +17,14 @@ import Header from "@/components/Header";
 import NotificationSystem, {
   useNotifications,
 } from "@/components/NotificationSystem";
-import RepositoryForm, { LLMConfig } from "@/components/RepositoryForm";
+import RepositoryForm, { LLMConfig, type TutorialSource } from "@/components/RepositoryForm";
 import FilterSection from "@/components/FilterSection";
 import ActionButtons from "@/components/ActionButtons";
 import ErrorMessage from "@/components/ErrorMessage";
-import LoadingIndicator, { TutorialProgress } from "@/components/LoadingIndicator";
+import LoadingIndicator, { ChapterDraft, TutorialProgress } from "@/components/LoadingIndicator";
 import StatsDisplay from "@/components/StatsDisplay";
 import FileExplorer from "@/components/FileExplorer";
+import VersionDiff from "@/components/VersionDiff";
 import {
   PROVIDER_IDS,
   OPENAI_MODELS,
@@ -31,11 +33,26 @@ import CodeAnalyticsDisplay, {
   CodeAnalytics,
 } from "@/components/CodeAnalyticsDisplay";
 import Footer from "@/components/Footer";
+import type { BudgetExceededEvent, BudgetOption } from "@/lib/runBudget";
+import {
+  detectWorkspace,
+  isInPackage,
+  packageProjectName,
+  WORKSPACE_MANIFEST_FILES,
+} from "@/lib/workspaces";
+
+// localStorage key of the tutorial job this page is following
+const ACTIVE_JOB_STORAGE_KEY = "activeTutorialJob";
 
 export default function Home() {
   // State management
   const [repoUrl, setRepoUrl] = useState("");
   const [githubToken, setGithubToken] = useState("");
+  // Branch, tag or commit picked in the form; empty for the URL's ref or the default branch
+  const [gitRef, setGitRef] = useState("");
+  // Where tutorial files come from: crawled here, or read by the server (git clone, local directory)
+  const [tutorialSource, setTutorialSource] = useState<TutorialSource>("crawl");
+  const [localDir, setLocalDir] = useState("");
   const [openaiApiKey, setOpenaiApiKey] = useState("");
   
   // New LLM configuration state
@@ -49,10 +66,18 @@ export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
   const [isProcessingTutorial, setIsProcessingTutorial] = useState(false);
   const [tutorialProgress, setTutorialProgress] = useState<TutorialProgress | null>(null);
+  const [chapterDraft, setChapterDraft] = useState<ChapterDraft | null>(null);
+  const [generatedTutorial, setGeneratedTutorial] = useState<string | null>(null);
+  const [failedRunId, setFailedRunId] = useState<string | null>(null);
+  // Set when the failed run stopped at its budget: what it spent and how it could continue
+  const [budgetNotice, setBudgetNotice] = useState<BudgetExceededEvent | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [isCancellingTutorial, setIsCancellingTutorial] = useState(false);
   const [error, setError] = useState("");
   const [selectedFile, setSelectedFile] = useState("");
   const [fileContent, setFileContent] = useState("");
   const [activeVersion, setActiveVersion] = useState<VersionInfo | null>(null);
+  const [versionDiff, setVersionDiff] = useState<{ base: VersionInfo; head: VersionInfo } | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [showExcludePatterns, setShowExcludePatterns] = useState(false);
   const [includePatterns, setIncludePatterns] = useState<string[]>([
@@ -63,11 +88,15 @@ export default function Home() {
     "*.tsx",
     "*.cs",
     "*.java",
+    ...WORKSPACE_MANIFEST_FILES,
   ]);
   const [excludePatterns, setExcludePatterns] = useState<string[]>(
     getAllExcludedPatterns()
   );
   const [showSummary, setShowSummary] = useState(false);
+  // Monorepo packages (by path) to generate separate tutorials for
+  const [selectedPackages, setSelectedPackages] = useState<string[]>([]);
+  const workspace = useMemo(() => detectWorkspace(files), [files]);
   const [codeAnalytics, setCodeAnalytics] = useState<CodeAnalytics>({
     totalLines: 0,
     totalFiles: 0,
@@ -103,9 +132,10 @@ export default function Home() {
     }
   }, []);
 
-  // Warn user before navigating away during active operations
+  // Warn user before navigating away during active operations.
+  // Once the tutorial job is queued it runs on the server, so leaving is safe.
   useEffect(() => {
-    const isWorking = isLoading || isProcessingTutorial;
+    const isWorking = isLoading || (isProcessingTutorial && !activeJobId);
     
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       if (isWorking) {
@@ -123,7 +153,142 @@ export default function Home() {
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
     };
-  }, [isLoading, isProcessingTutorial]);
+  }, [isLoading, isProcessingTutorial, activeJobId]);
+
+  /**
+   * Follow a background tutorial job's event stream until it finishes.
+   * The stream replays earlier events, so this also works for reconnecting
+   * to a job started before a reload. Resolves to false if the job was
+   * cancelled. Rejects with the server's message on failure; a failed run's
+   * ID is kept so it can be resumed from its last checkpoint.
+   */
+  const followTutorialJob = useCallback((jobId: string, projectName: string) =>
+    new Promise<boolean>((resolve, reject) => {
+      setActiveJobId(jobId);
+      const source = new EventSource(`/api/jobs/${encodeURIComponent(jobId)}/events`);
+
+      const finish = (err?: Error, completed = false) => {
+        source.close();
+        setChapterDraft(null);
+        localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+        setActiveJobId(null);
+        setIsCancellingTutorial(false);
+        if (err) {
+          reject(err);
+        } else {
+          resolve(completed);
+        }
+      };
+
+      source.addEventListener("queued", (e) => {
+        const data = JSON.parse((e as MessageEvent).data);
+        setTutorialProgress({ stage: "queued", message: data.message, progress: 0 });
+      });
+
+      source.addEventListener("progress", (e) => {
+        const data = JSON.parse((e as MessageEvent).data);
+        setTutorialProgress(data);
+        console.log(`[TutorialGen] Progress:`, data);
+      });
+
+      // Chapter text as the LLM writes it; a new chapter or a retry starts over
+      source.addEventListener("chapter_delta", (e) => {
+        const data = JSON.parse((e as MessageEvent).data);
+        setChapterDraft((draft) => ({
+          chapter: data.currentChapter,
+          chapterName: data.chapterName,
+          text:
+            draft && !data.replace && draft.chapter === data.currentChapter
+              ? draft.text + data.delta
+              : data.delta,
+        }));
+      });
+
+      // The run carries on with the next fallback model
+      source.addEventListener("llm_fallback", (e) => {
+        const data = JSON.parse((e as MessageEvent).data);
+        console.warn(`[TutorialGen] LLM fallback:`, data.fallback);
+        showNotification("info", "Switched to a fallback model", data.message);
+      });
+
+      // The run was refused or paused at its budget; the `error` event follows
+      source.addEventListener("budget_exceeded", (e) => {
+        const data = JSON.parse((e as MessageEvent).data);
+        console.warn(`[TutorialGen] Budget exceeded:`, data.budget);
+        setBudgetNotice(data.budget || null);
+        showNotification("info", "Tutorial budget reached", data.message);
+      });
+
+      source.addEventListener("complete", () => {
+        console.log("[TutorialGen] Tutorial created successfully");
+        setGeneratedTutorial(projectName);
+        showNotification(
+          "success",
+          "Tutorial created successfully!",
+          "The tutorial flow has finished running."
+        );
+        finish(undefined, true);
+      });
+
+      // Cancelling is not a failure: no error, and no offer to resume
+      source.addEventListener("cancelled", (e) => {
+        const data = JSON.parse((e as MessageEvent).data);
+        console.log("[TutorialGen] Tutorial generation cancelled");
+        showNotification(
+          "info",
+          "Tutorial generation cancelled",
+          data.message || "No further LLM calls will be made for this run."
+        );
+        finish();
+      });
+
+      source.addEventListener("error", (e) => {
+        // A job failure is sent as an `error` event with data; a plain event
+        // is a connection problem that EventSource retries by itself
+        if (e instanceof MessageEvent) {
+          const data = JSON.parse(e.data);
+          setFailedRunId(data.run_id || null);
+          finish(new Error(data.message || "Tutorial generation failed"));
+        } else if (source.readyState === EventSource.CLOSED) {
+          finish(new Error("Lost connection to the tutorial job"));
+        }
+      });
+    }), [showNotification]);
+
+  // Reconnect to a tutorial job that was still running when the page was closed
+  const reconnectAttempted = useRef(false);
+  useEffect(() => {
+    if (reconnectAttempted.current) return;
+    reconnectAttempted.current = true;
+
+    const saved = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (!saved) return;
+
+    (async () => {
+      try {
+        const { jobId, projectName } = JSON.parse(saved);
+        const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`);
+        if (!response.ok) {
+          // The server no longer knows this job (e.g. it was restarted)
+          localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+          return;
+        }
+
+        console.log(`[TutorialGen] Reconnecting to job ${jobId}`);
+        setIsProcessingTutorial(true);
+        await followTutorialJob(jobId, projectName);
+      } catch (err) {
+        console.error("[TutorialGen] Tutorial job error:", err);
+        localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+        setError(
+          err instanceof Error ? err.message : "An error occurred while creating the tutorial"
+        );
+      } finally {
+        setTutorialProgress(null);
+        setIsProcessingTutorial(false);
+      }
+    })();
+  }, [followTutorialJob]);
 
   // Calculate code analytics whenever files change
   useEffect(() => {
@@ -242,6 +407,7 @@ export default function Home() {
       result = await githubFileCrawler({
         repoUrl,
         token: githubToken,
+        ref: gitRef || undefined,
         useRelativePaths: true,
         includePatterns: patternsToInclude,
         excludePatterns,
@@ -258,24 +424,135 @@ export default function Home() {
     }
   };
 
+  /**
+   * Start a background tutorial job and follow its progress.
+   * The job keeps running on the server if this page is closed.
+   * Resolves to false if the job was cancelled.
+   */
+  const runTutorialJob = async (
+    payload: Record<string, unknown>,
+    projectName: string
+  ) => {
+    console.log(`[TutorialGen] Making API request to /api/jobs`);
+
+    // Reset progress
+    setTutorialProgress({ stage: 'starting', message: 'Connecting...', progress: 0 });
+    setChapterDraft(null);
+
+    const response = await fetch("/api/jobs", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    // Remember the job so a reload can reconnect to it
+    localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, JSON.stringify({ jobId: data.jobId, projectName }));
+    return followTutorialJob(data.jobId, projectName);
+  };
+
+  // Stop the running job; the event stream then reports it as cancelled
+  const handleCancelTutorial = async () => {
+    if (!activeJobId) return;
+
+    console.log(`[TutorialGen] Cancelling job ${activeJobId}`);
+    setIsCancellingTutorial(true);
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(activeJobId)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || "Failed to cancel");
+      }
+    } catch (err) {
+      setIsCancellingTutorial(false);
+      showNotification(
+        "error",
+        "Could not cancel tutorial generation",
+        err instanceof Error ? err.message : "An unknown error occurred"
+      );
+    }
+  };
+
   const handleCreateTutorial = async () => {
     console.log("[TutorialGen] Create tutorial button clicked");
 
-    // Check if we have a repository URL
-    if (!repoUrl) {
+    // Check if we have a repository URL (a server directory can stand in for it)
+    if (!repoUrl && !(tutorialSource === "local_dir" && localDir)) {
       setError("Please enter a GitHub repository URL before creating a tutorial.");
       return;
     }
+    if (tutorialSource === "local_dir" && !localDir) {
+      setError("Please enter the server directory to create the tutorial from.");
+      return;
+    }
 
     setIsProcessingTutorial(true);
+    setGeneratedTutorial(null);
+    setFailedRunId(null);
+    setBudgetNotice(null);
     setError("");
 
     try {
-      // First, ensure we have the latest files by fetching them
-      console.log("[TutorialGen] Fetching latest files before tutorial generation");
-      
       // Only send include patterns if there are some selected
       const patternsToInclude = includePatterns.length > 0 ? includePatterns : [];
+
+      // Settings of the run, whichever way its files are read
+      const runSettings = {
+        include_patterns: patternsToInclude.length > 0 ? patternsToInclude : ["*"],
+        exclude_patterns: excludePatterns.length > 0 ? excludePatterns : [],
+        language: "english",
+        use_cache: true,
+        max_abstraction_num: 5,
+        max_file_size: 500000,
+        // Per-file summary pre-pass; unset lets the server decide by repo size
+        summarize_files: llmConfig.summarizeFiles,
+        chapter_concurrency: llmConfig.chapterConcurrency,
+        // Per-stage provider/model overrides (their API keys are not checkpointed)
+        stage_models: llmConfig.stageModels,
+        llm_fallbacks: llmConfig.fallbacks,
+        // Spending caps; the run won't start or pauses when they would be exceeded
+        max_cost_usd: llmConfig.maxCostUsd,
+        max_tokens: llmConfig.maxTokens,
+        // New multi-provider LLM configuration
+        llm_provider: llmConfig.providerId,
+        llm_model: llmConfig.modelId,
+        llm_api_key: llmConfig.apiKey || openaiApiKey || undefined,
+        llm_base_url: llmConfig.baseUrl || undefined,
+        // Regeneration mode for partial cache usage
+        regeneration_mode: llmConfig.regenerationMode || undefined,
+        force_full_regeneration: llmConfig.regenerationMode === 'full',
+        // Legacy: also pass openai_api_key for backward compatibility
+        openai_api_key: llmConfig.apiKey || openaiApiKey || undefined,
+      };
+
+      // The server reads the files itself (a shallow git clone, or a directory
+      // on its disk), so nothing is crawled here
+      if (tutorialSource !== "crawl") {
+        const source = tutorialSource === "local_dir" && !repoUrl ? localDir : repoUrl;
+        const projectName =
+          source.split(/[\\/]/).filter(Boolean).pop()?.replace(/\.git$/, "") || "GitHub-Tutorial";
+        console.log(`[TutorialGen] Server reads the files: ${tutorialSource} ${tutorialSource === "local_dir" ? localDir : repoUrl}`);
+        await runTutorialJob({
+          ...runSettings,
+          repo_url: repoUrl || undefined,
+          ref: gitRef || undefined,
+          local_dir: tutorialSource === "local_dir" ? localDir : undefined,
+          use_git_clone: tutorialSource === "git_clone",
+          github_token: githubToken || undefined,
+          project_name: projectName,
+        }, projectName);
+        return;
+      }
+
+      // First, ensure we have the latest files by fetching them
+      console.log("[TutorialGen] Fetching latest files before tutorial generation");
       
       console.log(
         `[TutorialGen] Fetching files from ${repoUrl} with patterns: ${patternsToInclude.join(
@@ -287,6 +564,7 @@ export default function Home() {
       const crawlerResult = await githubFileCrawler({
         repoUrl,
         token: githubToken,
+        ref: gitRef || undefined,
         useRelativePaths: true,
         includePatterns: patternsToInclude,
         excludePatterns,
@@ -310,106 +588,89 @@ export default function Home() {
         hasLegacyApiKey: !!openaiApiKey,
       });
 
+      const projectName = repoUrl.split("/").pop()?.replace(/\.git$/, "") || "GitHub-Tutorial";
+
       // Prepare payload for API request
       const payload = {
-        files: filesArray,
+        // The crawl stored the files server-side; its manifest stands in for them
+        files: crawlerResult.stats.manifest_id ? undefined : filesArray,
+        manifest_id: crawlerResult.stats.manifest_id,
         repo_url: repoUrl,
-        include_patterns: patternsToInclude.length > 0 ? patternsToInclude : ["*"],
-        exclude_patterns: excludePatterns.length > 0 ? excludePatterns : [],
-        project_name: repoUrl.split("/").pop()?.replace(/\.git$/, "") || "GitHub-Tutorial",
-        language: "english",
-        use_cache: true,
-        max_abstraction_num: 5,
-        max_file_size: 500000,
-        // New multi-provider LLM configuration
-        llm_provider: llmConfig.providerId,
-        llm_model: llmConfig.modelId,
-        llm_api_key: llmConfig.apiKey || openaiApiKey || undefined,
-        llm_base_url: llmConfig.baseUrl || undefined,
-        // Regeneration mode for partial cache usage
-        regeneration_mode: llmConfig.regenerationMode || undefined,
-        force_full_regeneration: llmConfig.regenerationMode === 'full',
-        // Legacy: also pass openai_api_key for backward compatibility
-        openai_api_key: llmConfig.apiKey || openaiApiKey || undefined,
+        ref: crawlerResult.stats.ref,
+        // Lets the server compare against the cached commit instead of hashing every file
+        commit_sha: crawlerResult.stats.commit_sha,
+        base_commit_sha: crawlerResult.stats.base_commit_sha,
+        changed_paths: crawlerResult.stats.changed_paths,
+        project_name: projectName,
+        ...runSettings,
       };
 
-      console.log(`[TutorialGen] Making API request to /api/tutorial-generator/stream`);
-      
-      // Reset progress
-      setTutorialProgress({ stage: 'starting', message: 'Connecting...', progress: 0 });
+      // Monorepo: a tutorial per selected package, then an overview linking them
+      const crawledWorkspace = selectedPackages.length > 0 ? detectWorkspace(crawlerResult.files) : null;
+      const packages = crawledWorkspace?.packages.filter((pkg) => selectedPackages.includes(pkg.path)) || [];
+      if (!crawledWorkspace || packages.length === 0) {
+        await runTutorialJob(payload, projectName);
+        return;
+      }
+
+      // A failed package doesn't stop the others; the overview lists it without a tutorial
+      const packagePaths = crawledWorkspace.packages.map((pkg) => pkg.path);
+      const failedPackages: string[] = [];
+      let completedPackages = 0;
+      for (const pkg of packages) {
+        const packageFiles = filesArray.filter(([path]) => isInPackage(path, pkg.path, packagePaths));
+        if (packageFiles.length === 0) {
+          failedPackages.push(`${pkg.name} (no files were crawled)`);
+          continue;
+        }
+
+        const packageProject = packageProjectName(projectName, pkg.path);
+        console.log(`[TutorialGen] Package ${pkg.name}: ${packageFiles.length} files -> ${packageProject}`);
+        try {
+          const completed = await runTutorialJob({
+            ...payload,
+            // Only the package's files, so they are sent instead of the crawl's manifest
+            files: packageFiles,
+            manifest_id: undefined,
+            changed_paths: payload.changed_paths?.filter((path) => isInPackage(path, pkg.path, packagePaths)),
+            package_path: pkg.path,
+            project_name: packageProject,
+          }, packageProject);
+          // Cancelling stops the remaining packages too, and leaves the overview as it was
+          if (!completed) return;
+          completedPackages++;
+        } catch (err) {
+          console.error(`[TutorialGen] Package ${pkg.name} failed:`, err);
+          failedPackages.push(`${pkg.name} (${err instanceof Error ? err.message : "unknown error"})`);
+        }
+      }
+
+      // Without a single package tutorial the overview would only replace what is there
+      if (completedPackages === 0) {
+        throw new Error(`Tutorials could not be generated for: ${failedPackages.join(", ")}`);
+      }
 
-      // Use SSE for streaming progress updates
-      const response = await fetch("/api/tutorial-generator/stream", {
+      const response = await fetch("/api/workspace-overview", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(payload),
+        body: JSON.stringify({
+          project_name: projectName,
+          tool: crawledWorkspace.tool,
+          packages: packages.map((pkg) => ({ ...pkg, project_name: packageProjectName(projectName, pkg.path) })),
+          repo_url: repoUrl,
+          commit_sha: crawlerResult.stats.commit_sha,
+          ref: crawlerResult.stats.ref,
+        }),
       });
-
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw new Error(data.error || "Failed to write the monorepo overview");
       }
-
-      // Handle SSE stream
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      
-      if (!reader) {
-        throw new Error("No response body");
-      }
-
-      let buffer = '';
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-        
-        buffer += decoder.decode(value, { stream: true });
-        
-        // Process complete SSE events
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep incomplete line in buffer
-        
-        for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            const eventType = line.slice(7);
-            continue;
-          }
-          
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              if (data.stage) {
-                // Progress update
-                setTutorialProgress(data);
-                console.log(`[TutorialGen] Progress:`, data);
-              }
-              
-              if (data.success) {
-                // Completion event
-                console.log("[TutorialGen] Tutorial created successfully");
-                showNotification(
-                  "success",
-                  "Tutorial created successfully!",
-                  "The tutorial flow has finished running."
-                );
-              }
-              
-              if (data.message && !data.stage && !data.success) {
-                // Error event
-                throw new Error(data.message);
-              }
-            } catch (parseError) {
-              // Ignore parse errors for incomplete data
-              if (line.slice(6).trim()) {
-                console.warn("[TutorialGen] Failed to parse SSE data:", line);
-              }
-            }
-          }
-        }
+      setGeneratedTutorial(projectName);
+      if (failedPackages.length > 0) {
+        throw new Error(`Tutorials could not be generated for: ${failedPackages.join(", ")}`);
       }
     } catch (err) {
       console.error("[TutorialGen] Tutorial creation error:", err);
@@ -428,6 +689,53 @@ export default function Home() {
     }
   };
 
+  // Resume a failed run from its last checkpoint (same files and settings),
+  // optionally with one of the budget options' settings
+  const handleResumeTutorial = async (resumeSettings?: BudgetOption["settings"]) => {
+    if (!failedRunId) return;
+
+    console.log(`[TutorialGen] Resuming run ${failedRunId}`, resumeSettings);
+    setIsProcessingTutorial(true);
+    setGeneratedTutorial(null);
+    setBudgetNotice(null);
+    setError("");
+
+    // A key for the selected provider is no use to another one; the server's key is used instead
+    const switchesProvider =
+      !!resumeSettings?.llm_provider && resumeSettings.llm_provider !== llmConfig.providerId;
+
+    try {
+      const projectName = repoUrl.split("/").pop()?.replace(/\.git$/, "") || "GitHub-Tutorial";
+      await runTutorialJob({
+        resume_run_id: failedRunId,
+        resume_settings: resumeSettings,
+        // API keys are never stored with the run checkpoint
+        llm_api_key: switchesProvider ? undefined : llmConfig.apiKey || openaiApiKey || undefined,
+        // Only the stage API keys are used; the stage routing comes from the checkpoint
+        stage_models: llmConfig.stageModels,
+        llm_fallbacks: llmConfig.fallbacks,
+        // A budget raised since the run stopped replaces the one it was started with
+        max_cost_usd: llmConfig.maxCostUsd,
+        max_tokens: llmConfig.maxTokens,
+        github_token: githubToken || undefined,
+      }, projectName);
+      setFailedRunId(null);
+    } catch (err) {
+      console.error("[TutorialGen] Tutorial resume error:", err);
+      setError(
+        err instanceof Error ? err.message : "An error occurred while resuming the tutorial"
+      );
+      showNotification(
+        "error",
+        "Tutorial resume failed",
+        err instanceof Error ? err.message : "An unknown error occurred"
+      );
+    } finally {
+      setTutorialProgress(null);
+      setIsProcessingTutorial(false);
+    }
+  };
+
   const viewFile = (filePath: string) => {
     setSelectedFile(filePath);
     setFileContent(files[filePath]);
@@ -450,6 +758,7 @@ export default function Home() {
       base_path: null,
       include_patterns: null,
       exclude_patterns: null,
+      manifest_id: versionInfo.manifestId,
     });
 
     // If the version is from a different repo, update the repo URL
@@ -477,15 +786,26 @@ export default function Home() {
           {/* Repository URL and GitHub Token form */}
           <RepositoryForm
             repoUrl={repoUrl}
-            onRepoUrlChange={setRepoUrl}
+            onRepoUrlChange={(value) => {
+              setRepoUrl(value);
+              setGitRef("");
+              setSelectedPackages([]);
+            }}
             githubToken={githubToken}
             onGithubTokenChange={setGithubToken}
+            gitRef={gitRef}
+            onGitRefChange={setGitRef}
+            tutorialSource={tutorialSource}
+            onTutorialSourceChange={setTutorialSource}
+            localDir={localDir}
+            onLocalDirChange={setLocalDir}
             openaiApiKey={openaiApiKey}
             onOpenaiApiKeyChange={setOpenaiApiKey}
             llmConfig={llmConfig}
             onLLMConfigChange={setLLMConfig}
             fileCount={fileCount}
             totalChars={totalChars}
+            files={files}
           />
 
           {/* Filter section */}
@@ -498,6 +818,9 @@ export default function Home() {
             setIncludePatterns={setIncludePatterns}
             excludePatterns={excludePatterns}
             setExcludePatterns={setExcludePatterns}
+            workspace={workspace}
+            selectedPackages={selectedPackages}
+            setSelectedPackages={setSelectedPackages}
           />
 
           {/* Action buttons */}
@@ -507,16 +830,96 @@ export default function Home() {
             handleCreateTutorial={handleCreateTutorial}
             files={files}
             repoUrl={repoUrl}
+            manifestId={stats?.manifest_id}
             onLoadVersion={handleLoadVersion}
+            onCompareVersions={(base, head) => setVersionDiff({ base, head })}
           />
         </form>
 
         {/* Error message */}
         <ErrorMessage message={error} />
 
+        {/* Failed runs keep their checkpoints and can pick up where they stopped */}
+        {failedRunId && !isProcessingTutorial && (
+          <div className="mb-6 p-4 flex items-center justify-between bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+            <span className="text-amber-800 dark:text-amber-200 text-sm">
+              Completed steps of this run were saved (run <code>{failedRunId}</code>).
+            </span>
+            <button
+              type="button"
+              onClick={() => handleResumeTutorial()}
+              className="px-3 py-1.5 text-sm bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors"
+            >
+              ↻ Resume from last checkpoint
+            </button>
+          </div>
+        )}
+
+        {/* A run stopped at its budget can continue more cheaply */}
+        {failedRunId && budgetNotice && !isProcessingTutorial && (
+          <div className="mb-6 -mt-4 p-4 bg-amber-50 dark:bg-amber-900/20 border border-t-0 border-amber-200 dark:border-amber-800 rounded-b-lg text-sm">
+            <p className="text-amber-800 dark:text-amber-200">
+              {budgetNotice.when === "before_start"
+                ? `Estimated: $${budgetNotice.projected.cost.toFixed(2)} / ${budgetNotice.projected.tokens.toLocaleString()} tokens`
+                : `Spent so far: $${budgetNotice.spent.cost.toFixed(2)} / ${budgetNotice.spent.tokens.toLocaleString()} tokens`}
+              {budgetNotice.budget.maxCostUsd !== undefined && ` (budget $${budgetNotice.budget.maxCostUsd.toFixed(2)})`}
+              {budgetNotice.budget.maxTokens !== undefined && ` (budget ${budgetNotice.budget.maxTokens.toLocaleString()} tokens)`}.
+              Raise the budget above and resume, or:
+            </p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {budgetNotice.options.map((option) => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => handleResumeTutorial(option.settings)}
+                  className="px-3 py-1.5 text-sm bg-white dark:bg-gray-800 border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200 rounded-md hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+                >
+                  {option.label}
+                </button>
+              ))}
+              {budgetNotice.options.length === 0 && (
+                <span className="text-amber-700 dark:text-amber-300">
+                  No cheaper model or chapter count fits this budget.
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Loading indicators */}
         <LoadingIndicator type="repository" isLoading={isLoading} />
-        <LoadingIndicator type="tutorial" isLoading={isProcessingTutorial} progress={tutorialProgress} />
+        <LoadingIndicator
+          type="tutorial"
+          isLoading={isProcessingTutorial}
+          progress={tutorialProgress}
+          chapterDraft={chapterDraft}
+          onCancel={activeJobId ? handleCancelTutorial : undefined}
+          isCancelling={isCancellingTutorial}
+        />
+
+        {/* Link to the freshly generated tutorial */}
+        {generatedTutorial && !isProcessingTutorial && (
+          <div className="mb-6 p-4 flex items-center justify-between bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+            <span className="text-green-800 dark:text-green-200">
+              Tutorial for <span className="font-semibold">{generatedTutorial}</span> is ready.
+            </span>
+            <Link
+              href={`/tutorials?project=${encodeURIComponent(generatedTutorial)}`}
+              className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+            >
+              📖 Read tutorial
+            </Link>
+          </div>
+        )}
+
+        {/* Files added, removed and modified between two saved versions */}
+        {versionDiff && (
+          <VersionDiff
+            base={versionDiff.base}
+            head={versionDiff.head}
+            onClose={() => setVersionDiff(null)}
+          />
+        )}
 
         {/* Repository stats */}
         {stats && <StatsDisplay stats={stats} activeVersion={activeVersion} />}
@@ -0,0 +1,21 @@
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { TutorialViewer } from '@/components/TutorialViewer';
+
+export default function TutorialsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Tutorials</h1>
+        <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          ← Back to crawler
+        </Link>
+      </div>
+
+      {/* useSearchParams in the viewer requires a Suspense boundary */}
+      <Suspense fallback={<p className="text-sm text-gray-500">Loading...</p>}>
+        <TutorialViewer />
+      </Suspense>
+    </div>
+  );
+}
@@ -8,7 +8,9 @@ interface ActionButtonsProps {
   handleCreateTutorial: () => void;
   files: Record<string, string>;
   repoUrl: string;
+  manifestId?: string;
   onLoadVersion: (files: Record<string, string>, versionInfo: VersionInfo) => void;
+  onCompareVersions?: (base: VersionInfo, head: VersionInfo) => void;
 }
 
 const ActionButtons: React.FC<ActionButtonsProps> = ({
@@ -17,7 +19,9 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
   handleCreateTutorial,
   files,
   repoUrl,
-  onLoadVersion
+  manifestId,
+  onLoadVersion,
+  onCompareVersions
 }) => {
   const [showCacheStats, setShowCacheStats] = useState(false);
 
@@ -55,7 +59,9 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
           <SaveToFile
             files={files}
             repoUrl={repoUrl}
+            manifestId={manifestId}
             onLoadVersion={onLoadVersion}
+            onCompareVersions={onCompareVersions}
           />
         )}
       </div>
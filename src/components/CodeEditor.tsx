@@ -1,7 +1,7 @@
 "use client";
 
 import { useRef, useEffect, useState } from 'react';
-import Editor, { Monaco } from '@monaco-editor/react';
+import Editor, { DiffEditor, Monaco } from '@monaco-editor/react';
 import { editor } from 'monaco-editor';
 
 interface CodeEditorProps {
@@ -9,9 +9,10 @@ interface CodeEditorProps {
   language?: string;
   readOnly?: boolean;
   filePath: string;
+  originalCode?: string; // Earlier content of the file; shows a side-by-side diff against `code`
 }
 
-export default function CodeEditor({ code, language, readOnly = true, filePath }: CodeEditorProps) {
+export default function CodeEditor({ code, language, readOnly = true, filePath, originalCode }: CodeEditorProps) {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
   const monacoRef = useRef<Monaco | null>(null);
   const [editorLanguage, setEditorLanguage] = useState<string>(language || 'plaintext');
@@ -171,24 +172,45 @@ export default function CodeEditor({ code, language, readOnly = true, filePath }
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="md:col-span-3">
           <div className="h-[500px] border rounded-md overflow-hidden code-editor-container">
-            <Editor
-              height="100%"
-              defaultLanguage={editorLanguage}
-              language={editorLanguage}
-              value={code}
-              theme={theme}
-              options={{
-                readOnly: readOnly,
-                automaticLayout: true,
-                wordWrap: 'on'
-              }}
-              onMount={handleEditorDidMount}
-              loading={
-                <div className="flex justify-center items-center h-full">
-                  <span className="text-gray-500">Loading editor...</span>
-                </div>
-              }
-            />
+            {originalCode !== undefined ? (
+              <DiffEditor
+                height="100%"
+                language={editorLanguage}
+                original={originalCode}
+                modified={code}
+                theme={theme}
+                options={{
+                  readOnly: true,
+                  automaticLayout: true,
+                  renderSideBySide: true,
+                  wordWrap: 'on'
+                }}
+                loading={
+                  <div className="flex justify-center items-center h-full">
+                    <span className="text-gray-500">Loading diff...</span>
+                  </div>
+                }
+              />
+            ) : (
+              <Editor
+                height="100%"
+                defaultLanguage={editorLanguage}
+                language={editorLanguage}
+                value={code}
+                theme={theme}
+                options={{
+                  readOnly: readOnly,
+                  automaticLayout: true,
+                  wordWrap: 'on'
+                }}
+                onMount={handleEditorDidMount}
+                loading={
+                  <div className="flex justify-center items-center h-full">
+                    <span className="text-gray-500">Loading editor...</span>
+                  </div>
+                }
+              />
+            )}
           </div>
           
           <div className="flex justify-between text-xs text-gray-500 mt-1 px-1">
@@ -196,7 +218,7 @@ export default function CodeEditor({ code, language, readOnly = true, filePath }
               Language: <span className="font-semibold">{editorLanguage}</span>
             </div>
             <div>
-              {readOnly ? 'Read only mode' : 'Edit mode'}
+              {originalCode !== undefined ? 'Diff mode' : readOnly ? 'Read only mode' : 'Edit mode'}
             </div>
           </div>
         </div>
@@ -0,0 +1,226 @@
+'use client';
+
+/**
+ * Cost Dashboard Component
+ * Spend from the cost ledger per repo, model and day, and each run's
+ * Cost Estimator prediction next to what it actually cost
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { LedgerSummary, SpendBucket, RunCostComparison } from '@/lib/costLedger';
+
+const PERIODS = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+  { label: 'All time', days: 0 },
+];
+
+function formatUSD(cost: number): string {
+  if (cost === 0) return '$0.00';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return String(tokens);
+}
+
+function SpendTable({ title, keyLabel, buckets }: { title: string; keyLabel: string; buckets: SpendBucket[] }) {
+  const maxCost = Math.max(...buckets.map(bucket => bucket.cost), 0);
+
+  return (
+    <div className="p-4 border rounded-lg shadow-sm">
+      <h3 className="text-lg font-medium mb-3">{title}</h3>
+      {buckets.length === 0 ? (
+        <p className="text-sm text-gray-500">No LLM calls in this period.</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-400 dark:scrollbar-thumb-gray-600 scrollbar-track-transparent">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white dark:bg-gray-900">
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-2 font-medium">{keyLabel}</th>
+                <th className="py-1 pr-2 font-medium text-right">Calls</th>
+                <th className="py-1 pr-2 font-medium text-right">Tokens</th>
+                <th className="py-1 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {buckets.map(bucket => (
+                <tr key={bucket.key} className="border-t border-gray-100 dark:border-gray-800">
+                  <td className="py-1 pr-2">
+                    <div className="truncate max-w-[16rem]" title={bucket.key}>{bucket.key}</div>
+                    <div
+                      className="h-1 mt-1 bg-blue-400 dark:bg-blue-600 rounded"
+                      style={{ width: `${maxCost > 0 ? (bucket.cost / maxCost) * 100 : 0}%` }}
+                    />
+                  </td>
+                  <td className="py-1 pr-2 text-right">
+                    {bucket.calls}
+                    {bucket.cachedCalls > 0 && (
+                      <span className="text-xs text-green-600 dark:text-green-400"> ({bucket.cachedCalls} cached)</span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{formatTokens(bucket.inputTokens + bucket.outputTokens)}</td>
+                  <td className="py-1 text-right font-medium">{formatUSD(bucket.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function EstimateCell({ run }: { run: RunCostComparison }) {
+  if (!run.estimate) {
+    return <span className="text-gray-400">—</span>;
+  }
+  return (
+    <span title={`${formatUSD(run.estimate.costLow)} – ${formatUSD(run.estimate.costHigh)}`}>
+      {formatUSD(run.estimate.costEstimated)}
+    </span>
+  );
+}
+
+function DifferenceCell({ run }: { run: RunCostComparison }) {
+  if (!run.estimate || run.estimate.costEstimated === 0) {
+    return <span className="text-gray-400">—</span>;
+  }
+  const { costLow, costEstimated, costHigh } = run.estimate;
+  const difference = ((run.actual.cost - costEstimated) / costEstimated) * 100;
+  const withinRange = run.actual.cost >= costLow && run.actual.cost <= costHigh;
+  return (
+    <span className={withinRange ? 'text-green-600 dark:text-green-400' : 'text-yellow-600 dark:text-yellow-400'}>
+      {difference > 0 ? '+' : ''}{difference.toFixed(0)}%
+    </span>
+  );
+}
+
+export function CostDashboard() {
+  const [days, setDays] = useState<number>(30);
+  const [summary, setSummary] = useState<LedgerSummary | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(days > 0 ? `/api/costs?days=${days}` : '/api/costs');
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to fetch costs');
+      }
+      setSummary(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <select
+          value={days}
+          onChange={(e) => setDays(parseInt(e.target.value, 10))}
+          className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+        >
+          {PERIODS.map(period => (
+            <option key={period.days} value={period.days}>{period.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={fetchSummary}
+          disabled={loading}
+          className="px-3 py-1.5 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <div className="p-4 text-red-500">Error: {error}</div>}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="text-sm text-gray-500">Total Cost</div>
+              <div className="text-xl font-semibold">{formatUSD(summary.totals.cost)}</div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="text-sm text-gray-500">LLM Calls</div>
+              <div className="text-xl font-semibold">{summary.totals.calls}</div>
+            </div>
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 rounded">
+              <div className="text-sm text-gray-500">Answered from Cache</div>
+              <div className="text-xl font-semibold">{summary.totals.cachedCalls}</div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="text-sm text-gray-500">Tokens (in / out)</div>
+              <div className="text-xl font-semibold">
+                {formatTokens(summary.totals.inputTokens)} / {formatTokens(summary.totals.outputTokens)}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <SpendTable title="📦 Per Repository" keyLabel="Repository" buckets={summary.byRepo} />
+            <SpendTable title="🤖 Per Model" keyLabel="Model" buckets={summary.byModel} />
+            <SpendTable title="📅 Per Day" keyLabel="Day" buckets={summary.byDay} />
+          </div>
+
+          <div className="p-4 border rounded-lg shadow-sm">
+            <h3 className="text-lg font-medium mb-1">🎯 Estimated vs. Actual</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              The Cost Estimator&apos;s prediction for each run (hover for its ±20% range) against the
+              ledger. Green differences fall within the range.
+            </p>
+            {summary.runs.length === 0 ? (
+              <p className="text-sm text-gray-500">No tutorial runs in this period.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 pr-2 font-medium">Run</th>
+                      <th className="py-1 pr-2 font-medium">Repository</th>
+                      <th className="py-1 pr-2 font-medium">Started</th>
+                      <th className="py-1 pr-2 font-medium text-right">Calls</th>
+                      <th className="py-1 pr-2 font-medium text-right">Estimated</th>
+                      <th className="py-1 pr-2 font-medium text-right">Actual</th>
+                      <th className="py-1 font-medium text-right">Difference</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.runs.map(run => (
+                      <tr key={run.runId} className="border-t border-gray-100 dark:border-gray-800">
+                        <td className="py-1 pr-2 font-mono text-xs">{run.runId}</td>
+                        <td className="py-1 pr-2 truncate max-w-[16rem]" title={run.repo}>{run.repo || '—'}</td>
+                        <td className="py-1 pr-2">{run.startedAt ? new Date(run.startedAt).toLocaleString() : '—'}</td>
+                        <td className="py-1 pr-2 text-right">{run.actual.calls}</td>
+                        <td className="py-1 pr-2 text-right"><EstimateCell run={run} /></td>
+                        <td className="py-1 pr-2 text-right font-medium">{formatUSD(run.actual.cost)}</td>
+                        <td className="py-1 text-right"><DifferenceCell run={run} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
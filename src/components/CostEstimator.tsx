@@ -2,15 +2,22 @@
 
 /**
  * Cost Estimator Component
- * Displays estimated costs before generation with ±20% range
+ * Displays estimated costs before generation, with a range per stage.
+ * The estimate simulates the run's prompts over the selected files.
  */
 
 import React, { useState, useEffect } from 'react';
-import { type CostEstimate } from '@/lib/costEstimator';
+import type { CostEstimate } from '@/lib/costEstimator';
+import { LLM_STAGE_NAMES, type StageModelMap } from '@/lib/constants/llm';
 
 interface CostEstimatorProps {
   providerId: string;
   modelId: string;
+  stageModels?: StageModelMap;
+  maxCostUsd?: number; // The run's budget, if any
+  summarizeFiles?: boolean;
+  chapterConcurrency?: number;
+  files?: Record<string, string>; // Selected files (path -> content); without them only totalChars is used
   fileCount: number;
   totalChars: number;
   estimatedChapters?: number;
@@ -20,6 +27,11 @@ interface CostEstimatorProps {
 export function CostEstimator({
   providerId,
   modelId,
+  stageModels,
+  maxCostUsd,
+  summarizeFiles,
+  chapterConcurrency,
+  files,
   fileCount,
   totalChars,
   estimatedChapters = 8,
@@ -29,6 +41,13 @@ export function CostEstimator({
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [showBreakdown, setShowBreakdown] = useState<boolean>(false);
+  const hasStageModels = !!stageModels && Object.keys(stageModels).length > 0;
+  // Only the routing matters for the estimate; keys would re-fetch on every keystroke
+  const stageRouting = JSON.stringify(
+    Object.fromEntries(
+      Object.entries(stageModels ?? {}).map(([stage, config]) => [stage, { provider: config?.provider, model: config?.model }])
+    )
+  );
 
   useEffect(() => {
     if (!providerId || !modelId || totalChars === 0) {
@@ -49,7 +68,13 @@ export function CostEstimator({
             modelId,
             totalChars,
             fileCount,
+            fileContents: files
+              ? Object.entries(files).map(([path, content]) => ({ path, content }))
+              : undefined,
             estimatedChapters,
+            stageModels: JSON.parse(stageRouting),
+            summarizeFiles,
+            chapterConcurrency,
           }),
         });
 
@@ -68,7 +93,7 @@ export function CostEstimator({
     };
 
     fetchEstimate();
-  }, [providerId, modelId, totalChars, fileCount, estimatedChapters]);
+  }, [providerId, modelId, stageRouting, files, totalChars, fileCount, estimatedChapters, summarizeFiles, chapterConcurrency]);
 
   if (!providerId || !modelId || totalChars === 0) {
     return null;
@@ -125,6 +150,7 @@ export function CostEstimator({
             )}
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
               Using {estimate.provider} / {estimate.model}
+              {hasStageModels && ' (with per-stage models)'}
             </p>
           </div>
         </div>
@@ -154,6 +180,15 @@ export function CostEstimator({
             <div className="text-right text-gray-700 dark:text-gray-300">
               ~{(estimate.tokens.breakdown.fileContent / 1000).toFixed(1)}k tokens
             </div>
+
+            {estimate.tokens.breakdown.summaryPrompts > 0 && (
+              <>
+                <div className="text-gray-500 dark:text-gray-400">File summaries:</div>
+                <div className="text-right text-gray-700 dark:text-gray-300">
+                  ~{(estimate.tokens.breakdown.summaryPrompts / 1000).toFixed(1)}k tokens
+                </div>
+              </>
+            )}
             
             <div className="text-gray-500 dark:text-gray-400">Abstraction identification:</div>
             <div className="text-right text-gray-700 dark:text-gray-300">
@@ -175,6 +210,38 @@ export function CostEstimator({
               ~{(estimate.tokens.breakdown.chapterPrompts / 1000).toFixed(1)}k tokens
             </div>
           </div>
+
+          {/* Cost per stage, priced with each stage's model, with its likely range */}
+          {estimate.stages && (
+            <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 grid grid-cols-2 gap-2 text-xs">
+              {estimate.stages.map((stage) => (
+                <React.Fragment key={stage.stage}>
+                  <div className="text-gray-500 dark:text-gray-400 truncate">
+                    {LLM_STAGE_NAMES[stage.stage]}
+                    {hasStageModels && ` (${stage.provider} / ${stage.model})`}
+                    {stage.calls > 1 && ` × ${stage.calls} calls`}:
+                  </div>
+                  <div
+                    className="text-right text-gray-700 dark:text-gray-300"
+                    title={stage.approximateTokenizer ? "Token counts approximate this model's tokenizer" : undefined}
+                  >
+                    {stage.priced
+                      ? `$${stage.costLow.toFixed(4)} - $${stage.costHigh.toFixed(4)}`
+                      : 'unknown pricing'}
+                    {stage.approximateTokenizer && ' ≈'}
+                  </div>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Over budget: the server checks its own estimate before starting */}
+      {maxCostUsd !== undefined && estimate.costEstimated > maxCostUsd && (
+        <div className="mt-3 p-2 bg-red-50 dark:bg-red-900/20 rounded text-xs text-red-700 dark:text-red-300">
+          ⛔ Likely over your ${maxCostUsd.toFixed(2)} budget, so the run may be refused before it starts.
+          Pick a cheaper model, fewer chapters or a bigger budget.
         </div>
       )}
 
@@ -1,5 +1,11 @@
 import React from 'react';
 import { excludedPatternCategories, getAllExcludedPatterns } from "@/lib/excludedPatterns";
+import {
+  WORKSPACE_MANIFEST_FILES,
+  WORKSPACE_TOOL_NAMES,
+  ROOT_PACKAGE_PATH,
+  Workspace,
+} from "@/lib/workspaces";
 
 interface FilterSectionProps {
   showFilters: boolean;
@@ -10,6 +16,10 @@ interface FilterSectionProps {
   setIncludePatterns: (patterns: string[]) => void;
   excludePatterns: string[];
   setExcludePatterns: (patterns: string[]) => void;
+  // Monorepo packages found in the crawled files; selected ones get a tutorial each
+  workspace?: Workspace | null;
+  selectedPackages?: string[];
+  setSelectedPackages?: (paths: string[]) => void;
 }
 
 const FilterSection: React.FC<FilterSectionProps> = ({
@@ -20,7 +30,10 @@ const FilterSection: React.FC<FilterSectionProps> = ({
   includePatterns,
   setIncludePatterns,
   excludePatterns,
-  setExcludePatterns
+  setExcludePatterns,
+  workspace,
+  selectedPackages = [],
+  setSelectedPackages
 }) => {
   return (
     <>
@@ -108,6 +121,10 @@ const FilterSection: React.FC<FilterSectionProps> = ({
                       "**/models/*.py,**/nn/*.py,**/torch/*.py,**/tensorflow/*.py,**/keras/*.py",
                   },
                   { label: "CUDA", pattern: "*.cu,*.cuh" },
+                  {
+                    label: "Workspace Manifests",
+                    pattern: WORKSPACE_MANIFEST_FILES.join(","),
+                  },
                 ].map((type) => (
                   <div key={type.label} className="flex items-center">
                     <input
@@ -345,6 +362,64 @@ const FilterSection: React.FC<FilterSectionProps> = ({
           </div>
         </div>
       )}
+
+      {workspace && setSelectedPackages && (
+        <div className="mb-6 border rounded-md p-4">
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <label className="block text-sm font-medium">
+              Monorepo Packages ({WORKSPACE_TOOL_NAMES[workspace.tool]})
+            </label>
+            <div className="flex gap-3 text-xs">
+              <button
+                type="button"
+                onClick={() => setSelectedPackages(workspace.packages.map((pkg) => pkg.path))}
+                className="text-blue-600 dark:text-blue-400"
+              >
+                Select all
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedPackages([])}
+                className="text-blue-600 dark:text-blue-400"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Select packages to generate one tutorial per package, plus an
+            overview tutorial linking them. Leave all unselected for a single
+            tutorial of the whole repository.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-[300px] overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-700 scrollbar-track-transparent pr-2">
+            {workspace.packages.map((pkg) => (
+              <div key={pkg.path} className="flex items-start">
+                <input
+                  type="checkbox"
+                  id={`package-${pkg.path}`}
+                  checked={selectedPackages.includes(pkg.path)}
+                  onChange={(e) => {
+                    setSelectedPackages(
+                      e.target.checked
+                        ? [...selectedPackages, pkg.path]
+                        : selectedPackages.filter((path) => path !== pkg.path)
+                    );
+                  }}
+                  className="mr-2 mt-1"
+                />
+                <label htmlFor={`package-${pkg.path}`} className="text-sm">
+                  <span className="font-medium">{pkg.name}</span>{" "}
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {pkg.path === ROOT_PACKAGE_PATH ? "(root)" : pkg.path}
+                    {pkg.dependencies.length > 0 &&
+                      ` · depends on ${pkg.dependencies.length} package${pkg.dependencies.length === 1 ? "" : "s"}`}
+                  </span>
+                </label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </>
   );
 };
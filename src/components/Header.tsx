@@ -18,12 +18,24 @@ const Header: React.FC<HeaderProps> = ({ activeVersion, onClearVersion }) => {
         >
           🧪 Test LLM
         </Link>
+        <Link 
+          href="/tutorials"
+          className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-all"
+        >
+          📖 Tutorials
+        </Link>
         <Link 
           href="/cache-stats"
           className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-all"
         >
           📊 Cache
         </Link>
+        <Link 
+          href="/costs"
+          className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-all"
+        >
+          💰 Costs
+        </Link>
         <ThemeToggle />
       </div>
       <Image
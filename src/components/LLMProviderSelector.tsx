@@ -2,7 +2,9 @@
 
 /**
  * LLM Provider Selector Component
- * Dropdown for selecting LLM provider and model with Ollama auto-detection
+ * Dropdown for selecting LLM provider and model with Ollama auto-detection,
+ * plus optional per-stage overrides (e.g. a cheap model for ordering chapters)
+ * and an ordered list of fallback models for when a provider fails
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -26,10 +28,20 @@ import { loadPreferences, savePreferences, setRememberChoice } from '@/lib/llmPr
 import {
   PROVIDER_IDS,
   OPENAI_MODELS,
+  LLM_STAGES,
+  LLM_STAGE_NAMES,
+  type LLMStage,
+  type StageModelConfig,
+  type StageModelMap,
 } from '@/lib/constants/llm';
 
+// Select value for stages that use the main provider/model
+const SAME_AS_MAIN = 'default';
+
 interface LLMProviderSelectorProps {
   onProviderChange: (providerId: string, modelId: string, apiKey?: string, baseUrl?: string) => void;
+  onStageModelsChange?: (stageModels: StageModelMap) => void; // Shows the per-stage section when set
+  onFallbacksChange?: (fallbacks: StageModelConfig[]) => void; // Shows the fallback section when set
   onTestConnection?: () => void;
   disabled?: boolean;
   className?: string;
@@ -44,6 +56,8 @@ interface OllamaStatus {
 
 export function LLMProviderSelector({
   onProviderChange,
+  onStageModelsChange,
+  onFallbacksChange,
   onTestConnection,
   disabled = false,
   className = '',
@@ -73,6 +87,14 @@ export function LLMProviderSelector({
   const [customProviderName, setCustomProviderName] = useState<string>('');
   const [customModelName, setCustomModelName] = useState<string>('');
   
+  // Per-stage overrides
+  const [showStageModels, setShowStageModels] = useState<boolean>(false);
+  const [stageModels, setStageModels] = useState<StageModelMap>({});
+
+  // Fallback models, tried in order
+  const [showFallbacks, setShowFallbacks] = useState<boolean>(false);
+  const [fallbacks, setFallbacks] = useState<StageModelConfig[]>([]);
+  
   // Get current provider and its models
   // Always get provider info from selectedProvider for model dropdown (even when using custom provider name)
   const currentProvider = getProvider(selectedProvider);
@@ -178,6 +200,61 @@ export function LLMProviderSelector({
     setConnectionStatus(null);
   };
 
+  // Models offered for a provider (detected models for a running Ollama)
+  const getProviderModels = (providerId: string): LLMModel[] =>
+    providerId === PROVIDER_IDS.OLLAMA && ollamaStatus.available
+      ? ollamaStatus.models
+      : getProvider(providerId)?.models || [];
+
+  // Reported from here rather than an effect, so the parent's config updates can't loop back
+  const updateStageModel = (stage: LLMStage, config?: StageModelConfig) => {
+    const next: StageModelMap = { ...stageModels };
+    if (config) {
+      next[stage] = config;
+    } else {
+      delete next[stage];
+    }
+    setStageModels(next);
+    onStageModelsChange?.(next);
+  };
+
+  const handleStageProviderChange = (stage: LLMStage, providerId: string) => {
+    if (providerId === SAME_AS_MAIN) {
+      updateStageModel(stage);
+      return;
+    }
+    const models = getProviderModels(providerId);
+    const recommended = models.find(m => m.recommended);
+    updateStageModel(stage, {
+      provider: providerId,
+      model: recommended?.id || models[0]?.id,
+      // Keep a key already entered for this provider on another stage
+      apiKey: Object.values(stageModels).find(c => c?.provider === providerId && c.apiKey)?.apiKey,
+    });
+  };
+
+  // Reported from here for the same reason as updateStageModel
+  const updateFallbacks = (next: StageModelConfig[]) => {
+    setFallbacks(next);
+    onFallbacksChange?.(next);
+  };
+
+  const fallbackFor = (providerId: string): StageModelConfig => {
+    const models = getProviderModels(providerId);
+    const recommended = models.find(m => m.recommended);
+    return {
+      provider: providerId,
+      model: recommended?.id || models[0]?.id,
+      apiKey: [...fallbacks, ...Object.values(stageModels)].find(c => c?.provider === providerId && c.apiKey)?.apiKey,
+    };
+  };
+
+  const moveFallback = (index: number, offset: number) => {
+    const next = [...fallbacks];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateFallbacks(next);
+  };
+
   // Test connection
   const handleTestConnection = async () => {
     setTestingConnection(true);
@@ -531,6 +608,226 @@ export function LLMProviderSelector({
         </div>
       )}
 
+      {/* Per-stage models */}
+      {onStageModelsChange && (
+        <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={() => setShowStageModels(!showStageModels)}
+            disabled={disabled}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1"
+          >
+            {showStageModels ? '▼' : '▶'} Per-stage models
+            {Object.keys(stageModels).length > 0 && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                ({Object.keys(stageModels).length} overridden)
+              </span>
+            )}
+          </button>
+          {showStageModels && (
+            <div className="mt-3 space-y-3">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Run individual steps on another provider or model, e.g. a fast cheap model for
+                ordering chapters and a strong one for writing them.
+              </p>
+              {Object.values(LLM_STAGES).map(stage => {
+                const config = stageModels[stage];
+                const stageProvider = config ? getProvider(config.provider) : undefined;
+                const stageModelsList = config ? getProviderModels(config.provider) : [];
+                const needsStageKey = !!config && config.provider !== selectedProvider && (stageProvider?.requiresApiKey ?? true);
+                return (
+                  <div key={stage} className="space-y-1">
+                    <label className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                      {LLM_STAGE_NAMES[stage]}
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select
+                        value={config?.provider ?? SAME_AS_MAIN}
+                        onValueChange={(value) => handleStageProviderChange(stage, value)}
+                        disabled={disabled}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Same as above" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={SAME_AS_MAIN}>Same as above</SelectItem>
+                          {LLM_PROVIDERS.map(provider => (
+                            <SelectItem key={provider.id} value={provider.id}>
+                              {provider.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {config && (
+                        <Select
+                          value={config.model ?? ''}
+                          onValueChange={(value) => updateStageModel(stage, { ...config, model: value })}
+                          disabled={disabled || stageModelsList.length === 0}
+                        >
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select a model" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {stageModelsList.map(model => (
+                              <SelectItem key={model.id} value={model.id}>
+                                {model.name} {model.costPer1kInput === 0 ? '🆓' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    {needsStageKey && (
+                      <input
+                        type="password"
+                        value={config.apiKey ?? ''}
+                        onChange={(e) => updateStageModel(stage, { ...config, apiKey: e.target.value || undefined })}
+                        placeholder={`${stageProvider?.name || config.provider} API key (optional if set in .env)`}
+                        disabled={disabled}
+                        className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md 
+                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                   focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                                   disabled:opacity-50 disabled:cursor-not-allowed"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Fallback models */}
+      {onFallbacksChange && (
+        <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={() => setShowFallbacks(!showFallbacks)}
+            disabled={disabled}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1"
+          >
+            {showFallbacks ? '▼' : '▶'} Fallback models
+            {fallbacks.length > 0 && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                ({fallbacks.length} configured)
+              </span>
+            )}
+          </button>
+          {showFallbacks && (
+            <div className="mt-3 space-y-3">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                When a model is rate limited, out of quota or unavailable, the step moves on to the
+                next model in this list instead of failing the run.
+              </p>
+              {fallbacks.map((config, index) => {
+                const fallbackProvider = getProvider(config.provider);
+                const fallbackModelsList = getProviderModels(config.provider);
+                const needsFallbackKey = config.provider !== selectedProvider && (fallbackProvider?.requiresApiKey ?? true);
+                return (
+                  <div key={index} className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <label className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                        Fallback {index + 1}
+                      </label>
+                      <div className="flex gap-2 text-xs">
+                        <button
+                          type="button"
+                          onClick={() => moveFallback(index, -1)}
+                          disabled={disabled || index === 0}
+                          className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-30"
+                          aria-label="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveFallback(index, 1)}
+                          disabled={disabled || index === fallbacks.length - 1}
+                          className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-30"
+                          aria-label="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => updateFallbacks(fallbacks.filter((_, i) => i !== index))}
+                          disabled={disabled}
+                          className="text-red-600 dark:text-red-400 hover:underline"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select
+                        value={config.provider}
+                        onValueChange={(value) =>
+                          updateFallbacks(fallbacks.map((c, i) => (i === index ? fallbackFor(value) : c)))
+                        }
+                        disabled={disabled}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select a provider" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {LLM_PROVIDERS.map(provider => (
+                            <SelectItem key={provider.id} value={provider.id}>
+                              {provider.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={config.model ?? ''}
+                        onValueChange={(value) =>
+                          updateFallbacks(fallbacks.map((c, i) => (i === index ? { ...c, model: value } : c)))
+                        }
+                        disabled={disabled || fallbackModelsList.length === 0}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select a model" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {fallbackModelsList.map(model => (
+                            <SelectItem key={model.id} value={model.id}>
+                              {model.name} {model.costPer1kInput === 0 ? '🆓' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {needsFallbackKey && (
+                      <input
+                        type="password"
+                        value={config.apiKey ?? ''}
+                        onChange={(e) =>
+                          updateFallbacks(fallbacks.map((c, i) => (i === index ? { ...c, apiKey: e.target.value || undefined } : c)))
+                        }
+                        placeholder={`${fallbackProvider?.name || config.provider} API key (optional if set in .env)`}
+                        disabled={disabled}
+                        className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md 
+                                   bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                                   focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                                   disabled:opacity-50 disabled:cursor-not-allowed"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              <button
+                type="button"
+                onClick={() => updateFallbacks([...fallbacks, fallbackFor(selectedProvider)])}
+                disabled={disabled}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                + Add fallback model
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Ollama Help */}
       {!useCustomProvider && selectedProvider === PROVIDER_IDS.OLLAMA && !ollamaStatus.available && (
         <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 
 export interface TutorialProgress {
   stage: string;
@@ -9,13 +9,32 @@ export interface TutorialProgress {
   chapterName?: string;
 }
 
+// Text of the chapter being written, as streamed by chapter_delta events
+export interface ChapterDraft {
+  chapter: number;
+  chapterName?: string;
+  text: string;
+}
+
 interface LoadingIndicatorProps {
   type: 'repository' | 'tutorial';
   isLoading: boolean;
   progress?: TutorialProgress | null;
+  chapterDraft?: ChapterDraft | null;
+  onCancel?: () => void;
+  isCancelling?: boolean;
 }
 
-const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ type, isLoading, progress }) => {
+const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ type, isLoading, progress, chapterDraft, onCancel, isCancelling }) => {
+  const draftRef = useRef<HTMLPreElement>(null);
+
+  // Keep the newest text of the chapter in view
+  useEffect(() => {
+    if (draftRef.current) {
+      draftRef.current.scrollTop = draftRef.current.scrollHeight;
+    }
+  }, [chapterDraft?.text]);
+
   if (!isLoading) return null;
 
   return type === 'repository' ? (
@@ -88,12 +107,39 @@ const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ type, isLoading, pr
         </div>
       )}
       
+      {/* Chapter being written */}
+      {chapterDraft && progress?.stage === 'writing_chapters' && chapterDraft.chapter === progress.currentChapter && (
+        <div className="mt-4 w-full max-w-2xl">
+          <p className="mb-1 text-xs text-gray-500 dark:text-gray-400 truncate">
+            ✍️ Chapter {chapterDraft.chapter}{chapterDraft.chapterName ? `: ${chapterDraft.chapterName}` : ''}
+          </p>
+          <pre
+            ref={draftRef}
+            className="max-h-64 overflow-y-auto whitespace-pre-wrap break-words p-3 text-xs font-mono text-left bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300 rounded-lg border border-gray-200 dark:border-gray-700"
+          >
+            {chapterDraft.text}
+          </pre>
+        </div>
+      )}
+
       {/* Estimated Time */}
       {progress?.totalChapters && progress?.currentChapter && (
         <p className="mt-3 text-xs text-gray-400 dark:text-gray-500">
           ⏱️ ~{Math.max(1, (progress.totalChapters - progress.currentChapter) * 30)} seconds remaining
         </p>
       )}
+
+      {/* Cancel */}
+      {onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isCancelling}
+          className="mt-4 px-4 py-2 text-sm rounded-md border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50"
+        >
+          {isCancelling ? 'Cancelling...' : 'Cancel'}
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,80 @@
+'use client';
+
+/**
+ * Markdown Content Component
+ * Renders tutorial Markdown with highlighted code blocks and Mermaid diagrams
+ */
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useTheme } from 'next-themes';
+import { renderMarkdown } from '@/lib/markdown';
+import 'highlight.js/styles/github-dark.css';
+
+interface MarkdownContentProps {
+  markdown: string;
+  // Called instead of following relative links to other .md files; links to
+  // another tutorial ("../project/file.md", as in a monorepo overview) pass its project
+  onNavigate?: (filename: string, project?: string) => void;
+}
+
+export function MarkdownContent({ markdown, onNavigate }: MarkdownContentProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { resolvedTheme } = useTheme();
+  const html = useMemo(() => renderMarkdown(markdown), [markdown]);
+
+  // Render Mermaid diagrams after the HTML is in the DOM
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const nodes = Array.from(container.querySelectorAll<HTMLElement>('pre.mermaid'));
+    if (nodes.length === 0) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const { default: mermaid } = await import('mermaid');
+        if (cancelled) return;
+        mermaid.initialize({
+          startOnLoad: false,
+          securityLevel: 'strict',
+          theme: resolvedTheme === 'dark' ? 'dark' : 'default',
+        });
+        await mermaid.run({ nodes });
+      } catch (err) {
+        console.error('[MarkdownContent] Failed to render Mermaid diagram:', err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [html, resolvedTheme]);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onNavigate) return;
+
+    const anchor = (e.target as HTMLElement).closest('a');
+    const href = anchor?.getAttribute('href');
+    if (!href || /^[a-z]+:|^\/\//i.test(href) || href.startsWith('#')) return;
+
+    const filename = href.split('#')[0];
+    if (filename.endsWith('.md')) {
+      e.preventDefault();
+      const parts = decodeURIComponent(filename).split('/');
+      const name = parts.pop() || filename;
+      onNavigate(name, parts.length === 2 && parts[0] === '..' ? parts[1] : undefined);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      // Re-mount on theme change so Mermaid starts from the original source
+      key={resolvedTheme}
+      className="tutorial-content"
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
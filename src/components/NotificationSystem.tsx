@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 
 export interface Notification {
   type: "success" | "error" | "info";
@@ -49,7 +49,7 @@ export const useNotifications = () => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const notificationIdRef = useRef(0);
 
-  const showNotification = (
+  const showNotification = useCallback((
     type: "success" | "error" | "info",
     title: string,
     message: string
@@ -61,11 +61,11 @@ export const useNotifications = () => {
     setTimeout(() => {
       setNotifications((prev) => prev.filter((n) => n.id !== id));
     }, 5000);
-  };
+  }, []);
 
-  const dismissNotification = (id: number) => {
+  const dismissNotification = useCallback((id: number) => {
     setNotifications((prev) => prev.filter((n) => n.id !== id));
-  };
+  }, []);
 
   return {
     notifications,
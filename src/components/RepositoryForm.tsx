@@ -1,10 +1,14 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import LLMProviderSelector from './LLMProviderSelector';
 import CostEstimator from './CostEstimator';
 import CacheStatusPreview from './CacheStatusPreview';
-import { PROVIDER_IDS, OPENAI_MODELS } from '@/lib/constants/llm';
+import { PROVIDER_IDS, OPENAI_MODELS, type StageModelConfig, type StageModelMap } from '@/lib/constants/llm';
+import type { SourceRefs } from '@/lib/sourceProviders';
+
+// Wait for the URL to stop changing before listing its branches and tags
+const REFS_FETCH_DELAY_MS = 600;
 
 export interface LLMConfig {
   providerId: string;
@@ -12,13 +16,31 @@ export interface LLMConfig {
   apiKey?: string;
   baseUrl?: string;
   regenerationMode?: 'full' | 'partial' | 'skip';
+  summarizeFiles?: boolean; // Unset: large repos are summarised automatically
+  chapterConcurrency?: number; // Chapters written at once; unset writes them one after another
+  stageModels?: StageModelMap; // Per-stage provider/model overrides
+  fallbacks?: StageModelConfig[]; // Tried in order when the model is rate limited, out of quota or down
+  maxCostUsd?: number; // Budget per run; unset means no cap
+  maxTokens?: number;
 }
 
+// Where a tutorial's files come from: crawled in the browser (as "Fetch Repo" does),
+// a shallow git clone on the server, or a directory on the server's disk
+export type TutorialSource = 'crawl' | 'git_clone' | 'local_dir';
+
 interface RepositoryFormProps {
   repoUrl: string;
   onRepoUrlChange: (value: string) => void;
   githubToken: string;
   onGithubTokenChange: (value: string) => void;
+  // Branch, tag or commit to crawl; empty for the one in the URL or the default branch
+  gitRef?: string;
+  onGitRefChange?: (value: string) => void;
+  tutorialSource?: TutorialSource;
+  onTutorialSourceChange?: (value: TutorialSource) => void;
+  // Directory inside the server's LOCAL_CRAWL_ROOT, for the 'local_dir' source
+  localDir?: string;
+  onLocalDirChange?: (value: string) => void;
   // Legacy prop for backward compatibility
   openaiApiKey?: string;
   onOpenaiApiKeyChange?: (value: string) => void;
@@ -28,6 +50,7 @@ interface RepositoryFormProps {
   // For cost estimation
   fileCount?: number;
   totalChars?: number;
+  files?: Record<string, string>;
 }
 
 const RepositoryForm: React.FC<RepositoryFormProps> = ({
@@ -35,14 +58,55 @@ const RepositoryForm: React.FC<RepositoryFormProps> = ({
   onRepoUrlChange,
   githubToken,
   onGithubTokenChange,
+  gitRef = '',
+  onGitRefChange,
+  tutorialSource = 'crawl',
+  onTutorialSourceChange,
+  localDir = '',
+  onLocalDirChange,
   openaiApiKey,
   onOpenaiApiKeyChange,
   llmConfig,
   onLLMConfigChange,
   fileCount = 0,
   totalChars = 0,
+  files,
 }) => {
   const [showGithubTokenHelp, setShowGithubTokenHelp] = useState(false);
+  const [refs, setRefs] = useState<(SourceRefs & { urlRef?: string }) | null>(null);
+  const [refsError, setRefsError] = useState('');
+
+  // List the repository's branches and tags for the ref picker
+  useEffect(() => {
+    setRefs(null);
+    setRefsError('');
+    if (!onGitRefChange || !/^https:\/\/[^/]+\/[^/]+\/[^/]+/.test(repoUrl)) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/repo-refs', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ repoUrl, token: githubToken || undefined }),
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `Error ${response.status}`);
+        }
+        setRefs(data);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setRefsError(err instanceof Error ? err.message : 'Failed to list branches and tags');
+      }
+    }, REFS_FETCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [repoUrl, githubToken, onGitRefChange]);
   
   // Internal LLM state if not controlled externally
   const [internalLLMConfig, setInternalLLMConfig] = useState<LLMConfig>({
@@ -64,7 +128,13 @@ const RepositoryForm: React.FC<RepositoryFormProps> = ({
       modelId, 
       apiKey, 
       baseUrl,
-      regenerationMode: currentConfig.regenerationMode 
+      regenerationMode: currentConfig.regenerationMode,
+      summarizeFiles: currentConfig.summarizeFiles,
+      chapterConcurrency: currentConfig.chapterConcurrency,
+      stageModels: currentConfig.stageModels,
+      fallbacks: currentConfig.fallbacks,
+      maxCostUsd: currentConfig.maxCostUsd,
+      maxTokens: currentConfig.maxTokens,
     };
     
     if (onLLMConfigChange) {
@@ -77,7 +147,7 @@ const RepositoryForm: React.FC<RepositoryFormProps> = ({
     if (onOpenaiApiKeyChange && apiKey !== undefined) {
       onOpenaiApiKeyChange(apiKey);
     }
-  }, [onLLMConfigChange, onOpenaiApiKeyChange, currentConfig.regenerationMode]);
+  }, [onLLMConfigChange, onOpenaiApiKeyChange, currentConfig.regenerationMode, currentConfig.summarizeFiles, currentConfig.chapterConcurrency, currentConfig.stageModels, currentConfig.fallbacks, currentConfig.maxCostUsd, currentConfig.maxTokens]);
 
   const handleRegenerationModeSelect = useCallback((mode: 'full' | 'partial' | 'skip') => {
     const newConfig: LLMConfig = { ...currentConfig, regenerationMode: mode };
@@ -89,16 +159,73 @@ const RepositoryForm: React.FC<RepositoryFormProps> = ({
     }
   }, [currentConfig, onLLMConfigChange]);
 
+  const handleSummarizeFilesChange = useCallback((checked: boolean) => {
+    const newConfig: LLMConfig = { ...currentConfig, summarizeFiles: checked || undefined };
+
+    if (onLLMConfigChange) {
+      onLLMConfigChange(newConfig);
+    } else {
+      setInternalLLMConfig(newConfig);
+    }
+  }, [currentConfig, onLLMConfigChange]);
+
+  const handleFallbacksChange = useCallback((fallbacks: StageModelConfig[]) => {
+    const newConfig: LLMConfig = {
+      ...currentConfig,
+      fallbacks: fallbacks.length > 0 ? fallbacks : undefined,
+    };
+
+    if (onLLMConfigChange) {
+      onLLMConfigChange(newConfig);
+    } else {
+      setInternalLLMConfig(newConfig);
+    }
+  }, [currentConfig, onLLMConfigChange]);
+
+  const handleStageModelsChange = useCallback((stageModels: StageModelMap) => {
+    const newConfig: LLMConfig = {
+      ...currentConfig,
+      stageModels: Object.keys(stageModels).length > 0 ? stageModels : undefined,
+    };
+
+    if (onLLMConfigChange) {
+      onLLMConfigChange(newConfig);
+    } else {
+      setInternalLLMConfig(newConfig);
+    }
+  }, [currentConfig, onLLMConfigChange]);
+
+  const handleChapterConcurrencyChange = useCallback((value: number) => {
+    const newConfig: LLMConfig = { ...currentConfig, chapterConcurrency: value > 1 ? value : undefined };
+
+    if (onLLMConfigChange) {
+      onLLMConfigChange(newConfig);
+    } else {
+      setInternalLLMConfig(newConfig);
+    }
+  }, [currentConfig, onLLMConfigChange]);
+
+  const handleBudgetChange = useCallback((key: 'maxCostUsd' | 'maxTokens', value: string) => {
+    const amount = parseFloat(value);
+    const newConfig: LLMConfig = { ...currentConfig, [key]: amount > 0 ? amount : undefined };
+
+    if (onLLMConfigChange) {
+      onLLMConfigChange(newConfig);
+    } else {
+      setInternalLLMConfig(newConfig);
+    }
+  }, [currentConfig, onLLMConfigChange]);
+
   return (
     <div className="space-y-4 mb-4">
-      {/* Repository URL and GitHub Token Row */}
+      {/* Repository URL and Access Token Row */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <label
             htmlFor="repoUrl"
             className="block text-sm font-medium mb-1"
           >
-            GitHub Repository URL
+            Repository URL
           </label>
           <input
             id="repoUrl"
@@ -106,8 +233,8 @@ const RepositoryForm: React.FC<RepositoryFormProps> = ({
             className="w-full p-2 border rounded-md dark:bg-gray-800 dark:border-gray-700"
             value={repoUrl}
             onChange={(e) => onRepoUrlChange(e.target.value)}
-            placeholder="https://github.com/username/repository"
-            required
+            placeholder="https://github.com/username/repository (or GitLab, Bitbucket)"
+            required={tutorialSource !== 'local_dir'}
           />
         </div>
 
@@ -117,7 +244,7 @@ const RepositoryForm: React.FC<RepositoryFormProps> = ({
               htmlFor="githubToken"
               className="block text-sm font-medium"
             >
-              GitHub Token (optional)
+              Access Token (optional)
             </label>
             <button
               type="button"
@@ -139,6 +266,7 @@ const RepositoryForm: React.FC<RepositoryFormProps> = ({
             <div className="mt-2 p-2 bg-blue-50 dark:bg-blue-900/30 rounded text-xs text-gray-600 dark:text-gray-300">
               <p className="mb-1"><strong>Required for:</strong> Private repositories, higher rate limits</p>
               <p>Create one at <a href="https://github.com/settings/tokens" target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">GitHub Settings → Tokens</a></p>
+              <p className="mt-1">GitLab and Bitbucket repositories take a personal or project access token (Bitbucket app passwords as <code>username:password</code>).</p>
             </div>
           ) : (
             <p className="text-xs text-gray-500 mt-1">
@@ -148,6 +276,94 @@ const RepositoryForm: React.FC<RepositoryFormProps> = ({
         </div>
       </div>
 
+      {onGitRefChange && (
+        <div>
+          <label htmlFor="gitRef" className="block text-sm font-medium mb-1">
+            Branch, Tag or Commit
+          </label>
+          <input
+            id="gitRef"
+            type="text"
+            list="gitRefOptions"
+            className="w-full md:w-1/2 p-2 border rounded-md dark:bg-gray-800 dark:border-gray-700 font-mono text-sm"
+            value={gitRef}
+            onChange={(e) => onGitRefChange(e.target.value.trim())}
+            placeholder={
+              refs?.urlRef
+                ? `${refs.urlRef} (from the URL)`
+                : refs?.defaultBranch
+                ? `${refs.defaultBranch} (default branch)`
+                : 'Default branch'
+            }
+          />
+          <datalist id="gitRefOptions">
+            {refs?.branches.map((branch) => (
+              <option key={`branch-${branch}`} value={branch}>
+                {branch === refs.defaultBranch ? 'default branch' : 'branch'}
+              </option>
+            ))}
+            {refs?.tags.map((tag) => (
+              <option key={`tag-${tag}`} value={tag}>
+                tag
+              </option>
+            ))}
+          </datalist>
+          <p className="text-xs text-gray-500 mt-1">
+            {refsError
+              ? `Couldn't list branches and tags: ${refsError}`
+              : refs
+              ? `${refs.branches.length} branches, ${refs.tags.length} tags. Or paste a commit SHA.`
+              : 'Pick a branch or tag, or paste a commit SHA. The crawl records the exact commit.'}
+          </p>
+        </div>
+      )}
+
+      {onTutorialSourceChange && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="tutorialSource" className="block text-sm font-medium mb-1">
+              Tutorial Source
+            </label>
+            <select
+              id="tutorialSource"
+              className="w-full p-2 border rounded-md dark:bg-gray-800 dark:border-gray-700 text-sm"
+              value={tutorialSource}
+              onChange={(e) => onTutorialSourceChange(e.target.value as TutorialSource)}
+            >
+              <option value="crawl">Files fetched here</option>
+              <option value="git_clone">Git clone on the server</option>
+              <option value="local_dir">Directory on the server</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {tutorialSource === 'git_clone'
+                ? 'The server shallow-clones the repository, without GitHub API rate limits.'
+                : tutorialSource === 'local_dir'
+                ? 'The server reads a checkout on its disk; the repository URL is then only used for links.'
+                : 'Create Tutorial fetches the files through the API first, like Fetch Repo.'}
+            </p>
+          </div>
+
+          {tutorialSource === 'local_dir' && onLocalDirChange && (
+            <div>
+              <label htmlFor="localDir" className="block text-sm font-medium mb-1">
+                Server Directory
+              </label>
+              <input
+                id="localDir"
+                type="text"
+                className="w-full p-2 border rounded-md dark:bg-gray-800 dark:border-gray-700 font-mono text-sm"
+                value={localDir}
+                onChange={(e) => onLocalDirChange(e.target.value)}
+                placeholder="my-project (inside LOCAL_CRAWL_ROOT)"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Only directories inside the server&apos;s LOCAL_CRAWL_ROOT can be read.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* LLM Provider Selection */}
       <div className="border rounded-md p-4 bg-gray-50 dark:bg-gray-800/50">
         <h3 className="text-sm font-medium mb-3 flex items-center gap-2">
@@ -161,6 +377,8 @@ const RepositoryForm: React.FC<RepositoryFormProps> = ({
           {/* Provider Selector */}
           <LLMProviderSelector
             onProviderChange={handleProviderChange}
+            onStageModelsChange={handleStageModelsChange}
+            onFallbacksChange={handleFallbacksChange}
           />
           
           {/* Cost Estimator - only show if we have file data */}
@@ -168,12 +386,86 @@ const RepositoryForm: React.FC<RepositoryFormProps> = ({
             <CostEstimator
               providerId={currentConfig.providerId}
               modelId={currentConfig.modelId}
+              stageModels={currentConfig.stageModels}
+              maxCostUsd={currentConfig.maxCostUsd}
+              summarizeFiles={currentConfig.summarizeFiles}
+              chapterConcurrency={currentConfig.chapterConcurrency}
+              files={files}
               fileCount={fileCount}
               totalChars={totalChars}
             />
           )}
         </div>
         
+        {/* File summary pre-pass */}
+        <label className="mt-4 flex items-start gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={currentConfig.summarizeFiles === true}
+            onChange={(e) => handleSummarizeFilesChange(e.target.checked)}
+          />
+          <span>
+            Summarise every file first
+            <span className="block text-xs text-gray-500 dark:text-gray-400">
+              Uses a cheaper model; summaries are cached so re-runs only summarise changed files.
+              Repos too large for the model&apos;s context window are always summarised.
+            </span>
+          </span>
+        </label>
+
+        {/* Parallel chapter writing */}
+        <label className="mt-4 flex items-start gap-2 text-sm">
+          <select
+            className="px-2 py-1 border rounded-md text-sm dark:bg-gray-800 dark:border-gray-700"
+            value={currentConfig.chapterConcurrency ?? 1}
+            onChange={(e) => handleChapterConcurrencyChange(Number(e.target.value))}
+          >
+            {[1, 2, 4, 8].map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+          <span>
+            Chapters written at once
+            <span className="block text-xs text-gray-500 dark:text-gray-400">
+              Above 1, chapters are written in parallel and each sees an outline of the others
+              instead of the full text of earlier chapters. Much faster on providers with high rate limits.
+            </span>
+          </span>
+        </label>
+
+        {/* Spending caps */}
+        <div className="mt-4 flex flex-wrap items-start gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            Budget $
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="no limit"
+              className="w-24 px-2 py-1 border rounded-md text-sm dark:bg-gray-800 dark:border-gray-700"
+              value={currentConfig.maxCostUsd ?? ''}
+              onChange={(e) => handleBudgetChange('maxCostUsd', e.target.value)}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Max tokens
+            <input
+              type="number"
+              min="0"
+              step="1000"
+              placeholder="no limit"
+              className="w-32 px-2 py-1 border rounded-md text-sm dark:bg-gray-800 dark:border-gray-700"
+              value={currentConfig.maxTokens ?? ''}
+              onChange={(e) => handleBudgetChange('maxTokens', e.target.value)}
+            />
+          </label>
+          <span className="basis-full text-xs text-gray-500 dark:text-gray-400">
+            A run that is estimated to go over these won&apos;t start, and a run that reaches them pauses.
+            Either way it can continue with a cheaper model or fewer chapters.
+          </span>
+        </div>
+
         {/* Quick tips */}
         <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
           <div className="flex flex-wrap gap-2 text-xs">
@@ -1,11 +1,13 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 
 interface SaveToFileProps {
   files: Record<string, string>;
   repoUrl: string;
+  manifestId?: string; // Blob store manifest of `files`, when they came straight from a crawl
   onLoadVersion: (files: Record<string, string>, versionInfo: VersionInfo) => void;
+  onCompareVersions?: (base: VersionInfo, head: VersionInfo) => void;
 }
 
 export interface VersionInfo {
@@ -14,9 +16,58 @@ export interface VersionInfo {
   timestamp: string;
   repository: string;
   fileCount: number;
+  manifestId?: string; // The version's files in the server's blob store
 }
 
-export default function SaveToFile({ files, repoUrl, onLoadVersion }: SaveToFileProps) {
+// Where versions were kept before they moved to the server
+const LOCAL_VERSIONS_KEY = 'savedRepoVersions';
+
+// Versions saved before they were kept on the server are moved there once. The
+// key is removed before anything is sent, so a second mount or another tab finds
+// nothing to move; versions that fail are put back and retried next time.
+async function migrateLocalVersions() {
+  const stored = localStorage.getItem(LOCAL_VERSIONS_KEY);
+  if (!stored) return;
+  localStorage.removeItem(LOCAL_VERSIONS_KEY);
+
+  const remaining: VersionInfo[] = [];
+  for (const version of JSON.parse(stored) as VersionInfo[]) {
+    const localData = localStorage.getItem(`repoVersion-${version.id}`);
+    if (!version.manifestId && !localData) {
+      // Nothing left to move, and the server would refuse it every time
+      console.warn(`Dropping version "${version.name}": its files are no longer in localStorage`);
+      continue;
+    }
+
+    try {
+      const response = await fetch('/api/versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: version.name,
+          repository: version.repository,
+          timestamp: version.timestamp,
+          manifestId: version.manifestId,
+          files: !version.manifestId && localData ? JSON.parse(localData).files : undefined,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || `Error ${response.status}`);
+      }
+      localStorage.removeItem(`repoVersion-${version.id}`);
+    } catch (error) {
+      console.error(`Error moving version "${version.name}" to the server:`, error);
+      remaining.push(version);
+    }
+  }
+
+  if (remaining.length > 0) {
+    const current = JSON.parse(localStorage.getItem(LOCAL_VERSIONS_KEY) || '[]') as VersionInfo[];
+    localStorage.setItem(LOCAL_VERSIONS_KEY, JSON.stringify([...current, ...remaining]));
+  }
+}
+
+export default function SaveToFile({ files, repoUrl, manifestId, onLoadVersion, onCompareVersions }: SaveToFileProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState('');
   const [versionName, setVersionName] = useState('');
@@ -24,24 +75,29 @@ export default function SaveToFile({ files, repoUrl, onLoadVersion }: SaveToFile
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
   const [selectMode, setSelectMode] = useState(false);
   const [showVersions, setShowVersions] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [compareBase, setCompareBase] = useState<VersionInfo | null>(null);
 
-  // Load saved versions on component mount
-  useEffect(() => {
-    loadSavedVersions();
-  }, []);
-
-  const loadSavedVersions = async () => {
+  const loadSavedVersions = useCallback(async () => {
     try {
-      // In a real app, this would be an API call
-      // For now, we'll use localStorage
-      const versions = localStorage.getItem('savedRepoVersions');
-      if (versions) {
-        setSavedVersions(JSON.parse(versions));
+      await migrateLocalVersions();
+
+      const response = await fetch('/api/versions');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Error ${response.status}`);
       }
+      setSavedVersions(data.versions);
     } catch (error) {
       console.error('Error loading saved versions:', error);
     }
-  };
+  }, []);
+
+  // Load saved versions on component mount
+  useEffect(() => {
+    loadSavedVersions();
+  }, [loadSavedVersions]);
 
   const toggleFileSelection = (filePath: string) => {
     setSelectedFiles(prev => 
@@ -73,36 +129,29 @@ export default function SaveToFile({ files, repoUrl, onLoadVersion }: SaveToFile
           )
         : files;
 
-      // Create a unique ID for this version
-      const versionId = `repo-${Date.now().toString(36)}`;
-
-      // Create version info
-      const versionInfo: VersionInfo = {
-        id: versionId,
-        name: versionName,
-        timestamp: new Date().toISOString(),
-        repository: repoUrl,
-        fileCount: Object.keys(filesToSave).length,
-      };
-
-      // Create the data to save
-      const dataToSave = {
-        ...versionInfo,
-        files: filesToSave
-      };
+      // A crawl's files are already in the server's blob store; other files are uploaded
+      const response = await fetch('/api/versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: versionName,
+          repository: repoUrl,
+          manifestId: selectMode ? undefined : manifestId,
+          files: selectMode || !manifestId ? filesToSave : undefined,
+        }),
+      });
+      const versionInfo = await response.json();
+      if (!response.ok) {
+        throw new Error(versionInfo.error || `Error ${response.status}`);
+      }
 
-      // Save to localStorage (in a real app, this would be an API call)
-      const versions = [...savedVersions, versionInfo];
-      localStorage.setItem('savedRepoVersions', JSON.stringify(versions));
-      localStorage.setItem(`repoVersion-${versionId}`, JSON.stringify(dataToSave));
-      
       // Update state
-      setSavedVersions(versions);
+      setSavedVersions(prev => [versionInfo, ...prev]);
       setSaveMessage(`Saved version "${versionName}" with ${Object.keys(filesToSave).length} files`);
       setVersionName('');
       
       // Also download as a file
-      downloadAsFile(dataToSave, versionName);
+      downloadAsFile({ ...versionInfo, files: filesToSave }, versionName);
       
     } catch (error) {
       setSaveMessage(`Error saving files: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -133,21 +182,16 @@ export default function SaveToFile({ files, repoUrl, onLoadVersion }: SaveToFile
 
   const loadVersion = async (versionId: string) => {
     try {
-      // In a real app, this would be an API call
-      const savedData = localStorage.getItem(`repoVersion-${versionId}`);
-      if (savedData) {
-        const parsedData = JSON.parse(savedData);
-        onLoadVersion(parsedData.files, {
-          id: parsedData.id,
-          name: parsedData.name,
-          timestamp: parsedData.timestamp,
-          repository: parsedData.repository,
-          fileCount: parsedData.fileCount
-        });
-        setShowVersions(false);
+      const response = await fetch(`/api/versions/${versionId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Error ${response.status}`);
       }
+      onLoadVersion(data.files, data.version);
+      setShowVersions(false);
     } catch (error) {
       console.error('Error loading version:', error);
+      setSaveMessage(`Error loading version: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -155,18 +199,56 @@ export default function SaveToFile({ files, repoUrl, onLoadVersion }: SaveToFile
     e.stopPropagation(); // Prevent triggering the parent onClick
     
     try {
-      // Remove from localStorage
-      localStorage.removeItem(`repoVersion-${versionId}`);
-      
-      // Update versions list
-      const updatedVersions = savedVersions.filter(v => v.id !== versionId);
-      localStorage.setItem('savedRepoVersions', JSON.stringify(updatedVersions));
-      setSavedVersions(updatedVersions);
+      const response = await fetch(`/api/versions/${versionId}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        throw new Error((await response.json()).error || `Error ${response.status}`);
+      }
+      setSavedVersions(prev => prev.filter(v => v.id !== versionId));
+      if (compareBase?.id === versionId) setCompareBase(null);
     } catch (error) {
       console.error('Error deleting version:', error);
     }
   };
 
+  const startRename = (version: VersionInfo, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setRenamingId(version.id);
+    setRenameValue(version.name);
+  };
+
+  const submitRename = async (versionId: string) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name) return;
+
+    try {
+      const response = await fetch(`/api/versions/${versionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const renamed = await response.json();
+      if (!response.ok) {
+        throw new Error(renamed.error || `Error ${response.status}`);
+      }
+      setSavedVersions(prev => prev.map(v => (v.id === versionId ? renamed : v)));
+    } catch (error) {
+      console.error('Error renaming version:', error);
+    }
+  };
+
+  // The first version picked is the base; the second, of the same repository, is compared with it
+  const selectForCompare = (version: VersionInfo, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!compareBase || compareBase.id === version.id) {
+      setCompareBase(compareBase ? null : version);
+      return;
+    }
+    onCompareVersions?.(compareBase, version);
+    setCompareBase(null);
+    setShowVersions(false);
+  };
+
   return (
     <div className="mt-4 relative">
       <div className="flex flex-wrap gap-2">
@@ -270,6 +352,12 @@ export default function SaveToFile({ files, repoUrl, onLoadVersion }: SaveToFile
       {showVersions && (
         <div className="mt-4 border p-4 rounded-md max-h-96 overflow-y-auto">
           <h3 className="font-medium mb-3">Saved Versions</h3>
+          {compareBase && (
+            <p className="mb-3 text-sm text-blue-700 dark:text-blue-300">
+              Pick another version of {compareBase.repository.replace('https://github.com/', '')} to
+              compare with &quot;{compareBase.name}&quot;
+            </p>
+          )}
           {savedVersions.length === 0 ? (
             <p className="text-gray-500 italic">No saved versions yet</p>
           ) : (
@@ -280,16 +368,56 @@ export default function SaveToFile({ files, repoUrl, onLoadVersion }: SaveToFile
                   className="border rounded p-2 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer"
                   onClick={() => loadVersion(version.id)}
                 >
-                  <div className="flex justify-between items-center">
-                    <span className="font-medium">{version.name}</span>
-                    <button
-                      type="button"
-                      onClick={(e) => deleteVersion(version.id, e)}
-                      className="text-red-500 hover:text-red-700 text-sm"
-                      title="Delete version"
-                    >
-                      ×
-                    </button>
+                  <div className="flex justify-between items-center gap-2">
+                    {renamingId === version.id ? (
+                      <input
+                        type="text"
+                        value={renameValue}
+                        autoFocus
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={() => submitRename(version.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') submitRename(version.id);
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="flex-grow rounded border px-1 text-sm dark:bg-gray-800 dark:border-gray-700"
+                      />
+                    ) : (
+                      <span className="font-medium">{version.name}</span>
+                    )}
+                    <div className="flex items-center gap-2 shrink-0">
+                      {onCompareVersions && (
+                        <button
+                          type="button"
+                          onClick={(e) => selectForCompare(version, e)}
+                          disabled={!!compareBase && compareBase.id !== version.id &&
+                            compareBase.repository !== version.repository}
+                          className={`text-xs disabled:opacity-40 ${
+                            compareBase?.id === version.id ? 'text-blue-700 font-semibold' : 'text-blue-500 hover:text-blue-700'
+                          }`}
+                          title={compareBase ? 'Compare with the picked version' : 'Compare with another version'}
+                        >
+                          {compareBase?.id === version.id ? 'Comparing…' : compareBase ? 'Compare' : 'Diff'}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={(e) => startRename(version, e)}
+                        className="text-gray-500 hover:text-gray-700 text-sm"
+                        title="Rename version"
+                      >
+                        ✎
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => deleteVersion(version.id, e)}
+                        className="text-red-500 hover:text-red-700 text-sm"
+                        title="Delete version"
+                      >
+                        ×
+                      </button>
+                    </div>
                   </div>
                   <div className="text-xs text-gray-500 flex justify-between mt-1">
                     <span>
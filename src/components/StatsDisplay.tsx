@@ -48,6 +48,10 @@ const StatsDisplay: React.FC<StatsDisplayProps> = ({ stats, activeVersion }) =>
             <span className="text-lg font-bold">
               {stats.method === "tree_api"
                 ? "Git Tree API"
+                : stats.method === "incremental"
+                ? `Incremental (${stats.changed_paths?.length ?? 0} changed)`
+                : stats.method === "archive"
+                ? "Archive Download"
                 : "Contents API"}
             </span>
             <p className="text-sm text-gray-600 dark:text-gray-300">
@@ -67,6 +71,17 @@ const StatsDisplay: React.FC<StatsDisplayProps> = ({ stats, activeVersion }) =>
           </div>
         )}
 
+        {!activeVersion && stats.commit_sha && (
+          <div>
+            <span className="text-lg font-bold font-mono">
+              {stats.commit_sha.substring(0, 7)}
+            </span>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Commit{stats.ref ? ` (${stats.ref})` : ""}
+            </p>
+          </div>
+        )}
+
         {stats.base_path && (
           <div className="col-span-2">
             <span className="text-sm font-mono">{stats.base_path}</span>
@@ -76,6 +91,44 @@ const StatsDisplay: React.FC<StatsDisplayProps> = ({ stats, activeVersion }) =>
           </div>
         )}
 
+        {/* Warn when a truncated tree couldn't be listed in full */}
+        {!activeVersion && stats.unlisted_paths && stats.unlisted_paths.length > 0 && (
+          <div className="col-span-full mt-2 bg-red-50 dark:bg-red-900/20 p-3 rounded-md text-sm text-red-800 dark:text-red-300">
+            <p className="font-medium mb-1">
+              The repository tree is too large to list in full.{" "}
+              {stats.unlisted_paths.length === 1 ? "This directory" : `These ${stats.unlisted_paths.length} directories`}{" "}
+              couldn&apos;t be listed, so the crawl is missing their files:
+            </p>
+            <ul className="max-h-32 overflow-y-auto list-disc list-inside text-xs font-mono space-y-1">
+              {stats.unlisted_paths.map((dirPath) => (
+                <li key={dirPath} className="truncate">
+                  {dirPath}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-2 text-xs">
+              Narrow the crawl to a subdirectory (…/tree/&lt;ref&gt;/&lt;path&gt;) to include them.
+            </p>
+          </div>
+        )}
+
+        {/* Warn when some files couldn't be downloaded */}
+        {!activeVersion && stats.failed_paths && stats.failed_paths.length > 0 && (
+          <div className="col-span-full mt-2 bg-red-50 dark:bg-red-900/20 p-3 rounded-md text-sm text-red-800 dark:text-red-300">
+            <p className="font-medium mb-1">
+              {stats.failed_paths.length === 1 ? "This file" : `These ${stats.failed_paths.length} files`}{" "}
+              failed to download and are missing from the crawl. Fetch again to retry them:
+            </p>
+            <ul className="max-h-32 overflow-y-auto list-disc list-inside text-xs font-mono space-y-1">
+              {stats.failed_paths.map((filePath) => (
+                <li key={filePath} className="truncate">
+                  {filePath}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Display information about excluded files that would have been included */}
         {stats.excluded_count && stats.excluded_count > 0 && (
           <div className="col-span-full mt-2">
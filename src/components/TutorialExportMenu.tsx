@@ -0,0 +1,134 @@
+'use client';
+
+/**
+ * Tutorial Export Menu Component
+ * Downloads a tutorial as zip, single-file HTML, or print-ready HTML.
+ * Mermaid diagrams are rendered in the browser so the exported HTML works offline.
+ */
+
+import React, { useState } from 'react';
+import { extractMermaidBlocks } from '@/lib/markdown';
+import type { Tutorial } from '@/lib/tutorialOutput';
+
+interface TutorialExportMenuProps {
+  tutorial: Tutorial;
+}
+
+type ExportFormat = 'zip' | 'html' | 'print';
+
+export function TutorialExportMenu({ tutorial }: TutorialExportMenuProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportUrl = `/api/tutorials/${encodeURIComponent(tutorial.projectName)}/export`;
+
+  // Render every Mermaid block in the tutorial to SVG, keyed by its source
+  const renderMermaidSvgs = async (): Promise<Record<string, string>> => {
+    const contents = [tutorial.index];
+    for (const chapter of tutorial.chapters) {
+      const params = new URLSearchParams({ file: chapter.filename });
+      const response = await fetch(`/api/tutorials/${encodeURIComponent(tutorial.projectName)}?${params.toString()}`);
+      if (response.ok) {
+        contents.push((await response.json()).content);
+      }
+    }
+
+    const sources = Array.from(new Set(contents.flatMap(extractMermaidBlocks)));
+    if (sources.length === 0) return {};
+
+    const { default: mermaid } = await import('mermaid');
+    // SVG text labels: the export keeps plain SVG only, so HTML labels would be dropped
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: 'strict',
+      theme: 'default',
+      htmlLabels: false,
+      flowchart: { htmlLabels: false },
+    });
+
+    const svgs: Record<string, string> = {};
+    for (const [i, source] of sources.entries()) {
+      try {
+        const { svg } = await mermaid.render(`export-diagram-${i}`, source);
+        svgs[source] = svg;
+      } catch (err) {
+        // Leave the diagram as source in the export
+        console.warn('[TutorialExport] Failed to render Mermaid diagram:', err);
+      }
+    }
+    return svgs;
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+
+    // Popup blockers only allow windows opened straight from the click, so open
+    // the print tab now and load the export into it once it is ready
+    const printWindow = format === 'print' ? window.open('', '_blank') : null;
+    if (format === 'print' && !printWindow) {
+      setError('Allow pop-ups for this site to open the print view');
+      setExporting(null);
+      return;
+    }
+
+    try {
+      let blob: Blob;
+      if (format === 'zip') {
+        const response = await fetch(`${exportUrl}?format=zip`);
+        if (!response.ok) {
+          throw new Error((await response.json()).error || 'Export failed');
+        }
+        blob = await response.blob();
+      } else {
+        const mermaidSvgs = await renderMermaidSvgs();
+        const response = await fetch(exportUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ format, mermaidSvgs }),
+        });
+        if (!response.ok) {
+          throw new Error((await response.json()).error || 'Export failed');
+        }
+        blob = await response.blob();
+      }
+
+      const url = URL.createObjectURL(blob);
+      if (printWindow) {
+        // Shown in the new tab so it can be printed / saved as PDF straight away
+        printWindow.location.href = url;
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${tutorial.projectName}-tutorial.${format === 'zip' ? 'zip' : 'html'}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      printWindow?.close();
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const buttonClass = 'px-3 py-1.5 text-sm rounded-md bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-gray-500 dark:text-gray-400">Download:</span>
+      <button type="button" className={buttonClass} disabled={!!exporting} onClick={() => handleExport('zip')}>
+        {exporting === 'zip' ? 'Preparing...' : '🗜️ Zip'}
+      </button>
+      <button type="button" className={buttonClass} disabled={!!exporting} onClick={() => handleExport('html')}>
+        {exporting === 'html' ? 'Rendering...' : '🌐 HTML'}
+      </button>
+      <button type="button" className={buttonClass} disabled={!!exporting} onClick={() => handleExport('print')}>
+        {exporting === 'print' ? 'Rendering...' : '🖨️ Print / PDF'}
+      </button>
+      {error && <span className="text-sm text-red-600 dark:text-red-400">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+/**
+ * Tutorial Viewer Component
+ * Lists generated tutorials and renders their index and chapters with prev/next navigation
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { TutorialExportMenu } from '@/components/TutorialExportMenu';
+import type { Tutorial, TutorialSummary } from '@/lib/tutorialOutput';
+
+const INDEX_FILE = 'index.md';
+
+export function TutorialViewer() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const project = searchParams.get('project');
+  const file = searchParams.get('file') || INDEX_FILE;
+
+  const [tutorials, setTutorials] = useState<TutorialSummary[]>([]);
+  const [tutorial, setTutorial] = useState<Tutorial | null>(null);
+  const [content, setContent] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const navigate = useCallback((projectName: string, filename: string = INDEX_FILE) => {
+    const params = new URLSearchParams({ project: projectName });
+    if (filename !== INDEX_FILE) {
+      params.set('file', filename);
+    }
+    router.push(`/tutorials?${params.toString()}`);
+  }, [router]);
+
+  // Load the list of generated tutorials
+  useEffect(() => {
+    (async () => {
+      try {
+        const response = await fetch('/api/tutorials');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load tutorials');
+        }
+        setTutorials(data.tutorials);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  // Load the selected tutorial's chapter list
+  useEffect(() => {
+    if (!project) {
+      setTutorial(null);
+      return;
+    }
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/tutorials/${encodeURIComponent(project)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load tutorial');
+        }
+        setTutorial(data);
+        setError(null);
+      } catch (err) {
+        setTutorial(null);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    })();
+  }, [project]);
+
+  // Load the selected file (index or chapter)
+  useEffect(() => {
+    if (!project) {
+      setContent(null);
+      return;
+    }
+
+    (async () => {
+      try {
+        const params = new URLSearchParams({ file });
+        const response = await fetch(`/api/tutorials/${encodeURIComponent(project)}?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load file');
+        }
+        setContent(data.content);
+        setError(null);
+        window.scrollTo({ top: 0 });
+      } catch (err) {
+        setContent(null);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    })();
+  }, [project, file]);
+
+  // Reading order is index.md followed by the chapters in index order
+  const pages = tutorial
+    ? [{ filename: INDEX_FILE, title: 'Overview' }, ...tutorial.chapters]
+    : [];
+  const currentPage = pages.findIndex(page => page.filename === file);
+  const prevPage = currentPage > 0 ? pages[currentPage - 1] : null;
+  const nextPage = currentPage >= 0 && currentPage < pages.length - 1 ? pages[currentPage + 1] : null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Sidebar: tutorials and chapters */}
+      <aside className="lg:col-span-1 space-y-6">
+        <div>
+          <h2 className="text-sm font-semibold uppercase text-gray-500 dark:text-gray-400 mb-2">
+            Tutorials
+          </h2>
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : tutorials.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No tutorials yet. <Link href="/" className="text-blue-600 dark:text-blue-400 hover:underline">Create one</Link>.
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {tutorials.map(t => (
+                <li key={t.projectName}>
+                  <button
+                    type="button"
+                    onClick={() => navigate(t.projectName)}
+                    className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${
+                      t.projectName === project
+                        ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    <div className="font-medium truncate">{t.projectName}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {t.chapterCount} chapters · {new Date(t.generatedAt).toLocaleDateString()}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {tutorial && (
+          <div>
+            <h2 className="text-sm font-semibold uppercase text-gray-500 dark:text-gray-400 mb-2">
+              Chapters
+            </h2>
+            <ol className="space-y-1 text-sm">
+              {pages.map(page => (
+                <li key={page.filename}>
+                  <button
+                    type="button"
+                    onClick={() => navigate(tutorial.projectName, page.filename)}
+                    className={`w-full text-left px-3 py-1.5 rounded-md transition-colors ${
+                      page.filename === file
+                        ? 'bg-gray-200 dark:bg-gray-700 font-medium'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    {'number' in page ? `${page.number}. ` : ''}{page.title}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </aside>
+
+      {/* Main content */}
+      <main className="lg:col-span-3 min-w-0">
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {!project && !error && (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400 border border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+            Select a tutorial to start reading.
+          </div>
+        )}
+
+        {tutorial && (
+          <div className="mb-4">
+            <TutorialExportMenu tutorial={tutorial} />
+          </div>
+        )}
+
+        {project && content !== null && (
+          <article className="p-6 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <MarkdownContent
+              markdown={content}
+              onNavigate={(filename, target) => navigate(target || project, filename)}
+            />
+
+            <nav className="mt-8 pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-between gap-4 text-sm">
+              {prevPage ? (
+                <button
+                  type="button"
+                  onClick={() => navigate(project, prevPage.filename)}
+                  className="px-3 py-2 rounded-md bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-left"
+                >
+                  ← {prevPage.title}
+                </button>
+              ) : <span />}
+              {nextPage && (
+                <button
+                  type="button"
+                  onClick={() => navigate(project, nextPage.filename)}
+                  className="px-3 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 text-right"
+                >
+                  {nextPage.title} →
+                </button>
+              )}
+            </nav>
+          </article>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import CodeEditor from './CodeEditor';
+import type { VersionInfo } from './SaveToFile';
+import type { VersionFileChange } from '@/lib/savedVersions';
+
+interface VersionDiffProps {
+  base: VersionInfo;
+  head: VersionInfo;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<VersionFileChange['status'], { icon: string; className: string }> = {
+  added: { icon: '+', className: 'text-green-600 dark:text-green-400' },
+  removed: { icon: '−', className: 'text-red-600 dark:text-red-400' },
+  modified: { icon: '~', className: 'text-amber-600 dark:text-amber-400' },
+};
+
+export default function VersionDiff({ base, head, onClose }: VersionDiffProps) {
+  const [changes, setChanges] = useState<VersionFileChange[]>([]);
+  const [unchangedCount, setUnchangedCount] = useState(0);
+  const [selectedPath, setSelectedPath] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadDiff = async () => {
+      setIsLoading(true);
+      setError('');
+      try {
+        const response = await fetch(
+          `/api/versions/diff?base=${encodeURIComponent(base.id)}&head=${encodeURIComponent(head.id)}`
+        );
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `Error ${response.status}`);
+        }
+        setChanges(data.changes);
+        setUnchangedCount(data.unchangedCount);
+        setSelectedPath(data.changes[0]?.path ?? '');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to compare versions');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadDiff();
+  }, [base.id, head.id]);
+
+  const selected = changes.find(change => change.path === selectedPath);
+  const countOf = (status: VersionFileChange['status']) =>
+    changes.filter(change => change.status === status).length;
+
+  return (
+    <div className="mb-6 p-4 border rounded-lg">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h2 className="text-lg font-semibold">
+            {base.name} → {head.name}
+          </h2>
+          {!isLoading && !error && (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              <span className={STATUS_STYLES.added.className}>{countOf('added')} added</span>
+              {' • '}
+              <span className={STATUS_STYLES.removed.className}>{countOf('removed')} removed</span>
+              {' • '}
+              <span className={STATUS_STYLES.modified.className}>{countOf('modified')} modified</span>
+              {' • '}
+              {unchangedCount} unchanged
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-md bg-gray-200 px-3 py-1.5 text-sm text-gray-800 hover:bg-gray-300"
+        >
+          Close diff
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500">Comparing versions...</p>
+      ) : error ? (
+        <p className="text-red-600">{error}</p>
+      ) : changes.length === 0 ? (
+        <p className="text-gray-500 italic">The two versions have the same files.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <ul className="md:col-span-1 h-[500px] overflow-auto border rounded-md p-2 space-y-1 text-sm font-mono">
+            {changes.map(change => (
+              <li key={change.path}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedPath(change.path)}
+                  className={`w-full text-left truncate rounded px-1 ${
+                    change.path === selectedPath ? 'bg-blue-100 dark:bg-blue-900/40' : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`}
+                  title={change.path}
+                >
+                  <span className={`mr-2 ${STATUS_STYLES[change.status].className}`}>
+                    {STATUS_STYLES[change.status].icon}
+                  </span>
+                  {change.path}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="md:col-span-3">
+            {selected && (
+              <CodeEditor
+                code={selected.head ?? ''}
+                originalCode={selected.base ?? ''}
+                filePath={selected.path}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
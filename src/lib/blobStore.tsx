@@ -0,0 +1,155 @@
+/**
+ * Blob Store
+ * Content-addressed storage for crawled files, keyed by git blob SHA, plus
+ * crawl manifests (path -> blob SHA) for each snapshot of a repo. Crawls,
+ * saved versions and the repo cache reference manifests, so a file that's
+ * unchanged across crawls is downloaded and stored once.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { computeContentHash } from './repoCache';
+import { createScopedLogger } from './cacheLogger';
+
+const log = createScopedLogger('BlobStore');
+
+// cache/blobs/<first two hex chars>/<sha>, cache/manifests/<id>.json
+const BLOBS_DIR = path.join(process.cwd(), 'cache', 'blobs');
+const MANIFESTS_DIR = path.join(process.cwd(), 'cache', 'manifests');
+
+const BLOB_SHA_PATTERN = /^[0-9a-f]{40}$/;
+const MANIFEST_ID_PATTERN = /^[0-9a-f]{16}$/;
+
+export interface CrawlManifest {
+  id: string;
+  repoUrl: string;
+  commitSha?: string;
+  createdAt: string;
+  files: Record<string, string>;  // path -> blob SHA
+}
+
+function blobFile(sha: string): string {
+  return path.join(BLOBS_DIR, sha.substring(0, 2), sha);
+}
+
+function manifestFile(id: string): string {
+  return path.join(MANIFESTS_DIR, `${id}.json`);
+}
+
+/**
+ * The SHA git gives a file's content, which is what GitHub's tree, contents
+ * and compare APIs report - so a crawl can tell it has a file before downloading it
+ */
+export function gitBlobSha(content: string): string {
+  return crypto
+    .createHash('sha1')
+    .update(`blob ${Buffer.byteLength(content, 'utf-8')}\0`)
+    .update(content, 'utf-8')
+    .digest('hex');
+}
+
+/**
+ * Whether a blob is in the store
+ */
+export function hasBlob(sha: string): boolean {
+  return BLOB_SHA_PATTERN.test(sha) && fs.existsSync(blobFile(sha));
+}
+
+/**
+ * Read a blob's content, or null when it isn't stored
+ */
+export function readBlob(sha: string): string | null {
+  if (!hasBlob(sha)) return null;
+
+  try {
+    return fs.readFileSync(blobFile(sha), 'utf-8');
+  } catch (error) {
+    log.warn(`Failed to read blob ${sha}`, { error });
+    return null;
+  }
+}
+
+/**
+ * Store a file's content under its blob SHA (computed when not given) and
+ * return the SHA. Content that's already stored isn't written again.
+ */
+export function writeBlob(content: string, sha: string = gitBlobSha(content)): string {
+  if (!BLOB_SHA_PATTERN.test(sha)) {
+    throw new Error(`Invalid blob SHA: ${sha}`);
+  }
+
+  const filePath = blobFile(sha);
+  if (!fs.existsSync(filePath)) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf-8');
+  }
+  return sha;
+}
+
+/**
+ * Store a set of files and the manifest listing them. `blobShas` are SHAs
+ * already known for some paths (e.g. from GitHub's tree), so those files
+ * aren't hashed again. Identical snapshots get the same manifest ID.
+ */
+export function createManifest(
+  repoUrl: string,
+  files: Record<string, string>,
+  options: { commitSha?: string; blobShas?: Record<string, string> } = {}
+): CrawlManifest {
+  const manifestFiles: Record<string, string> = {};
+  for (const filePath of Object.keys(files).sort()) {
+    const knownSha = options.blobShas?.[filePath];
+    manifestFiles[filePath] = knownSha && hasBlob(knownSha)
+      ? knownSha
+      : writeBlob(files[filePath], knownSha);
+  }
+
+  const id = computeContentHash(JSON.stringify([repoUrl, options.commitSha ?? null, manifestFiles]));
+  const existing = loadManifest(id);
+  if (existing) return existing;
+
+  const manifest: CrawlManifest = {
+    id,
+    repoUrl,
+    commitSha: options.commitSha,
+    createdAt: new Date().toISOString(),
+    files: manifestFiles,
+  };
+
+  fs.mkdirSync(MANIFESTS_DIR, { recursive: true });
+  fs.writeFileSync(manifestFile(id), JSON.stringify(manifest));
+  log.save(`Saved manifest ${id}`, { repoUrl, files: Object.keys(manifestFiles).length });
+  return manifest;
+}
+
+/**
+ * Load a crawl manifest by ID
+ */
+export function loadManifest(id: string): CrawlManifest | null {
+  if (!MANIFEST_ID_PATTERN.test(id) || !fs.existsSync(manifestFile(id))) return null;
+
+  try {
+    return JSON.parse(fs.readFileSync(manifestFile(id), 'utf-8')) as CrawlManifest;
+  } catch (error) {
+    log.warn(`Failed to load manifest ${id}`, { error });
+    return null;
+  }
+}
+
+/**
+ * The files of a manifest with their content, or null when any of its blobs
+ * is no longer stored
+ */
+export function readManifestFiles(manifest: CrawlManifest): Record<string, string> | null {
+  const files: Record<string, string> = {};
+  for (const [filePath, sha] of Object.entries(manifest.files)) {
+    const content = readBlob(sha);
+    if (content === null) {
+      log.warn(`Blob ${sha} of manifest ${manifest.id} is missing`, { path: filePath });
+      return null;
+    }
+    files[filePath] = content;
+  }
+  return files;
+}
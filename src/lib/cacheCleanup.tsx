@@ -297,6 +297,9 @@ export function cleanupOrphanedFiles(dryRun = false): string[] {
   const files = fs.readdirSync(CACHE_DIR);
   
   for (const file of files) {
+    // Subdirectories (e.g. runs/ checkpoints) are managed separately
+    if (fs.statSync(path.join(CACHE_DIR, file)).isDirectory()) continue;
+
     if (!indexedFiles.has(file)) {
       orphanedFiles.push(file);
       
@@ -342,7 +345,7 @@ export function clearAllCache(): CleanupResult {
     const filePath = path.join(CACHE_DIR, file);
     try {
       const fileSize = getFileSize(filePath);
-      fs.unlinkSync(filePath);
+      fs.rmSync(filePath, { recursive: true, force: true });
       result.deletedFiles.push(file);
       result.freedSpaceMB += fileSize / (1024 * 1024);
     } catch (error) {
@@ -0,0 +1,52 @@
+/**
+ * Cancellation helpers
+ * A tutorial run is cancelled through an AbortSignal (`shared.abort_signal`);
+ * these helpers turn an aborted signal into a recognisable error.
+ */
+
+export class CancelledError extends Error {
+  constructor(message = 'Tutorial generation was cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Throw a CancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Whether an error was caused by cancelling (our own error, or an SDK/fetch abort)
+ */
+export function isCancelledError(error: unknown, signal?: AbortSignal): boolean {
+  if (error instanceof CancelledError) return true;
+  if (signal?.aborted) return true;
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'APIUserAbortError');
+}
+
+/**
+ * setTimeout as a promise that rejects with CancelledError as soon as the signal aborts
+ */
+export function cancellableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -96,6 +96,67 @@ export function detectFileChanges(
   return changes;
 }
 
+/**
+ * Detect file changes from the paths a commit comparison reported as changed.
+ * Files outside those paths are unchanged, so only the changed ones are hashed;
+ * additions and deletions still come from comparing the two sets of paths,
+ * which also covers include/exclude patterns changing between runs.
+ */
+export function detectFileChangesFromPaths(
+  currentFiles: CurrentFileData[],
+  cachedFiles: CachedFile[],
+  changedPaths: string[]
+): FileChange[] {
+  const changes: FileChange[] = [];
+  const changedSet = new Set(changedPaths);
+  
+  const cachedMap = new Map<string, CachedFile>();
+  for (const file of cachedFiles) {
+    cachedMap.set(file.path, file);
+  }
+  
+  const currentPaths = new Set<string>();
+  
+  for (const file of currentFiles) {
+    currentPaths.add(file.path);
+    const cached = cachedMap.get(file.path);
+    
+    if (!cached) {
+      changes.push({
+        path: file.path,
+        type: 'added',
+        newHash: computeContentHash(file.content),
+      });
+      log.debug('File added', { path: file.path });
+    } else if (changedSet.has(file.path)) {
+      const currentHash = computeContentHash(file.content);
+      // A commit can touch a file and leave its content as it was (e.g. a revert)
+      if (cached.contentHash !== currentHash) {
+        changes.push({
+          path: file.path,
+          type: 'modified',
+          oldHash: cached.contentHash,
+          newHash: currentHash,
+        });
+        log.debug('File modified', { path: file.path, oldHash: cached.contentHash, newHash: currentHash });
+      }
+    }
+  }
+  
+  for (const cached of cachedFiles) {
+    if (!currentPaths.has(cached.path)) {
+      changes.push({
+        path: cached.path,
+        type: 'deleted',
+        oldHash: cached.contentHash,
+      });
+      log.debug('File deleted', { path: cached.path });
+    }
+  }
+  
+  return changes;
+}
+
 /**
  * Determine which abstractions are affected by file changes
  */
@@ -182,11 +243,14 @@ export function findChaptersToRegenerate(
 }
 
 /**
- * Full change analysis for a repository
+ * Full change analysis for a repository. `changedPaths` are the files changed
+ * since the cache's commit, when known from a commit comparison; otherwise
+ * every file is compared by content hash.
  */
 export function analyzeChanges(
   currentFiles: CurrentFileData[],
-  cache: RepoCache | null
+  cache: RepoCache | null,
+  changedPaths?: string[]
 ): ChangeAnalysis {
   // No cache = full generation needed
   if (!cache) {
@@ -209,7 +273,9 @@ export function analyzeChanges(
   }
   
   // Detect file changes
-  const changes = detectFileChanges(currentFiles, cache.files);
+  const changes = changedPaths
+    ? detectFileChangesFromPaths(currentFiles, cache.files, changedPaths)
+    : detectFileChanges(currentFiles, cache.files);
   
   if (changes.length === 0) {
     log.info('No changes detected');
@@ -357,6 +423,7 @@ export function getChangeSummary(analysis: ChangeAnalysis): {
 
 export default {
   detectFileChanges,
+  detectFileChangesFromPaths,
   findAffectedAbstractions,
   findChaptersToRegenerate,
   analyzeChanges,
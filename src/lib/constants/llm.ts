@@ -295,6 +295,80 @@ export const DEFAULT_MODELS: Record<ProviderId, string> = {
   [PROVIDER_IDS.OLLAMA]: OLLAMA_MODELS.LLAMA_32,
 };
 
+// ============================================================================
+// SUMMARY MODELS PER PROVIDER (cheap models for per-file summaries)
+// ============================================================================
+
+// Providers without an entry (Azure deployments, OpenRouter, Ollama) use the selected model
+export const SUMMARY_MODELS: Partial<Record<ProviderId, string>> = {
+  [PROVIDER_IDS.OPENAI]: OPENAI_MODELS.GPT_4_1_NANO,
+  [PROVIDER_IDS.ANTHROPIC]: ANTHROPIC_MODELS.CLAUDE_HAIKU_45,
+  [PROVIDER_IDS.GOOGLE]: GOOGLE_MODELS.GEMINI_25_FLASH_LITE,
+  [PROVIDER_IDS.GROQ]: GROQ_MODELS.LLAMA_31_8B,
+  [PROVIDER_IDS.DEEPSEEK]: DEEPSEEK_MODELS.DEEPSEEK_CHAT,
+  [PROVIDER_IDS.XAI]: XAI_MODELS.GROK_3_MINI,
+};
+
+// ============================================================================
+// PIPELINE STAGES (each can be routed to its own provider/model)
+// ============================================================================
+
+export const LLM_STAGES = {
+  SUMMARIES: 'summaries',
+  ABSTRACTIONS: 'abstractions',
+  RELATIONSHIPS: 'relationships',
+  ORDERING: 'ordering',
+  CHAPTERS: 'chapters',
+} as const;
+
+export type LLMStage = typeof LLM_STAGES[keyof typeof LLM_STAGES];
+
+export const LLM_STAGE_NAMES: Record<LLMStage, string> = {
+  [LLM_STAGES.SUMMARIES]: 'File summaries',
+  [LLM_STAGES.ABSTRACTIONS]: 'Identify abstractions',
+  [LLM_STAGES.RELATIONSHIPS]: 'Analyze relationships',
+  [LLM_STAGES.ORDERING]: 'Order chapters',
+  [LLM_STAGES.CHAPTERS]: 'Write chapters',
+};
+
+export interface StageModelConfig {
+  provider: string;
+  model?: string; // Unset: the provider's default (its summary model for the summaries stage)
+  apiKey?: string; // Request only; never checkpointed
+  baseUrl?: string;
+}
+
+// Stages without an entry use the main provider/model
+export type StageModelMap = Partial<Record<LLMStage, StageModelConfig>>;
+
+// ============================================================================
+// PROMPT SIZES (used by the pipeline nodes and simulated by the Cost Estimator)
+// ============================================================================
+
+// Default for max_abstraction_num, i.e. the number of chapters
+export const DEFAULT_MAX_ABSTRACTIONS = 10;
+
+// File summaries: files per summary prompt (the map step); summaries are cached per file
+export const SUMMARY_BATCH_FILES = 20;
+// The summary model only sees the start of very large files
+export const MAX_SUMMARY_SOURCE_TOKENS = 3000;
+// Rough size of the summary prompt without the files, and of each summary
+export const SUMMARY_PROMPT_TOKENS = 500;
+export const SUMMARY_OUTPUT_TOKENS_PER_FILE = 150;
+
+// Abstractions: upper bound on map prompts for a repo too large for a single prompt
+export const MAX_ABSTRACTION_CHUNKS = 6;
+// Rough size of the abstraction prompt without the code context
+export const ABSTRACTION_PROMPT_TOKENS = 800;
+
+// Rough size of the relationships prompt without the context
+export const RELATIONSHIPS_PROMPT_TOKENS = 700;
+
+// Rough size of the chapter-writing prompt's instructions
+export const WRITE_CHAPTER_PROMPT_TOKENS = 1500;
+// Earlier chapters may use at most this share of the context window
+export const MAX_PREVIOUS_CHAPTERS_SHARE = 1 / 3;
+
 // ============================================================================
 // RECOMMENDED MODELS (shown with badge in UI)
 // ============================================================================
@@ -577,6 +651,13 @@ export function getDefaultModel(providerId: string): string {
   return DEFAULT_MODELS[providerId as ProviderId] || '';
 }
 
+/**
+ * Get the cheap model used for per-file summaries, falling back to the selected model
+ */
+export function getSummaryModel(providerId: string, selectedModel?: string): string | undefined {
+  return SUMMARY_MODELS[providerId as ProviderId] || selectedModel;
+}
+
 /**
  * Check if a model is recommended for its provider
  */
@@ -0,0 +1,380 @@
+/**
+ * Context Planner
+ * Fits repository files into a model's context window: ranks files by
+ * importance, then packs them in full, truncated, as a file summary or as a
+ * declaration outline until the token budget is used up. Repos that don't fit
+ * in one prompt are split into chunks for a map-reduce pass.
+ */
+
+import * as path from 'path';
+import { getModel, getProvider } from './providers';
+import { getModelContextWindow } from './constants/llm';
+
+// Rough token estimate; good enough for budgeting across providers
+const CHARS_PER_TOKEN = 4;
+// Leave headroom for estimate error and provider-side formatting
+const CONTEXT_SAFETY_RATIO = 0.9;
+// Output tokens callLLM asks for by default
+const DEFAULT_OUTPUT_TOKENS = 4096;
+const MIN_BUDGET_TOKENS = 1000;
+// One file may take at most this share of a budget before it is truncated
+const MAX_FILE_SHARE = 0.25;
+// Don't bother truncating a file to less than this
+const MIN_TRUNCATED_TOKENS = 200;
+const MAX_OUTLINE_LINES = 60;
+
+export type PackMode = 'full' | 'truncated' | 'summary' | 'outline';
+
+export interface ContextFile {
+  index: number; // Index into shared.files
+  path: string;
+  content: string;
+  summary?: string; // Pre-computed file summary, preferred over an outline
+}
+
+export interface PackedFile extends ContextFile {
+  mode: PackMode;
+  tokens: number;
+}
+
+export interface PackedContext {
+  files: PackedFile[];
+  omitted: ContextFile[];
+  usedTokens: number;
+  budgetTokens: number;
+}
+
+export interface ContextBudgetOptions {
+  provider?: string;
+  model?: string;
+  reservedTokens?: number; // Prompt text other than the packed files
+  outputTokens?: number;
+}
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Context window of a model, using the same model resolution as callLLM
+ */
+export function getContextWindow(providerId?: string, modelId?: string): number {
+  const provider = providerId ? getProvider(providerId) : undefined;
+  const resolvedModelId = modelId || provider?.models[0]?.id;
+  if (!resolvedModelId) return getModelContextWindow('');
+
+  const model = providerId ? getModel(providerId, resolvedModelId) : undefined;
+  return model?.contextWindow ?? getModelContextWindow(resolvedModelId);
+}
+
+/**
+ * Tokens available for packed file content in a single prompt
+ */
+export function getContextBudget(options: ContextBudgetOptions): number {
+  const contextWindow = getContextWindow(options.provider, options.model);
+  const budget = Math.floor(contextWindow * CONTEXT_SAFETY_RATIO)
+    - (options.outputTokens ?? DEFAULT_OUTPUT_TOKENS)
+    - (options.reservedTokens ?? 0);
+  return Math.max(MIN_BUDGET_TOKENS, budget);
+}
+
+/**
+ * Cut text down to roughly `maxTokens`, on line boundaries.
+ * `keep: 'end'` keeps the tail instead (e.g. the most recent chapters).
+ */
+export function truncateToTokens(text: string, maxTokens: number, keep: 'start' | 'end' = 'start'): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  const lines = text.split('\n');
+  const kept: string[] = [];
+  let tokens = 0;
+  const ordered = keep === 'start' ? lines : [...lines].reverse();
+
+  for (const line of ordered) {
+    const lineTokens = estimateTokens(line + '\n');
+    if (tokens + lineTokens > maxTokens) {
+      // A single huge line (minified code, data) is cut mid-line rather than dropped
+      if (kept.length === 0) {
+        const maxChars = maxTokens * CHARS_PER_TOKEN;
+        kept.push(keep === 'start' ? line.slice(0, maxChars) : line.slice(-maxChars));
+      }
+      break;
+    }
+    kept.push(line);
+    tokens += lineTokens;
+  }
+
+  const dropped = lines.length - kept.length;
+  if (keep === 'start') {
+    return `${kept.join('\n')}\n... [truncated${dropped > 0 ? `: ${dropped} more lines` : ''}]`;
+  }
+  return `... [${dropped > 0 ? `${dropped} earlier lines omitted` : 'truncated'}]\n${kept.reverse().join('\n')}`;
+}
+
+// Declarations worth keeping in an outline, across common languages
+const DECLARATION_PATTERN = /^\s*(export\s|pub\s|pub\(|public\s|async\s+function|function\s|def\s|class\s|interface\s|type\s+\w+\s*=|enum\s|struct\s|trait\s|impl\s|fn\s|func\s|module\s|namespace\s|const\s+\w+\s*=\s*(async\s*)?\()/;
+
+/**
+ * Cheap structural summary of a file: its declarations without bodies
+ */
+export function outlineFile(content: string): string {
+  const lines = content.split('\n');
+  const declarations = lines
+    .filter(line => DECLARATION_PATTERN.test(line))
+    .map(line => line.trimEnd());
+
+  const shown = declarations.slice(0, MAX_OUTLINE_LINES);
+  const header = `[outline: ${shown.length} declarations of ${lines.length} lines]`;
+  if (shown.length === 0) {
+    return `${header}\n${truncateToTokens(content, MIN_TRUNCATED_TOKENS)}`;
+  }
+  return `${header}\n${shown.join('\n')}`;
+}
+
+/* -------------------------------------------------------------------------
+ * Ranking
+ * ------------------------------------------------------------------------- */
+
+const ENTRY_POINT_PATTERN = /^(index|main|app|server|cli|lib|mod|__init__|__main__|manage|program|startup)\.[a-z0-9]+$/i;
+const MANIFEST_FILES = new Set(['package.json', 'setup.py', 'pyproject.toml', 'cargo.toml', 'go.mod', 'pom.xml', 'build.gradle', 'readme.md']);
+const LOW_PRIORITY_PATTERN = /(^|\/)(tests?|__tests__|spec|specs|fixtures|mocks?|__mocks__|examples?|dist|build|vendor|generated)\/|\.(test|spec|min)\.[a-z0-9]+$|\.d\.ts$|(^|\/)[^/]*lock[^/]*$/i;
+const IMPORT_PATTERNS = [
+  /import\s+(?:[^'"]*?\s+from\s+)?['"]([^'"]+)['"]/g, // ES modules
+  /require\(\s*['"]([^'"]+)['"]\s*\)/g, // CommonJS
+  /^\s*from\s+([\w.]+)\s+import\s/gm, // Python
+  /^\s*import\s+([\w.]+)\s*$/gm, // Python / Java-like
+];
+
+function stripExtension(filePath: string): string {
+  const withoutExt = filePath.replace(/\.[a-z0-9]+$/i, '');
+  return withoutExt.replace(/\/(index|__init__|mod)$/i, '');
+}
+
+/**
+ * Count how many other files import each file (import fan-in)
+ */
+function computeFanIn(files: [string, string][]): number[] {
+  // Every path suffix ("lib/nodes", "nodes") -> file indices, for non-relative imports
+  const bySuffix = new Map<string, number[]>();
+  files.forEach(([filePath], index) => {
+    const segments = stripExtension(filePath).split('/');
+    for (let i = 0; i < segments.length; i++) {
+      const suffix = segments.slice(i).join('/');
+      const indices = bySuffix.get(suffix);
+      if (indices) {
+        indices.push(index);
+      } else {
+        bySuffix.set(suffix, [index]);
+      }
+    }
+  });
+
+  const fanIn = new Array<number>(files.length).fill(0);
+  files.forEach(([filePath, content], importer) => {
+    const targets = new Set<number>();
+    for (const pattern of IMPORT_PATTERNS) {
+      for (const match of content.matchAll(pattern)) {
+        let spec = match[1];
+        if (/^\.{1,2}\//.test(spec)) {
+          spec = path.posix.join(path.posix.dirname(filePath), spec);
+        } else if (spec.startsWith('.')) {
+          // Python relative import: each extra leading dot is one level up
+          const dots = spec.match(/^\.+/)![0].length;
+          let base = path.posix.dirname(filePath);
+          for (let i = 1; i < dots; i++) base = path.posix.dirname(base);
+          spec = path.posix.join(base, spec.slice(dots).replace(/\./g, '/'));
+        } else {
+          // Path aliases (@/lib/x, ~/x) and Python dotted modules
+          spec = spec.replace(/^[@~]\//, '').replace(/\./g, '/');
+        }
+        const candidates = bySuffix.get(stripExtension(spec));
+        // Ambiguous short names (e.g. "utils") would inflate unrelated files
+        if (candidates && candidates.length <= 3) {
+          for (const target of candidates) {
+            if (target !== importer) targets.add(target);
+          }
+        }
+      }
+    }
+    targets.forEach(target => fanIn[target]++);
+  });
+
+  return fanIn;
+}
+
+function scoreFile(filePath: string, content: string, fanIn: number): number {
+  const basename = path.posix.basename(filePath);
+  const depth = filePath.split('/').length - 1;
+  const tokens = estimateTokens(content);
+
+  let score = Math.min(fanIn, 20) * 1.5;
+  if (ENTRY_POINT_PATTERN.test(basename)) score += 5;
+  if (MANIFEST_FILES.has(basename.toLowerCase())) score += 4;
+  score += Math.max(0, 3 - depth);
+  if (LOW_PRIORITY_PATTERN.test(filePath)) score -= 6;
+  if (tokens < 30) score -= 1;
+  if (tokens > 8000) score -= 2;
+  if (tokens > 20000) score -= 3;
+  return score;
+}
+
+const rankingCache = new WeakMap<[string, string][], number[]>();
+
+/**
+ * File indices ordered from most to least important.
+ * Cached per files array, since every node ranks the same repo.
+ */
+export function rankFiles(files: [string, string][]): number[] {
+  const cached = rankingCache.get(files);
+  if (cached) return cached;
+
+  const fanIn = computeFanIn(files);
+  const scores = files.map(([filePath, content], index) => scoreFile(filePath, content, fanIn[index]));
+  const ranking = files
+    .map((_, index) => index)
+    .sort((a, b) => scores[b] - scores[a] || a - b);
+
+  rankingCache.set(files, ranking);
+  return ranking;
+}
+
+/**
+ * Order a subset of file indices by importance
+ */
+export function orderByRank(files: [string, string][], indices: number[]): number[] {
+  const position = new Map(rankFiles(files).map((fileIndex, rank) => [fileIndex, rank]));
+  return [...indices].sort((a, b) => (position.get(a) ?? Infinity) - (position.get(b) ?? Infinity));
+}
+
+/* -------------------------------------------------------------------------
+ * Packing
+ * ------------------------------------------------------------------------- */
+
+/**
+ * Pack files (most important first) into a token budget.
+ * Each file goes in whole if it fits; otherwise the more important half is
+ * truncated and the rest reduced to its summary (when there is one) or an
+ * outline; what still doesn't fit is omitted.
+ */
+export function packFiles(files: ContextFile[], budgetTokens: number): PackedContext {
+  const perFileCap = Math.max(MIN_TRUNCATED_TOKENS, Math.floor(budgetTokens * MAX_FILE_SHARE));
+  const packed: PackedFile[] = [];
+  const omitted: ContextFile[] = [];
+  let remaining = budgetTokens;
+
+  files.forEach((file, position) => {
+    const fullTokens = estimateTokens(file.content);
+    const highPriority = position < Math.ceil(files.length / 2);
+
+    if (fullTokens <= Math.min(perFileCap, remaining)) {
+      packed.push({ ...file, mode: 'full', tokens: fullTokens });
+      remaining -= fullTokens;
+      return;
+    }
+
+    const truncateTo = Math.min(perFileCap, remaining);
+    if (highPriority && truncateTo >= MIN_TRUNCATED_TOKENS) {
+      const content = truncateToTokens(file.content, truncateTo);
+      const tokens = estimateTokens(content);
+      packed.push({ ...file, content, mode: 'truncated', tokens });
+      remaining -= tokens;
+      return;
+    }
+
+    if (file.summary) {
+      const summaryTokens = estimateTokens(file.summary);
+      if (summaryTokens <= remaining) {
+        packed.push({ ...file, content: file.summary, mode: 'summary', tokens: summaryTokens });
+        remaining -= summaryTokens;
+        return;
+      }
+    }
+
+    const outline = outlineFile(file.content);
+    const outlineTokens = estimateTokens(outline);
+    if (outlineTokens <= remaining) {
+      packed.push({ ...file, content: outline, mode: 'outline', tokens: outlineTokens });
+      remaining -= outlineTokens;
+      return;
+    }
+
+    omitted.push(file);
+  });
+
+  return {
+    files: packed,
+    omitted,
+    usedTokens: budgetTokens - remaining,
+    budgetTokens,
+  };
+}
+
+/**
+ * Plan the chunks for a map-reduce pass over the repo.
+ * Returns a single chunk when everything fits in one prompt, with file
+ * summaries standing in for what doesn't fit in full. Otherwise files
+ * are packed into at most `maxChunks` budgets and grouped by path so related
+ * files share a chunk.
+ */
+export function planContextChunks(
+  files: ContextFile[],
+  budgetTokens: number,
+  maxChunks: number
+): { chunks: PackedFile[][]; omitted: ContextFile[] } {
+  const totalTokens = files.reduce((sum, file) => sum + estimateTokens(file.content), 0);
+  if (totalTokens <= budgetTokens) {
+    const packed = packFiles(files, budgetTokens);
+    return { chunks: [packed.files], omitted: packed.omitted };
+  }
+
+  // Summaries of the files that don't fit may still cover the repo in one prompt
+  if (files.some(file => file.summary)) {
+    const packed = packFiles(files, budgetTokens);
+    if (packed.omitted.length === 0 && packed.files.every(file => file.mode !== 'outline')) {
+      return { chunks: [packed.files], omitted: [] };
+    }
+  }
+
+  // Let single files use up to a whole chunk, not a share of the combined budget
+  const packed = packFiles(files, budgetTokens * maxChunks);
+  const byPath = [...packed.files].sort((a, b) => a.path.localeCompare(b.path));
+
+  const chunks: PackedFile[][] = [];
+  let current: PackedFile[] = [];
+  let currentTokens = 0;
+  for (const file of byPath) {
+    const entry = file.tokens > budgetTokens
+      ? { ...file, content: truncateToTokens(file.content, budgetTokens), mode: 'truncated' as const, tokens: budgetTokens }
+      : file;
+    if (current.length > 0 && currentTokens + entry.tokens > budgetTokens) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(entry);
+    currentTokens += entry.tokens;
+  }
+  if (current.length > 0) chunks.push(current);
+
+  return { chunks, omitted: packed.omitted };
+}
+
+/**
+ * Short note for the prompt about how files were reduced, or '' if all are complete
+ */
+export function describePacking(files: PackedFile[], omitted: ContextFile[]): string {
+  const truncated = files.filter(file => file.mode === 'truncated').length;
+  const summarised = files.filter(file => file.mode === 'summary').length;
+  const outlined = files.filter(file => file.mode === 'outline').length;
+  if (truncated === 0 && summarised === 0 && outlined === 0 && omitted.length === 0) return '';
+
+  const parts: string[] = [];
+  if (truncated > 0) parts.push(`${truncated} truncated`);
+  if (summarised > 0) parts.push(`${summarised} replaced by summaries`);
+  if (outlined > 0) parts.push(`${outlined} shown as outlines (declarations only)`);
+  if (omitted.length > 0) parts.push(`${omitted.length} omitted`);
+  return `Note: to fit the context window, some files are abridged: ${parts.join(', ')}.`;
+}
@@ -1,95 +1,528 @@
 /**
  * Cost Estimator
- * Estimates LLM API costs for tutorial generation based on repo size
+ * Estimates LLM API costs for tutorial generation by simulating the prompts
+ * the pipeline nodes build from the selected files: the same ranking, context
+ * budgets and packing (see contextPlanner), counted with each stage model's
+ * tokenizer. Each stage is priced with the model it runs on (see
+ * `stage_models`) and gets its own confidence range, since what the model
+ * writes, and which files each abstraction uses, are only known during the run.
  */
 
 import { getProvider, getModel, type LLMModel } from './providers';
+import {
+  estimateTokens as estimateBudgetTokens,
+  getContextBudget,
+  packFiles,
+  planContextChunks,
+  rankFiles,
+  type ContextFile,
+  type PackedFile,
+} from './contextPlanner';
+import {
+  countTokens,
+  getDefaultCharsPerToken,
+  getTokenizerFamily,
+  isApproximateTokenizer,
+  measureCharsPerToken,
+  type TokenizerFamily,
+} from './tokenizer';
+import {
+  LLM_STAGES,
+  getSummaryModel,
+  SUMMARY_BATCH_FILES,
+  MAX_SUMMARY_SOURCE_TOKENS,
+  SUMMARY_PROMPT_TOKENS,
+  SUMMARY_OUTPUT_TOKENS_PER_FILE,
+  MAX_ABSTRACTION_CHUNKS,
+  ABSTRACTION_PROMPT_TOKENS,
+  RELATIONSHIPS_PROMPT_TOKENS,
+  WRITE_CHAPTER_PROMPT_TOKENS,
+  MAX_PREVIOUS_CHAPTERS_SHARE,
+  type LLMStage,
+  type StageModelMap,
+} from './constants/llm';
+
+export interface StageTokens {
+  inputTokens: number;
+  outputTokens: number;
+}
 
 export interface TokenEstimate {
   inputTokens: number;
   outputTokens: number;
   breakdown: {
     fileContent: number;
+    summaryPrompts: number;
     abstractionPrompts: number;
     relationshipPrompts: number;
     chapterPrompts: number;
     orderingPrompts: number;
   };
+  // The file summary pre-pass is only included when it would run
+  byStage: Partial<Record<LLMStage, StageTokens>>;
+}
+
+export interface StageCostEstimate {
+  stage: LLMStage;
+  provider: string;
+  model: string;
+  tokens: StageTokens;
+  calls: number; // LLM calls the stage makes
+  tokenizer: TokenizerFamily;
+  approximateTokenizer: boolean; // Counted with an approximation of the model's tokenizer
+  cost: number;
+  costLow: number;
+  costHigh: number;
+  priced: boolean; // False for models without known pricing (counted as free)
 }
 
 export interface CostEstimate {
   provider: string;
   model: string;
   tokens: TokenEstimate;
-  costLow: number;      // -20% estimate
+  costLow: number;      // Sum of the stages' low ends
   costEstimated: number; // Base estimate
-  costHigh: number;     // +20% estimate
+  costHigh: number;     // Sum of the stages' high ends
   isFree: boolean;
   formattedCost: string;
+  stages?: StageCostEstimate[];
 }
 
-// Average tokens per character (rough estimate)
-const TOKENS_PER_CHAR = 0.25;
+export interface EstimateOptions {
+  language?: string; // Output language; other languages take more tokens than English
+  summarizeFiles?: boolean; // Like `summarize_files`: unset summarises repos too large for one prompt
+  chapterConcurrency?: number; // Parallel chapters see an outline of the others instead of their text
+  sizeOnly?: boolean; // Only the files' sizes are known; their contents are placeholders
+}
 
-// Overhead multiplier for prompt templates
-const PROMPT_OVERHEAD = 1.3;
+// Output tokens the model writes per item it is asked for
+const OUTPUT_TOKENS = {
+  abstraction: 200,          // Name, description and file indices
+  relationshipsSummary: 250, // The project summary
+  relationship: 40,          // One labelled relationship
+  ordering: 50,              // The ordered list, plus ORDERING_OUTPUT_PER_CHAPTER
+  chapter: 3000,             // Per chapter content
+};
+const ORDERING_OUTPUT_PER_CHAPTER = 10;
+
+// Prompt text the nodes add around the files
+const ORDERING_PROMPT_TOKENS = 500;
+const ABSTRACTION_LISTING_TOKENS = 80; // One abstraction with its description
+const CHAPTER_LISTING_TOKENS = 15;     // One "N. [Name](file.md)" entry
+const CHAPTER_OUTLINE_TOKENS = 60;     // One entry of the outline given to parallel chapters
+const FILE_HEADER_CHARS = 40;          // "--- File Index N: path (mode) ---"
+
+// Files an abstraction typically references; which ones is decided by the model
+const FILES_PER_ABSTRACTION = 5;
+
+// Output tokens in other languages, relative to English
+const LANGUAGE_OUTPUT_FACTORS: Record<string, number> = {
+  english: 1,
+  spanish: 1.3,
+  french: 1.3,
+  portuguese: 1.3,
+  italian: 1.3,
+  german: 1.35,
+  russian: 1.8,
+  ukrainian: 1.9,
+  chinese: 1.5,
+  japanese: 1.6,
+  korean: 1.7,
+  arabic: 2,
+  hindi: 2.5,
+};
+const DEFAULT_LANGUAGE_OUTPUT_FACTOR = 1.5;
 
-// Average output tokens per prompt type
-const OUTPUT_ESTIMATES = {
-  abstraction: 2000,    // List of abstractions
-  relationship: 1500,   // Dependency analysis
-  ordering: 500,        // Chapter ordering
-  chapter: 3000,        // Per chapter content
+// How far actual usage tends to land from the estimate, as a share of it.
+// Abstractions see the whole repo; later stages depend on the model's choices.
+const STAGE_UNCERTAINTY: Record<LLMStage, { input: number; output: number }> = {
+  [LLM_STAGES.SUMMARIES]: { input: 0.05, output: 0.3 },
+  [LLM_STAGES.ABSTRACTIONS]: { input: 0.05, output: 0.4 },
+  [LLM_STAGES.RELATIONSHIPS]: { input: 0.25, output: 0.5 },
+  [LLM_STAGES.ORDERING]: { input: 0.3, output: 0.5 },
+  [LLM_STAGES.CHAPTERS]: { input: 0.3, output: 0.5 },
 };
+// Added on top when the tokenizer is approximated, or only file sizes are known
+const APPROXIMATE_TOKENIZER_UNCERTAINTY = 0.1;
+const SIZE_ONLY_UNCERTAINTY = 0.2;
+
+/* -------------------------------------------------------------------------
+ * Prompt simulation
+ * ------------------------------------------------------------------------- */
+
+// The provider/model a stage runs on, and how its tokenizer reads this repo
+interface StageRoute {
+  providerId: string;
+  modelId?: string;
+  model?: LLMModel;
+  tokenizer: TokenizerFamily;
+  charsPerToken: number;
+}
+
+interface SimulatedStage {
+  stage: LLMStage;
+  route: StageRoute;
+  calls: number;
+  tokens: StageTokens;
+}
+
+// The repo as the nodes see it
+interface SimulatedRepo {
+  files: [string, string][];
+  ranked: ContextFile[]; // Most important first
+  fileListing: string;
+}
+
+// Files arrays as the nodes' [path, content] pairs, so rankFiles' cache is reused
+const filesDataCache = new WeakMap<Array<{ path: string; content: string }>, [string, string][]>();
+
+function toFilesData(fileContents: Array<{ path: string; content: string }>): [string, string][] {
+  let filesData = filesDataCache.get(fileContents);
+  if (!filesData) {
+    filesData = fileContents.map(({ path, content }) => [path, content]);
+    filesDataCache.set(fileContents, filesData);
+  }
+  return filesData;
+}
+
+function getLanguageOutputFactor(language?: string): number {
+  if (!language) return 1;
+  return LANGUAGE_OUTPUT_FACTORS[language.trim().toLowerCase()] ?? DEFAULT_LANGUAGE_OUTPUT_FACTOR;
+}
 
 /**
- * Estimate tokens needed for a repo
+ * The model a stage runs on, resolved like the nodes' getStageLLM
  */
-export function estimateTokens(
+function resolveStageRoute(
+  providerId: string,
+  modelId: string,
+  stage: LLMStage,
+  stageModels: StageModelMap | undefined,
+  files: [string, string][],
+  sizeOnly: boolean
+): StageRoute {
+  const assigned = stageModels?.[stage];
+  const stageProviderId = assigned?.provider || providerId;
+  let stageModelId: string | undefined;
+  if (assigned?.provider) {
+    // Like callLLM, a stage without a model runs on the provider's first model
+    stageModelId = assigned.model
+      || (stage === LLM_STAGES.SUMMARIES ? getSummaryModel(stageProviderId) : undefined)
+      || getProvider(stageProviderId)?.models[0]?.id;
+  } else {
+    stageModelId = stage === LLM_STAGES.SUMMARIES ? getSummaryModel(providerId, modelId) : modelId;
+  }
+
+  const tokenizer = getTokenizerFamily(stageProviderId, stageModelId);
+  return {
+    providerId: stageProviderId,
+    modelId: stageModelId,
+    model: stageModelId ? getModel(stageProviderId, stageModelId) : undefined,
+    tokenizer,
+    charsPerToken: sizeOnly
+      ? getDefaultCharsPerToken(tokenizer)
+      : measureCharsPerToken(files.map(([, content]) => content), tokenizer),
+  };
+}
+
+function contentTokens(chars: number, route: StageRoute): number {
+  return Math.ceil(chars / route.charsPerToken);
+}
+
+/**
+ * Tokens of packed files as the nodes format them, one header per file
+ */
+function packedTokens(files: PackedFile[], route: StageRoute): number {
+  return files.reduce(
+    (sum, file) => sum + contentTokens(file.content.length + file.path.length + FILE_HEADER_CHARS, route),
+    0
+  );
+}
+
+/**
+ * The files an abstraction is likely to reference: a spread over the ranking,
+ * since each abstraction covers its own part of the repo
+ */
+function filesForAbstraction(ranked: ContextFile[], abstraction: number, abstractions: number): ContextFile[] {
+  if (ranked.length === 0) return [];
+  const picked = new Set<number>();
+  for (let i = 0; i < FILES_PER_ABSTRACTION; i++) {
+    picked.add((abstraction + i * abstractions) % ranked.length);
+  }
+  return [...picked].sort((a, b) => a - b).map(rank => ranked[rank]);
+}
+
+/**
+ * Whether SummarizeFiles would run: when asked to, or by default when the
+ * repo doesn't fit the abstraction prompt
+ */
+function wouldSummarize(
+  files: [string, string][],
+  fileListing: string,
+  abstractionsRoute: StageRoute,
+  summarizeFiles?: boolean
+): boolean {
+  if (summarizeFiles !== undefined) return summarizeFiles;
+  const budget = getContextBudget({
+    provider: abstractionsRoute.providerId,
+    model: abstractionsRoute.modelId,
+    reservedTokens: ABSTRACTION_PROMPT_TOKENS + estimateBudgetTokens(fileListing),
+  });
+  const totalTokens = files.reduce((sum, [, content]) => sum + estimateBudgetTokens(content), 0);
+  return totalTokens > budget;
+}
+
+function simulateSummaries(repo: SimulatedRepo, route: StageRoute): SimulatedStage {
+  // Batches are filled like SummarizeFiles does; cached summaries would make this cheaper
+  const budget = getContextBudget({
+    provider: route.providerId,
+    model: route.modelId,
+    reservedTokens: SUMMARY_PROMPT_TOKENS,
+    outputTokens: SUMMARY_BATCH_FILES * SUMMARY_OUTPUT_TOKENS_PER_FILE,
+  });
+  const maxSourceChars = Math.floor(MAX_SUMMARY_SOURCE_TOKENS * route.charsPerToken);
+  let calls = 0;
+  let inputTokens = 0;
+  let batchFiles = 0;
+  let batchTokens = 0;
+  for (const [path, content] of repo.files) {
+    const tokens = Math.min(estimateBudgetTokens(content), MAX_SUMMARY_SOURCE_TOKENS);
+    if (batchFiles === 0 || batchFiles >= SUMMARY_BATCH_FILES || batchTokens + tokens > budget) {
+      calls++;
+      inputTokens += SUMMARY_PROMPT_TOKENS;
+      batchFiles = 0;
+      batchTokens = 0;
+    }
+    batchFiles++;
+    batchTokens += tokens;
+    inputTokens += contentTokens(Math.min(content.length, maxSourceChars) + path.length + FILE_HEADER_CHARS, route);
+  }
+
+  return {
+    stage: LLM_STAGES.SUMMARIES,
+    route,
+    calls,
+    tokens: { inputTokens, outputTokens: repo.files.length * SUMMARY_OUTPUT_TOKENS_PER_FILE },
+  };
+}
+
+function simulateAbstractions(repo: SimulatedRepo, route: StageRoute, abstractions: number, languageFactor: number): SimulatedStage {
+  const budget = getContextBudget({
+    provider: route.providerId,
+    model: route.modelId,
+    reservedTokens: ABSTRACTION_PROMPT_TOKENS + estimateBudgetTokens(repo.fileListing),
+  });
+  const { chunks } = planContextChunks(repo.ranked, budget, MAX_ABSTRACTION_CHUNKS);
+  const outputPerCall = Math.ceil(abstractions * OUTPUT_TOKENS.abstraction * languageFactor);
+  const listingTokens = countTokens(repo.fileListing, route.tokenizer);
+
+  if (chunks.length <= 1) {
+    return {
+      stage: LLM_STAGES.ABSTRACTIONS,
+      route,
+      calls: 1,
+      tokens: {
+        inputTokens: ABSTRACTION_PROMPT_TOKENS + listingTokens + packedTokens(chunks[0] ?? [], route),
+        outputTokens: outputPerCall,
+      },
+    };
+  }
+
+  // Map: one prompt per chunk, listing only its own files
+  let inputTokens = 0;
+  for (const chunk of chunks) {
+    const chunkListingTokens = Math.ceil(listingTokens * (chunk.length / Math.max(1, repo.files.length)));
+    inputTokens += ABSTRACTION_PROMPT_TOKENS + chunkListingTokens + packedTokens(chunk, route);
+  }
+  // Reduce: merge the candidates of every chunk
+  inputTokens += ABSTRACTION_PROMPT_TOKENS + chunks.length * outputPerCall;
+
+  return {
+    stage: LLM_STAGES.ABSTRACTIONS,
+    route,
+    calls: chunks.length + 1,
+    tokens: { inputTokens, outputTokens: outputPerCall * (chunks.length + 1) },
+  };
+}
+
+function simulateRelationships(repo: SimulatedRepo, route: StageRoute, abstractions: number, languageFactor: number): SimulatedStage {
+  const listingTokens = Math.ceil(abstractions * ABSTRACTION_LISTING_TOKENS * languageFactor);
+  const relevant = new Map<number, ContextFile>();
+  for (let i = 0; i < abstractions; i++) {
+    filesForAbstraction(repo.ranked, i, abstractions).forEach(file => relevant.set(file.index, file));
+  }
+  const rankOf = new Map(repo.ranked.map((file, rank) => [file.index, rank]));
+  const relevantFiles = [...relevant.values()].sort((a, b) => rankOf.get(a.index)! - rankOf.get(b.index)!);
+
+  const budget = getContextBudget({
+    provider: route.providerId,
+    model: route.modelId,
+    reservedTokens: RELATIONSHIPS_PROMPT_TOKENS + listingTokens,
+  });
+  const packed = packFiles(relevantFiles, budget);
+
+  return {
+    stage: LLM_STAGES.RELATIONSHIPS,
+    route,
+    calls: 1,
+    tokens: {
+      inputTokens: RELATIONSHIPS_PROMPT_TOKENS + listingTokens + packedTokens(packed.files, route),
+      outputTokens: Math.ceil((OUTPUT_TOKENS.relationshipsSummary + abstractions * OUTPUT_TOKENS.relationship) * languageFactor),
+    },
+  };
+}
+
+function simulateOrdering(route: StageRoute, abstractions: number, languageFactor: number): SimulatedStage {
+  // The abstractions, the project summary and the relationships
+  const contextTokens = Math.ceil(
+    (abstractions * CHAPTER_LISTING_TOKENS + OUTPUT_TOKENS.relationshipsSummary + abstractions * OUTPUT_TOKENS.relationship) *
+      languageFactor
+  );
+  return {
+    stage: LLM_STAGES.ORDERING,
+    route,
+    calls: 1,
+    tokens: {
+      inputTokens: ORDERING_PROMPT_TOKENS + contextTokens,
+      outputTokens: OUTPUT_TOKENS.ordering + abstractions * ORDERING_OUTPUT_PER_CHAPTER,
+    },
+  };
+}
+
+function simulateChapters(
+  repo: SimulatedRepo,
+  route: StageRoute,
+  chapters: number,
+  languageFactor: number,
+  parallel: boolean
+): SimulatedStage {
+  const outputPerChapter = Math.ceil(OUTPUT_TOKENS.chapter * languageFactor);
+  const listingTokens = Math.ceil(chapters * CHAPTER_LISTING_TOKENS * languageFactor);
+  const descriptionTokens = Math.ceil(ABSTRACTION_LISTING_TOKENS * languageFactor);
+  const fullBudget = getContextBudget({ provider: route.providerId, model: route.modelId });
+  const maxPreviousTokens = Math.floor(fullBudget * MAX_PREVIOUS_CHAPTERS_SHARE);
+
+  let inputTokens = 0;
+  for (let chapter = 0; chapter < chapters; chapter++) {
+    // Earlier chapters in full, or in parallel mode an outline of all the others
+    const previousTokens = Math.min(
+      maxPreviousTokens,
+      parallel
+        ? Math.ceil((chapters - 1) * CHAPTER_OUTLINE_TOKENS * languageFactor)
+        : chapter * outputPerChapter
+    );
+    const promptTokens = WRITE_CHAPTER_PROMPT_TOKENS + listingTokens + descriptionTokens + previousTokens;
+    const budget = getContextBudget({
+      provider: route.providerId,
+      model: route.modelId,
+      reservedTokens: promptTokens,
+    });
+    const packed = packFiles(filesForAbstraction(repo.ranked, chapter, chapters), budget);
+    inputTokens += promptTokens + packedTokens(packed.files, route);
+  }
+
+  return {
+    stage: LLM_STAGES.CHAPTERS,
+    route,
+    calls: chapters,
+    tokens: { inputTokens, outputTokens: chapters * outputPerChapter },
+  };
+}
+
+/**
+ * Simulate every LLM call of a run over these files, stage by stage
+ */
+function simulateStages(
+  providerId: string,
+  modelId: string,
   fileContents: Array<{ path: string; content: string }>,
-  estimatedChapters: number = 8
-): TokenEstimate {
-  // Calculate file content tokens
-  const totalChars = fileContents.reduce((sum, f) => sum + f.content.length, 0);
-  const fileContentTokens = Math.ceil(totalChars * TOKENS_PER_CHAR);
-  
-  // Input tokens for each phase
-  const abstractionInputTokens = Math.ceil(fileContentTokens * PROMPT_OVERHEAD);
-  const relationshipInputTokens = Math.ceil(fileContentTokens * 0.3 * PROMPT_OVERHEAD); // Uses summaries
-  const orderingInputTokens = Math.ceil(2000 * PROMPT_OVERHEAD); // Fixed size prompt
-  const chapterInputTokens = Math.ceil(fileContentTokens * 0.5 * PROMPT_OVERHEAD) * estimatedChapters;
-  
-  // Output tokens
-  const abstractionOutputTokens = OUTPUT_ESTIMATES.abstraction;
-  const relationshipOutputTokens = OUTPUT_ESTIMATES.relationship;
-  const orderingOutputTokens = OUTPUT_ESTIMATES.ordering;
-  const chapterOutputTokens = OUTPUT_ESTIMATES.chapter * estimatedChapters;
-  
-  const totalInputTokens = 
-    abstractionInputTokens + 
-    relationshipInputTokens + 
-    orderingInputTokens + 
-    chapterInputTokens;
-    
-  const totalOutputTokens = 
-    abstractionOutputTokens + 
-    relationshipOutputTokens + 
-    orderingOutputTokens + 
-    chapterOutputTokens;
-  
+  estimatedChapters: number,
+  stageModels: StageModelMap | undefined,
+  options: EstimateOptions
+): SimulatedStage[] {
+  const files = toFilesData(fileContents);
+  const route = (stage: LLMStage) =>
+    resolveStageRoute(providerId, modelId, stage, stageModels, files, !!options.sizeOnly);
+  const languageFactor = getLanguageOutputFactor(options.language);
+  const chapters = Math.max(0, Math.floor(estimatedChapters));
+
+  const fileListing = files.map(([path], index) => `- ${index} # ${path}`).join('\n');
+  const abstractionsRoute = route(LLM_STAGES.ABSTRACTIONS);
+  const summarized = wouldSummarize(files, fileListing, abstractionsRoute, options.summarizeFiles);
+  // Summaries aren't written yet; placeholders of the same size pack the same way
+  const summary = summarized
+    ? ' '.repeat(Math.round(SUMMARY_OUTPUT_TOKENS_PER_FILE * abstractionsRoute.charsPerToken))
+    : undefined;
+  const repo: SimulatedRepo = {
+    files,
+    ranked: rankFiles(files).map(index => ({ index, path: files[index][0], content: files[index][1], summary })),
+    fileListing,
+  };
+
+  return [
+    ...(summarized ? [simulateSummaries(repo, route(LLM_STAGES.SUMMARIES))] : []),
+    simulateAbstractions(repo, abstractionsRoute, chapters, languageFactor),
+    simulateRelationships(repo, route(LLM_STAGES.RELATIONSHIPS), chapters, languageFactor),
+    simulateOrdering(route(LLM_STAGES.ORDERING), chapters, languageFactor),
+    simulateChapters(repo, route(LLM_STAGES.CHAPTERS), chapters, languageFactor, (options.chapterConcurrency ?? 1) > 1),
+  ];
+}
+
+function toTokenEstimate(stages: SimulatedStage[], fileContentTokens: number): TokenEstimate {
+  const byStage: Partial<Record<LLMStage, StageTokens>> = {};
+  stages.forEach(({ stage, tokens }) => {
+    byStage[stage] = tokens;
+  });
+  const total = (stage: LLMStage) => (byStage[stage]?.inputTokens ?? 0) + (byStage[stage]?.outputTokens ?? 0);
+
   return {
-    inputTokens: totalInputTokens,
-    outputTokens: totalOutputTokens,
+    inputTokens: stages.reduce((sum, { tokens }) => sum + tokens.inputTokens, 0),
+    outputTokens: stages.reduce((sum, { tokens }) => sum + tokens.outputTokens, 0),
     breakdown: {
       fileContent: fileContentTokens,
-      abstractionPrompts: abstractionInputTokens + abstractionOutputTokens,
-      relationshipPrompts: relationshipInputTokens + relationshipOutputTokens,
-      chapterPrompts: chapterInputTokens + chapterOutputTokens,
-      orderingPrompts: orderingInputTokens + orderingOutputTokens,
-    }
+      summaryPrompts: total(LLM_STAGES.SUMMARIES),
+      abstractionPrompts: total(LLM_STAGES.ABSTRACTIONS),
+      relationshipPrompts: total(LLM_STAGES.RELATIONSHIPS),
+      chapterPrompts: total(LLM_STAGES.CHAPTERS),
+      orderingPrompts: total(LLM_STAGES.ORDERING),
+    },
+    byStage,
   };
 }
 
+/**
+ * Estimate tokens needed for a repo, simulating the prompts each stage
+ * builds with the model it runs on
+ */
+export function estimateTokens(
+  providerId: string,
+  modelId: string,
+  fileContents: Array<{ path: string; content: string }>,
+  estimatedChapters: number = 8,
+  stageModels?: StageModelMap,
+  options: EstimateOptions = {}
+): TokenEstimate {
+  const stages = simulateStages(providerId, modelId, fileContents, estimatedChapters, stageModels, options);
+  return toTokenEstimate(stages, countFileTokens(providerId, modelId, fileContents, options));
+}
+
+/**
+ * Tokens of the files themselves, with the main model's tokenizer
+ */
+function countFileTokens(
+  providerId: string,
+  modelId: string,
+  fileContents: Array<{ path: string; content: string }>,
+  options: EstimateOptions
+): number {
+  const tokenizer = getTokenizerFamily(providerId, modelId);
+  const totalChars = fileContents.reduce((sum, f) => sum + f.content.length, 0);
+  const charsPerToken = options.sizeOnly
+    ? getDefaultCharsPerToken(tokenizer)
+    : measureCharsPerToken(fileContents.map(f => f.content), tokenizer);
+  return Math.ceil(totalChars / charsPerToken);
+}
+
 /**
  * Calculate cost for a specific model
  */
@@ -126,25 +559,67 @@ export function formatCost(cost: { low: number; estimated: number; high: number
 }
 
 /**
- * Get full cost estimate for a provider/model combination
+ * Price each simulated stage with the model it runs on, with a range
+ * reflecting how well the stage can be predicted
+ */
+function priceStages(stages: SimulatedStage[], sizeOnly: boolean): StageCostEstimate[] {
+  return stages.map(({ stage, route, calls, tokens }) => {
+    const { model } = route;
+    const inputCost = model ? (tokens.inputTokens / 1000) * model.costPer1kInput : 0;
+    const outputCost = model ? (tokens.outputTokens / 1000) * model.costPer1kOutput : 0;
+
+    const approximateTokenizer = isApproximateTokenizer(route.tokenizer);
+    const countingError =
+      (approximateTokenizer ? APPROXIMATE_TOKENIZER_UNCERTAINTY : 0) + (sizeOnly ? SIZE_ONLY_UNCERTAINTY : 0);
+    const inputError = STAGE_UNCERTAINTY[stage].input + countingError;
+    const outputError = STAGE_UNCERTAINTY[stage].output;
+
+    return {
+      stage,
+      provider: getProvider(route.providerId)?.name || route.providerId,
+      model: model?.name || route.modelId || 'default',
+      tokens,
+      calls,
+      tokenizer: route.tokenizer,
+      approximateTokenizer,
+      cost: inputCost + outputCost,
+      costLow: inputCost * Math.max(0, 1 - inputError) + outputCost * Math.max(0, 1 - outputError),
+      costHigh: inputCost * (1 + inputError) + outputCost * (1 + outputError),
+      // Local models are free even when the model isn't in the catalogue
+      priced: !!model || !!getProvider(route.providerId)?.isLocal,
+    };
+  });
+}
+
+/**
+ * Get full cost estimate for a provider/model combination,
+ * with per-stage model overrides
  */
 export function getFullCostEstimate(
   providerId: string,
   modelId: string,
   fileContents: Array<{ path: string; content: string }>,
-  estimatedChapters: number = 8
+  estimatedChapters: number = 8,
+  stageModels?: StageModelMap,
+  options: EstimateOptions = {}
 ): CostEstimate {
   const provider = getProvider(providerId);
   const model = getModel(providerId, modelId);
-  
+
   if (!provider || !model) {
     throw new Error(`Unknown provider/model: ${providerId}/${modelId}`);
   }
-  
-  const tokens = estimateTokens(fileContents, estimatedChapters);
-  const cost = calculateCost(model, tokens);
-  const isFree = model.costPer1kInput === 0 && model.costPer1kOutput === 0;
-  
+
+  const simulated = simulateStages(providerId, modelId, fileContents, estimatedChapters, stageModels, options);
+  const tokens = toTokenEstimate(simulated, countFileTokens(providerId, modelId, fileContents, options));
+  const stages = priceStages(simulated, !!options.sizeOnly);
+  const cost = {
+    low: stages.reduce((sum, stage) => sum + stage.costLow, 0),
+    estimated: stages.reduce((sum, stage) => sum + stage.cost, 0),
+    high: stages.reduce((sum, stage) => sum + stage.costHigh, 0),
+  };
+  const isFree = cost.estimated === 0;
+
   return {
     provider: provider.name,
     model: model.name,
@@ -153,7 +628,8 @@ export function getFullCostEstimate(
     costEstimated: cost.estimated,
     costHigh: cost.high,
     isFree,
-    formattedCost: formatCost(cost)
+    formattedCost: formatCost(cost),
+    stages,
   };
 }
 
@@ -0,0 +1,219 @@
+/**
+ * Cost Ledger
+ * Every LLM call - cached or not - with its tokens and cost, appended to
+ * cache/ledger/llm_calls.jsonl, plus the cost estimate each run started
+ * with. Summaries break spend down by repo, model and day, and compare each
+ * run's estimate with what it actually cost.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createScopedLogger } from './cacheLogger';
+
+const log = createScopedLogger('Ledger');
+
+const LEDGER_DIR = path.join(process.cwd(), 'cache', 'ledger');
+const CALLS_FILE = path.join(LEDGER_DIR, 'llm_calls.jsonl');
+const ESTIMATES_FILE = path.join(LEDGER_DIR, 'run_estimates.json');
+
+// How many runs the summary compares, most recent first
+const MAX_SUMMARY_RUNS = 50;
+
+/**
+ * Where a call came from; recorded with it in the ledger
+ */
+export interface LedgerContext {
+  runId?: string;
+  repo?: string; // Repo URL, or the project name for local runs
+  stage?: string;
+}
+
+export interface LedgerEntry extends LedgerContext {
+  timestamp: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  cached: boolean;
+  estimatedTokens?: boolean; // The provider reported no usage; tokens were counted from the text
+}
+
+export interface RunCostEstimate {
+  runId: string;
+  repo?: string;
+  createdAt: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costLow: number;
+  costEstimated: number;
+  costHigh: number;
+}
+
+export interface SpendBucket {
+  key: string;
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface RunCostComparison {
+  runId: string;
+  repo?: string;
+  startedAt: string;
+  estimate?: RunCostEstimate;
+  actual: SpendBucket;
+}
+
+export interface LedgerSummary {
+  since?: string;
+  totals: SpendBucket;
+  byRepo: SpendBucket[];
+  byModel: SpendBucket[];
+  byDay: SpendBucket[];
+  runs: RunCostComparison[];
+}
+
+/**
+ * Append one LLM call to the ledger.
+ * Failures are logged, never thrown - accounting must not break a run.
+ */
+export function recordLLMCall(entry: Omit<LedgerEntry, 'timestamp'>): void {
+  const line: LedgerEntry = { timestamp: new Date().toISOString(), ...entry };
+  try {
+    fs.mkdirSync(LEDGER_DIR, { recursive: true });
+    fs.appendFileSync(CALLS_FILE, `${JSON.stringify(line)}\n`);
+  } catch (error) {
+    log.warn('Failed to record LLM call', { error });
+  }
+}
+
+/**
+ * Read the ledger, optionally only the calls made since a date
+ */
+export function loadLedger(since?: Date): LedgerEntry[] {
+  if (!fs.existsSync(CALLS_FILE)) return [];
+
+  const entries: LedgerEntry[] = [];
+  for (const line of fs.readFileSync(CALLS_FILE, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as LedgerEntry;
+      if (!since || new Date(entry.timestamp) >= since) {
+        entries.push(entry);
+      }
+    } catch {
+      // A line cut short by a crash; skip it
+    }
+  }
+  return entries;
+}
+
+function loadRunEstimates(): Record<string, RunCostEstimate> {
+  if (!fs.existsSync(ESTIMATES_FILE)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(ESTIMATES_FILE, 'utf-8')) as Record<string, RunCostEstimate>;
+  } catch (error) {
+    log.warn('Failed to read run estimates', { error });
+    return {};
+  }
+}
+
+/**
+ * Keep the cost estimate a run started with, to compare with its actual cost
+ */
+export function recordRunEstimate(estimate: RunCostEstimate): void {
+  try {
+    const estimates = loadRunEstimates();
+    estimates[estimate.runId] = estimate;
+    fs.mkdirSync(LEDGER_DIR, { recursive: true });
+    fs.writeFileSync(ESTIMATES_FILE, JSON.stringify(estimates, null, 2));
+  } catch (error) {
+    log.warn(`Failed to record the estimate of run ${estimate.runId}`, { error });
+  }
+}
+
+function emptyBucket(key: string): SpendBucket {
+  return { key, calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+function addToBucket(bucket: SpendBucket, entry: LedgerEntry): void {
+  bucket.calls += 1;
+  if (entry.cached) bucket.cachedCalls += 1;
+  bucket.inputTokens += entry.inputTokens;
+  bucket.outputTokens += entry.outputTokens;
+  bucket.cost += entry.cost;
+}
+
+function groupBy(entries: LedgerEntry[], keyOf: (entry: LedgerEntry) => string): SpendBucket[] {
+  const buckets = new Map<string, SpendBucket>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = emptyBucket(key);
+      buckets.set(key, bucket);
+    }
+    addToBucket(bucket, entry);
+  }
+  return Array.from(buckets.values());
+}
+
+/**
+ * Total tokens and cost of one run's LLM calls
+ */
+export function getRunCost(runId: string): SpendBucket {
+  const bucket = emptyBucket(runId);
+  for (const entry of loadLedger()) {
+    if (entry.runId === runId) addToBucket(bucket, entry);
+  }
+  return bucket;
+}
+
+/**
+ * Spend per repo, per model and per day, and each run's estimate against
+ * its actual cost
+ */
+export function summarizeLedger(since?: Date): LedgerSummary {
+  const entries = loadLedger(since);
+  const estimates = loadRunEstimates();
+
+  const totals = emptyBucket('total');
+  for (const entry of entries) addToBucket(totals, entry);
+
+  const byCost = (a: SpendBucket, b: SpendBucket) => b.cost - a.cost;
+  const byRun = new Map(
+    groupBy(entries.filter(entry => entry.runId), entry => entry.runId!).map(bucket => [bucket.key, bucket])
+  );
+
+  // Runs with calls in the period, plus runs that were estimated but never called an LLM
+  const runIds = new Set([
+    ...byRun.keys(),
+    ...Object.values(estimates)
+      .filter(estimate => !since || new Date(estimate.createdAt) >= since)
+      .map(estimate => estimate.runId),
+  ]);
+  const runs: RunCostComparison[] = Array.from(runIds).map(runId => {
+    const calls = entries.filter(entry => entry.runId === runId);
+    return {
+      runId,
+      repo: estimates[runId]?.repo ?? calls.find(entry => entry.repo)?.repo,
+      startedAt: estimates[runId]?.createdAt ?? calls[0]?.timestamp ?? '',
+      estimate: estimates[runId],
+      actual: byRun.get(runId) ?? emptyBucket(runId),
+    };
+  });
+
+  return {
+    since: since?.toISOString(),
+    totals,
+    byRepo: groupBy(entries, entry => entry.repo || 'Other calls').sort(byCost),
+    byModel: groupBy(entries, entry => `${entry.provider}/${entry.model}`).sort(byCost),
+    byDay: groupBy(entries, entry => entry.timestamp.slice(0, 10)).sort((a, b) => b.key.localeCompare(a.key)),
+    runs: runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt)).slice(0, MAX_SUMMARY_RUNS),
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * File Summaries
+ * Short structured summaries of source files (purpose, exported symbols,
+ * dependencies), cached by content hash so a re-run only summarises the
+ * files that changed. Later flow steps use them in place of raw source
+ * when a repo does not fit the model's context window.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { computeContentHash } from './repoCache';
+import { createScopedLogger } from './cacheLogger';
+
+const log = createScopedLogger('Summaries');
+
+// Summaries are shared across repos and runs: cache/summaries/<contentHash>.json
+const SUMMARIES_DIR = path.join(process.cwd(), 'cache', 'summaries');
+
+export interface FileSummary {
+  purpose: string;
+  exports: string[];
+  dependencies: string[];
+}
+
+interface CachedFileSummary extends FileSummary {
+  contentHash: string;
+  path: string; // Path the summary was first made for (informational)
+  model?: string;
+  createdAt: string;
+}
+
+function summaryFile(contentHash: string): string {
+  return path.join(SUMMARIES_DIR, `${contentHash}.json`);
+}
+
+/**
+ * Load the cached summary of a file's content, if it was summarised before
+ */
+export function loadFileSummary(content: string): FileSummary | null {
+  const filePath = summaryFile(computeContentHash(content));
+  if (!fs.existsSync(filePath)) return null;
+
+  try {
+    const cached = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CachedFileSummary;
+    return {
+      purpose: cached.purpose,
+      exports: cached.exports ?? [],
+      dependencies: cached.dependencies ?? [],
+    };
+  } catch (error) {
+    log.warn(`Failed to read summary ${filePath}`, { error });
+    return null;
+  }
+}
+
+/**
+ * Cache a file's summary under its content hash.
+ * Failures are logged, never thrown - a missing summary only costs a re-run.
+ */
+export function saveFileSummary(
+  content: string,
+  filePath: string,
+  summary: FileSummary,
+  model?: string
+): void {
+  const contentHash = computeContentHash(content);
+  const cached: CachedFileSummary = {
+    ...summary,
+    contentHash,
+    path: filePath,
+    model,
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    fs.mkdirSync(SUMMARIES_DIR, { recursive: true });
+    fs.writeFileSync(summaryFile(contentHash), JSON.stringify(cached, null, 2));
+  } catch (error) {
+    log.warn(`Failed to save summary for ${filePath}`, { error });
+  }
+}
+
+/**
+ * Render a summary as the text that stands in for the file in a prompt
+ */
+export function formatFileSummary(summary: FileSummary): string {
+  const lines = [`Purpose: ${summary.purpose}`];
+  if (summary.exports.length > 0) {
+    lines.push(`Exports: ${summary.exports.join(', ')}`);
+  }
+  if (summary.dependencies.length > 0) {
+    lines.push(`Depends on: ${summary.dependencies.join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -5,10 +5,17 @@ export interface FileStats {
   excluded_count?: number; // Count of files that matched include patterns but were excluded
   excluded_files?: string[]; // List of files that were excluded despite matching include patterns
   base_path: string | null;
+  ref?: string; // Branch, tag or commit that was crawled; unset for the default branch
   include_patterns: string[] | null;
   exclude_patterns: string[] | null;
   api_requests?: number;
-  method?: string;
+  method?: string; // 'tree_api', 'contents_api', 'incremental' or 'archive'
+  commit_sha?: string; // Commit the files were read at
+  base_commit_sha?: string; // Incremental crawls: the previous crawl's commit, which only the changed files were fetched since
+  changed_paths?: string[]; // Incremental crawls: files added, modified, removed or renamed since base_commit_sha
+  unlisted_paths?: string[]; // Directories of a truncated tree that couldn't be listed, so their files are missing
+  failed_paths?: string[]; // Files that failed to download, so they are missing from the crawl
+  manifest_id?: string; // Blob store manifest of the crawled files, which can stand in for them in later requests
 }
 
 export interface CrawlerResult {
@@ -24,6 +31,8 @@ interface CrawlerOptions {
   excludePatterns: string[];
   maxFileSize: number;
   useMock?: boolean; // Added option to use mock data
+  crawlMethod?: 'auto' | 'api' | 'archive';
+  ref?: string; // Branch, tag or commit to crawl instead of the one in the URL // Whether to download the repo as one archive; 'auto' when it saves requests
 }
 
 /**
@@ -32,7 +41,7 @@ interface CrawlerOptions {
  * @returns Promise that resolves to CrawlerResult containing files and statistics
  */
 export async function githubFileCrawler(options: CrawlerOptions): Promise<CrawlerResult> {
-  const { repoUrl, token, useRelativePaths, includePatterns, excludePatterns, maxFileSize} = options;
+  const { repoUrl, token, useRelativePaths, includePatterns, excludePatterns, maxFileSize, crawlMethod, ref } = options;
   
   try {
     console.log(`[GitHub Crawler] Processing repository: ${repoUrl}`);
@@ -54,6 +63,8 @@ export async function githubFileCrawler(options: CrawlerOptions): Promise<Crawle
         includePatterns,
         excludePatterns,
         maxFileSize,
+        crawlMethod,
+        ref,
       }),
     });
 
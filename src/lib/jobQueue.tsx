@@ -0,0 +1,341 @@
+/**
+ * Tutorial Job Queue
+ * Runs tutorial generation as server-side background jobs that outlive the
+ * request that created them. Progress events are recorded so clients can
+ * poll a job or reconnect to its event stream at any time.
+ *
+ * Streamed chapter text (`chapter_delta`) is only passed on to current
+ * listeners, not recorded; the chapter written so far is kept instead so a
+ * reconnecting client can catch up with a single event.
+ */
+
+import * as crypto from 'crypto';
+import { runTutorialFlowWithProgress, type ProgressCallback } from './tutorialFlow';
+import { markRunCancelled } from './runCheckpoints';
+import { createScopedLogger } from './cacheLogger';
+
+const log = createScopedLogger('Jobs');
+
+// How many jobs may run the tutorial flow at the same time; the rest wait in the queue
+const MAX_CONCURRENT_JOBS = Math.max(1, parseInt(process.env.MAX_CONCURRENT_JOBS || '', 10) || 2);
+// Finished jobs are kept in memory for status lookups, oldest dropped first
+const MAX_FINISHED_JOBS = 50;
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobEventType =
+  | 'queued'
+  | 'progress'
+  | 'chapter_delta'
+  | 'llm_fallback'
+  | 'budget_exceeded'
+  | 'complete'
+  | 'error'
+  | 'cancelled';
+
+export type ProgressUpdate = Parameters<ProgressCallback>[0];
+
+export interface JobEvent {
+  id: number;
+  type: JobEventType;
+  data: Record<string, unknown>;
+  timestamp: string;
+  live?: boolean; // Not recorded in `events`; `id` is that of the last recorded event
+}
+
+export interface TutorialJob {
+  jobId: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  repoUrl?: string;
+  projectName?: string;
+  runId?: string;
+  outputDir?: string;
+  error?: string;
+  progress?: ProgressUpdate;
+  events: JobEvent[];
+}
+
+export type JobListener = (event: JobEvent, job: TutorialJob) => void;
+
+interface JobEntry {
+  job: TutorialJob;
+  shared: Record<string, unknown>;
+  listeners: Set<JobListener>;
+  controller: AbortController;
+  chapterDraft?: ProgressUpdate; // Latest chapter_delta, with the chapter's whole text so far as its delta
+}
+
+interface JobStore {
+  jobs: Map<string, JobEntry>;
+  queue: string[];
+  running: number;
+}
+
+// Kept on globalThis so jobs survive module reloads in development
+const globalStore = globalThis as typeof globalThis & { __tutorialJobStore?: JobStore };
+const store: JobStore = globalStore.__tutorialJobStore ??= {
+  jobs: new Map(),
+  queue: [],
+  running: 0,
+};
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+function recordEvent(entry: JobEntry, type: JobEventType, data: Record<string, unknown>): void {
+  const event: JobEvent = {
+    id: entry.job.events.length,
+    type,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+  entry.job.events.push(event);
+  notifyListeners(entry, event);
+}
+
+// Pass an event on to current listeners only, without recording it
+function broadcastEvent(entry: JobEntry, type: JobEventType, data: Record<string, unknown>): void {
+  notifyListeners(entry, {
+    id: entry.job.events.length - 1,
+    type,
+    data,
+    timestamp: new Date().toISOString(),
+    live: true,
+  });
+}
+
+function notifyListeners(entry: JobEntry, event: JobEvent): void {
+  for (const listener of entry.listeners) {
+    try {
+      listener(event, entry.job);
+    } catch (error) {
+      log.warn(`Job ${entry.job.jobId}: listener failed`, { error });
+    }
+  }
+}
+
+function finishJob(entry: JobEntry, status: JobStatus): void {
+  entry.job.status = status;
+  entry.job.finishedAt = new Date().toISOString();
+  // Drop secrets and file contents once the job no longer needs them
+  entry.shared = {};
+  entry.chapterDraft = undefined;
+  pruneFinishedJobs();
+}
+
+function pruneFinishedJobs(): void {
+  const finished = Array.from(store.jobs.values())
+    .filter(entry => isTerminalStatus(entry.job.status))
+    .sort((a, b) => (a.job.finishedAt ?? '').localeCompare(b.job.finishedAt ?? ''));
+
+  for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    store.jobs.delete(entry.job.jobId);
+  }
+}
+
+async function runJob(entry: JobEntry): Promise<void> {
+  const { job, shared } = entry;
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  log.info(`Job ${job.jobId}: started`, { repoUrl: job.repoUrl });
+
+  // Re-read on every call: cancelJob may change the status while the flow runs
+  const isCancelled = () => job.status === 'cancelled';
+
+  const onProgress: ProgressCallback = async (update) => {
+    // The flow may report a little more while it winds down
+    if (isCancelled()) return;
+    if (update.stage === 'chapter_delta') {
+      const draft = entry.chapterDraft;
+      const continues = !update.replace && draft?.currentChapter === update.currentChapter;
+      entry.chapterDraft = {
+        ...update,
+        delta: continues ? `${draft?.delta ?? ''}${update.delta ?? ''}` : update.delta,
+        replace: true,
+      };
+      broadcastEvent(entry, 'chapter_delta', { ...update });
+      return;
+    }
+    if (update.stage === 'llm_fallback' || update.stage === 'budget_exceeded') {
+      // A notice, not a step forward: job.progress keeps the current stage
+      recordEvent(entry, update.stage, { ...update });
+      return;
+    }
+    job.progress = update;
+    recordEvent(entry, 'progress', { ...update });
+  };
+
+  try {
+    await onProgress({
+      stage: 'starting',
+      message: shared.run_id
+        ? `Resuming run ${shared.run_id} from last checkpoint...`
+        : 'Starting tutorial generation...',
+      progress: 0,
+    });
+
+    await runTutorialFlowWithProgress(shared, onProgress);
+
+    job.runId = shared.run_id as string | undefined;
+    job.outputDir = shared.final_output_dir as string | undefined;
+    if (isCancelled()) return;
+
+    finishJob(entry, 'completed');
+    recordEvent(entry, 'complete', {
+      success: true,
+      message: 'Tutorial created successfully',
+      run_id: job.runId,
+      output_dir: job.outputDir,
+    });
+    log.info(`Job ${job.jobId}: completed`, { outputDir: job.outputDir });
+  } catch (error) {
+    job.runId = shared.run_id as string | undefined;
+    // Cancellation was already recorded by cancelJob
+    if (isCancelled()) return;
+
+    job.error = error instanceof Error ? error.message : 'Unknown error';
+    finishJob(entry, 'failed');
+    recordEvent(entry, 'error', {
+      message: job.error,
+      // Lets the client offer "resume from last checkpoint"
+      run_id: job.runId,
+    });
+    log.error(`Job ${job.jobId}: failed`, { error });
+  }
+}
+
+// Start queued jobs while there are free slots
+function drainQueue(): void {
+  while (store.running < MAX_CONCURRENT_JOBS && store.queue.length > 0) {
+    const entry = store.jobs.get(store.queue.shift()!);
+    if (!entry || entry.job.status !== 'queued') continue;
+
+    store.running += 1;
+    runJob(entry).finally(() => {
+      store.running -= 1;
+      drainQueue();
+    });
+  }
+}
+
+/**
+ * Queue a tutorial generation job for the given shared state
+ */
+export function createJob(shared: Record<string, unknown>): TutorialJob {
+  const jobId = crypto.randomBytes(8).toString('hex');
+  const controller = new AbortController();
+  shared.abort_signal = controller.signal;
+  const entry: JobEntry = {
+    job: {
+      jobId,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      repoUrl: shared.repo_url as string | undefined,
+      projectName: shared.project_name as string | undefined,
+      runId: shared.run_id as string | undefined,
+      events: [],
+    },
+    shared,
+    listeners: new Set(),
+    controller,
+  };
+
+  store.jobs.set(jobId, entry);
+  store.queue.push(jobId);
+  recordEvent(entry, 'queued', {
+    message: 'Waiting for a free slot...',
+    position: store.queue.length,
+  });
+  log.info(`Job ${jobId}: queued`, { repoUrl: entry.job.repoUrl, queued: store.queue.length });
+
+  drainQueue();
+  return entry.job;
+}
+
+/**
+ * Look up a job by ID
+ */
+export function getJob(jobId: string): TutorialJob | null {
+  return store.jobs.get(jobId)?.job ?? null;
+}
+
+/**
+ * List jobs, most recent first
+ */
+export function listJobs(): TutorialJob[] {
+  return Array.from(store.jobs.values())
+    .map(entry => entry.job)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Cancel a queued or running job.
+ * A running job's in-flight LLM request is aborted and no further steps run;
+ * its run checkpoints are kept. A queued resume marks its run cancelled here,
+ * since its flow never starts to do so.
+ */
+export function cancelJob(jobId: string): TutorialJob | null {
+  const entry = store.jobs.get(jobId);
+  if (!entry) return null;
+  if (isTerminalStatus(entry.job.status)) return entry.job;
+
+  const wasQueued = entry.job.status === 'queued';
+  store.queue = store.queue.filter(id => id !== jobId);
+  entry.controller.abort();
+  finishJob(entry, 'cancelled');
+  if (wasQueued && entry.job.runId) {
+    markRunCancelled(entry.job.runId);
+  }
+  recordEvent(entry, 'cancelled', {
+    message: 'Tutorial generation was cancelled',
+    run_id: entry.job.runId,
+  });
+  log.info(`Job ${jobId}: cancelled`);
+  return entry.job;
+}
+
+/**
+ * Receive a job's events as they are recorded.
+ * Returns an unsubscribe function, or null if the job does not exist.
+ */
+export function subscribeToJob(jobId: string, listener: JobListener): (() => void) | null {
+  const entry = store.jobs.get(jobId);
+  if (!entry) return null;
+
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+/**
+ * The chapter currently being written, as one `chapter_delta` event that
+ * replaces whatever draft a reconnecting client has
+ */
+export function getChapterDraftEvent(jobId: string): JobEvent | null {
+  const entry = store.jobs.get(jobId);
+  if (!entry?.chapterDraft) return null;
+
+  return {
+    id: entry.job.events.length - 1,
+    type: 'chapter_delta',
+    data: { ...entry.chapterDraft },
+    timestamp: new Date().toISOString(),
+    live: true,
+  };
+}
+
+/**
+ * Current queue occupancy
+ */
+export function getQueueStats(): { running: number; queued: number; maxConcurrent: number } {
+  return {
+    running: store.running,
+    queued: store.queue.length,
+    maxConcurrent: MAX_CONCURRENT_JOBS,
+  };
+}
@@ -17,11 +17,41 @@
  * 
  * Groq/DeepSeek/OpenRouter/xAI/Azure/Ollama:
  *   - OpenAI-compatible: Use max_tokens
+ * 
+ * Structured output (callLLMStructured):
+ *   - OpenAI, Ollama: response_format json_schema
+ *   - Anthropic: forced tool call whose input_schema is the schema
+ *   - Google: responseMimeType application/json + responseSchema
+ *   - Others: the prompt's YAML format, validated the same way
+ *
+ * Rate limits and retries:
+ *   - Requests and tokens per minute are tracked per provider; calls wait
+ *     for `LLM_RATE_LIMITS` and for the x-ratelimit-* / anthropic-ratelimit-*
+ *     headers' remaining budget (the SDKs' own retries are turned off)
+ *   - Rate limits, 5xx, timeouts and dropped connections are retried with
+ *     exponential backoff and jitter, or after `Retry-After` when given
+ *   - Auth failures, unknown models, bad requests and exhausted quota throw
+ *     a non-retryable LLMProviderError straight away
+ *
+ * Budgets (CallLLMOptions.ledger.runId):
+ *   - A call that would take its run over `max_cost_usd` / `max_tokens`
+ *     throws a BudgetExceededError before anything is sent (see runBudget)
+ *
+ * Fallbacks (CallLLMOptions.fallbacks):
+ *   - Rate limits, exhausted quota and 5xx errors move on to the next
+ *     provider/model in the list once the retries above are used up
+ * 
+ * Streaming (onToken / streamLLM):
+ *   - OpenAI-compatible: stream: true (OpenAI also reports usage via stream_options)
+ *   - Anthropic: messages.stream text events
+ *   - Google: generateContentStream
+ *   - Structured calls are never streamed
  */
 
 import fs from 'fs/promises';
 import path from 'path';
 import { OpenAI } from 'openai';
+import type { ResponseSchema } from '@google/generative-ai';
 import { 
   getProvider, 
   getModel, 
@@ -36,6 +66,17 @@ import {
   addCacheEntry, 
   type SmartCacheStore 
 } from './smartCache';
+import { CancelledError, cancellableDelay, isCancelledError, throwIfCancelled } from './cancellation';
+import { estimateTokens } from './contextPlanner';
+import { recordLLMCall, type LedgerContext } from './costLedger';
+import { addRunSpend, checkRunBudget, BudgetExceededError, type BudgetUsage } from './runBudget';
+import {
+  buildJsonInstruction,
+  buildRepairPrompt,
+  checkStructuredOutput,
+  StructuredOutputError,
+  type StructuredOutputSpec,
+} from './structuredOutput';
 import {
   PROVIDER_IDS,
   OPENAI_MODELS,
@@ -48,6 +89,15 @@ const log = createScopedLogger('LLM');
 const LOG_DIR = process.env.LOG_DIR || 'logs';
 const CACHE_FILE = process.env.LLM_CACHE_FILE || 'llm_cache.json';
 const DEFAULT_MODEL = process.env.OPEN_AI_MODEL || OPENAI_MODELS.GPT_4O_MINI;
+// Follow-up "repair this output" prompts before a structured call gives up
+const MAX_REPAIR_ATTEMPTS = 2;
+// Retries of a rate-limited or failing call (before moving to the next fallback)
+const LLM_RETRY_ATTEMPTS = 4;
+const LLM_RETRY_BASE_DELAY_MS = 1000; // Doubled on each retry, with jitter
+const LLM_RETRY_MAX_DELAY_MS = 60000;
+// Don't sit out a rate limit window longer than this (e.g. a daily limit); let the call fail instead
+const MAX_RATE_LIMIT_WAIT_MS = 2 * 60 * 1000;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
 
 // In-memory cache store (loaded from file)
 let cacheStore: SmartCacheStore | null = null;
@@ -73,6 +123,250 @@ async function logToFile(message: string): Promise<void> {
   }
 }
 
+/**
+ * A failed provider call, with the user-facing message. `retryable` errors
+ * (rate limits, 5xx, timeouts) may succeed later; the rest (auth, unknown
+ * model, bad request, quota) never will.
+ */
+export class LLMProviderError extends Error {
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: { status?: number; retryable: boolean; retryAfterMs?: number }) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.status = options.status;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Whether running a failed step again could help. Provider errors are final
+ * by then: callLLM has already retried them with backoff and tried the
+ * fallbacks. A run out of budget is final too; anything else (e.g. a
+ * response that doesn't parse) may succeed on another try.
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  return !(error instanceof BudgetExceededError) && !(error instanceof LLMProviderError);
+}
+
+interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+interface RateLimitSlot {
+  at: number;
+  tokens: number;
+}
+
+// Configured limits, e.g. LLM_RATE_LIMITS={"groq":{"requestsPerMinute":30,"tokensPerMinute":6000}}
+function loadConfiguredRateLimits(): Record<string, RateLimits> {
+  if (!process.env.LLM_RATE_LIMITS) return {};
+  try {
+    return JSON.parse(process.env.LLM_RATE_LIMITS) as Record<string, RateLimits>;
+  } catch (error) {
+    log.warn('Ignoring invalid LLM_RATE_LIMITS', { error });
+    return {};
+  }
+}
+
+const configuredRateLimits = loadConfiguredRateLimits();
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Milliseconds until a rate limit resets. Accepts seconds ("30"), durations
+ * ("1m30.5s", "250ms") and dates (RFC 3339 or HTTP dates).
+ */
+function parseResetDelay(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed) * 1000;
+  }
+
+  const duration = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+)ms)?$/);
+  if (duration && trimmed !== '') {
+    const [, h = '0', m = '0', sec = '0', ms = '0'] = duration;
+    return ((parseInt(h, 10) * 60 + parseInt(m, 10)) * 60 + parseFloat(sec)) * 1000 + parseInt(ms, 10);
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Requests and tokens sent to one provider over the last minute, plus what
+ * the provider last said about its remaining budget
+ */
+class ProviderRateLimiter {
+  private window: RateLimitSlot[] = [];
+  private blockedUntil = 0;
+  private remainingRequests?: number;
+  private remainingTokens?: number;
+  private requestsResetAt = 0;
+  private tokensResetAt = 0;
+
+  constructor(private readonly providerId: string, private readonly limits: RateLimits = {}) {}
+
+  /**
+   * Wait until a request of about `tokens` tokens fits, then count it
+   */
+  async acquire(tokens: number, signal?: AbortSignal): Promise<RateLimitSlot> {
+    for (;;) {
+      const wait = this.waitTime(tokens);
+      if (wait <= 0 || wait > MAX_RATE_LIMIT_WAIT_MS) break;
+      log.info(`Waiting ${Math.ceil(wait / 1000)}s for the ${this.providerId} rate limit`);
+      await cancellableDelay(wait, signal);
+    }
+
+    const slot = { at: Date.now(), tokens };
+    this.window.push(slot);
+    if (this.remainingRequests !== undefined) this.remainingRequests -= 1;
+    if (this.remainingTokens !== undefined) this.remainingTokens -= tokens;
+    return slot;
+  }
+
+  /**
+   * Replace a request's estimate with the tokens it actually used
+   */
+  recordUsage(slot: RateLimitSlot, usage?: { inputTokens: number; outputTokens: number }): void {
+    if (!usage) return;
+    const tokens = usage.inputTokens + usage.outputTokens;
+    if (this.remainingTokens !== undefined) this.remainingTokens -= tokens - slot.tokens;
+    slot.tokens = tokens;
+  }
+
+  /**
+   * Hold back every call to this provider for `ms`
+   */
+  pause(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Take in a response's Retry-After and rate limit headers
+   */
+  observe(headers: Headers): void {
+    const now = Date.now();
+
+    const retryAfterMs = headers.get('retry-after-ms');
+    const retryAfter = retryAfterMs ? parseFloat(retryAfterMs) : parseResetDelay(headers.get('retry-after') ?? undefined, now);
+    if (retryAfter !== undefined && !isNaN(retryAfter)) {
+      this.pause(retryAfter);
+    }
+
+    // OpenAI-style headers, then Anthropic's
+    const header = (openAIName: string, anthropicName: string) =>
+      headers.get(openAIName) ?? headers.get(anthropicName) ?? undefined;
+
+    const remainingRequests = header('x-ratelimit-remaining-requests', 'anthropic-ratelimit-requests-remaining');
+    if (remainingRequests !== undefined) {
+      this.remainingRequests = parseInt(remainingRequests, 10);
+      this.requestsResetAt = now + (parseResetDelay(header('x-ratelimit-reset-requests', 'anthropic-ratelimit-requests-reset'), now) ?? 0);
+    }
+
+    const remainingTokens = header('x-ratelimit-remaining-tokens', 'anthropic-ratelimit-tokens-remaining');
+    if (remainingTokens !== undefined) {
+      this.remainingTokens = parseInt(remainingTokens, 10);
+      this.tokensResetAt = now + (parseResetDelay(header('x-ratelimit-reset-tokens', 'anthropic-ratelimit-tokens-reset'), now) ?? 0);
+    }
+  }
+
+  private waitTime(tokens: number): number {
+    const now = Date.now();
+    this.window = this.window.filter(slot => slot.at > now - RATE_LIMIT_WINDOW_MS);
+    const waits = [this.blockedUntil - now];
+
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    if (requestsPerMinute && this.window.length >= requestsPerMinute) {
+      waits.push(this.window[this.window.length - requestsPerMinute].at + RATE_LIMIT_WINDOW_MS - now);
+    }
+    if (tokensPerMinute) {
+      // Wait for enough of the window to expire to make room for this request
+      let used = this.window.reduce((sum, slot) => sum + slot.tokens, 0);
+      for (const slot of this.window) {
+        if (used + tokens <= tokensPerMinute) break;
+        used -= slot.tokens;
+        waits.push(slot.at + RATE_LIMIT_WINDOW_MS - now);
+      }
+    }
+
+    if (this.remainingRequests !== undefined && this.remainingRequests <= 0 && this.requestsResetAt > now) {
+      waits.push(this.requestsResetAt - now);
+    }
+    if (this.remainingTokens !== undefined && this.remainingTokens < tokens && this.tokensResetAt > now) {
+      waits.push(this.tokensResetAt - now);
+    }
+
+    return Math.max(...waits);
+  }
+}
+
+const rateLimiters = new Map<string, ProviderRateLimiter>();
+
+function getRateLimiter(providerId: string): ProviderRateLimiter {
+  let limiter = rateLimiters.get(providerId);
+  if (!limiter) {
+    limiter = new ProviderRateLimiter(providerId, configuredRateLimits[providerId]);
+    rateLimiters.set(providerId, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * fetch for the provider SDKs that passes every response's headers to the
+ * provider's rate limiter
+ */
+function rateLimitedFetch(providerId: string): typeof fetch {
+  const limiter = getRateLimiter(providerId);
+  return async (input, init) => {
+    const response = await fetch(input, init);
+    limiter.observe(response.headers);
+    return response;
+  };
+}
+
+/**
+ * Delay before retry `attempt` (0-based): Retry-After when the provider sent
+ * one, otherwise exponential backoff with jitter
+ */
+function getRetryDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, LLM_RETRY_MAX_DELAY_MS);
+  }
+  const backoff = Math.min(LLM_RETRY_MAX_DELAY_MS, LLM_RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Retry-After of a failed SDK call, from the error's response headers or
+ * Gemini's RetryInfo details
+ */
+function getRetryAfter(error: unknown): number | undefined {
+  const err = error as { headers?: unknown; errorDetails?: Array<{ '@type'?: string; retryDelay?: string }> };
+  const retryAfterMs = readHeader(err.headers, 'retry-after-ms');
+  if (retryAfterMs && !isNaN(parseFloat(retryAfterMs))) {
+    return parseFloat(retryAfterMs);
+  }
+  const retryAfter = parseResetDelay(readHeader(err.headers, 'retry-after'));
+  if (retryAfter !== undefined) return retryAfter;
+
+  const retryInfo = err.errorDetails?.find(detail => detail['@type']?.endsWith('RetryInfo'));
+  return parseResetDelay(retryInfo?.retryDelay);
+}
+
 /**
  * Get API key for a specific provider
  */
@@ -192,6 +486,37 @@ export interface CallLLMOptions {
   onCacheStatus?: (hit: boolean) => void;
   customApiKey?: string;
   customBaseUrl?: string;
+  signal?: AbortSignal; // Aborts the in-flight provider request
+  responseFormat?: StructuredOutputSpec; // Native JSON-schema output, where the provider supports it
+  onToken?: (text: string) => void; // Receives the answer as it is generated; a cached answer arrives in one piece
+  ledger?: LedgerContext; // Run, repo and stage the call is recorded under in the cost ledger
+  fallbacks?: LLMFallback[]; // Tried in order when the provider is rate limited, out of quota or failing
+  onFallback?: (event: LLMFallbackEvent) => void;
+  onModelUsed?: (provider: string, model: string) => void; // The provider/model that produced the answer
+  onRestart?: () => void; // A retry or fallback starts the answer over; drop text received through onToken so far
+}
+
+export interface LLMFallback {
+  provider: string;
+  model?: string;
+  customApiKey?: string;
+  customBaseUrl?: string;
+}
+
+export type FallbackReason = 'rate_limit' | 'quota' | 'server_error';
+
+export interface LLMFallbackEvent {
+  fromProvider: string;
+  fromModel?: string;
+  toProvider: string;
+  toModel?: string;
+  reason: FallbackReason;
+  error: string;
+}
+
+export interface CallLLMStructuredOptions<T> extends Omit<CallLLMOptions, 'responseFormat' | 'onToken'> {
+  output: StructuredOutputSpec;
+  validate?: (value: T) => string[]; // Checks beyond the schema; failures are sent back for repair
 }
 
 export interface CallLLMResult {
@@ -212,23 +537,48 @@ async function callAnthropic(
   model: string,
   prompt: string,
   temperature: number,
-  maxTokens: number
+  maxTokens: number,
+  signal?: AbortSignal,
+  responseFormat?: StructuredOutputSpec,
+  onDelta?: (text: string) => void
 ): Promise<{ content: string; usage?: { inputTokens: number; outputTokens: number } }> {
   // Dynamic import to avoid loading if not needed
   const { default: Anthropic } = await import('@anthropic-ai/sdk');
   
-  const client = new Anthropic({ apiKey });
+  // Retries are ours (see callLLM), so rate limits and backoff follow one policy
+  const client = new Anthropic({ apiKey, maxRetries: 0, fetch: rateLimitedFetch(PROVIDER_IDS.ANTHROPIC) });
+  
+  // Structured output: force a call to a tool whose input is the schema
+  const tools = responseFormat
+    ? {
+        tools: [{
+          name: responseFormat.name,
+          description: responseFormat.description || `Return the ${responseFormat.name}`,
+          input_schema: responseFormat.schema as unknown as { type: 'object' },
+        }],
+        tool_choice: { type: 'tool' as const, name: responseFormat.name },
+      }
+    : {};
   
-  const response = await client.messages.create({
+  const body = {
     model,
     max_tokens: maxTokens,
     temperature,
-    messages: [{ role: 'user', content: prompt }]
-  });
+    messages: [{ role: 'user' as const, content: prompt }],
+    ...tools,
+  };
+  
+  // A streamed message ends up the same shape as a created one
+  const response = onDelta && !responseFormat
+    ? await client.messages.stream(body, { signal }).on('text', onDelta).finalMessage()
+    : await client.messages.create(body, { signal });
   
-  const content = response.content[0]?.type === 'text' 
-    ? response.content[0].text 
-    : '';
+  const toolUse = response.content.find(block => block.type === 'tool_use');
+  const content = toolUse?.type === 'tool_use'
+    ? JSON.stringify(toolUse.input)
+    : response.content[0]?.type === 'text' 
+      ? response.content[0].text 
+      : '';
   
   return {
     content,
@@ -247,7 +597,10 @@ async function callGoogle(
   model: string,
   prompt: string,
   temperature: number,
-  maxTokens: number
+  maxTokens: number,
+  signal?: AbortSignal,
+  responseFormat?: StructuredOutputSpec,
+  onDelta?: (text: string) => void
 ): Promise<{ content: string; usage?: { inputTokens: number; outputTokens: number } }> {
   // Dynamic import
   const { GoogleGenerativeAI } = await import('@google/generative-ai');
@@ -258,11 +611,27 @@ async function callGoogle(
     generationConfig: {
       temperature,
       maxOutputTokens: maxTokens,
+      // Gemini's schema types use the same names as JSON Schema
+      ...(responseFormat ? {
+        responseMimeType: 'application/json',
+        responseSchema: responseFormat.schema as unknown as ResponseSchema,
+      } : {}),
     }
   });
   
-  const result = await modelInstance.generateContent(prompt);
-  const response = result.response;
+  let response;
+  if (onDelta && !responseFormat) {
+    const result = await modelInstance.generateContentStream(prompt, { signal });
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) onDelta(text);
+    }
+    // Aggregated from the chunks, including usage metadata
+    response = await result.response;
+  } else {
+    const result = await modelInstance.generateContent(prompt, { signal });
+    response = result.response;
+  }
   const content = response.text();
   
   // Try to get usage metadata if available
@@ -288,9 +657,16 @@ async function callOpenAICompatible(
   maxTokens: number,
   baseUrl?: string,
   extraHeaders?: Record<string, string>,
-  providerId?: string
+  providerId?: string,
+  signal?: AbortSignal,
+  responseFormat?: StructuredOutputSpec,
+  onDelta?: (text: string) => void
 ): Promise<{ content: string; usage?: { inputTokens: number; outputTokens: number } }> {
-  const clientConfig: ConstructorParameters<typeof OpenAI>[0] = { apiKey };
+  const clientConfig: ConstructorParameters<typeof OpenAI>[0] = {
+    apiKey,
+    maxRetries: 0, // Retried by callLLM
+    fetch: rateLimitedFetch(providerId || PROVIDER_IDS.OPENAI) as unknown as NonNullable<ConstructorParameters<typeof OpenAI>[0]>['fetch'],
+  };
   
   if (baseUrl) {
     clientConfig.baseURL = baseUrl;
@@ -334,9 +710,24 @@ async function callOpenAICompatible(
     requestParams.max_tokens = maxTokens;
   }
   
+  if (responseFormat) {
+    requestParams.response_format = {
+      type: 'json_schema',
+      json_schema: {
+        name: responseFormat.name,
+        description: responseFormat.description,
+        schema: responseFormat.schema as unknown as Record<string, unknown>,
+      },
+    };
+  }
+  
   log.debug('OpenAI request', { model, baseUrl, isNewerOpenAIModel, isReasoningModel, params: JSON.stringify(requestParams) });
   
-  const response = await client.chat.completions.create(requestParams);
+  if (onDelta && !responseFormat) {
+    return streamOpenAICompatible(client, requestParams, model, providerId, signal, onDelta);
+  }
+  
+  const response = await client.chat.completions.create(requestParams, { signal });
   
   log.debug('OpenAI response', { 
     choices: response.choices?.length,
@@ -368,6 +759,56 @@ async function callOpenAICompatible(
   };
 }
 
+/**
+ * Streaming half of callOpenAICompatible: same request, content handed to
+ * onDelta chunk by chunk
+ */
+async function streamOpenAICompatible(
+  client: OpenAI,
+  requestParams: OpenAI.Chat.Completions.ChatCompletionCreateParams,
+  model: string,
+  providerId: string | undefined,
+  signal: AbortSignal | undefined,
+  onDelta: (text: string) => void
+): Promise<{ content: string; usage?: { inputTokens: number; outputTokens: number } }> {
+  const stream = await client.chat.completions.create({
+    ...requestParams,
+    stream: true,
+    // Only OpenAI is known to accept stream_options; elsewhere usage is simply not reported
+    ...(providerId === PROVIDER_IDS.OPENAI ? { stream_options: { include_usage: true } } : {}),
+  }, { signal });
+  
+  let content = '';
+  let finishReason: string | null = null;
+  let usage: { inputTokens: number; outputTokens: number } | undefined;
+  
+  for await (const chunk of stream) {
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta?.content;
+    if (delta) {
+      content += delta;
+      onDelta(delta);
+    }
+    finishReason = choice?.finish_reason ?? finishReason;
+    if (chunk.usage) {
+      usage = {
+        inputTokens: chunk.usage.prompt_tokens || 0,
+        outputTokens: chunk.usage.completion_tokens || 0
+      };
+    }
+  }
+  
+  log.debug('OpenAI stream finished', { finishReason, contentLength: content.length });
+  
+  if (!content && finishReason === 'content_filter') {
+    throw new Error('Response was filtered by content moderation');
+  } else if (!content && finishReason === 'length') {
+    throw new Error('Response was truncated due to max tokens limit');
+  }
+  
+  return { content, usage };
+}
+
 /**
  * Calculate cost based on provider/model and token usage
  */
@@ -387,9 +828,118 @@ function calculateCost(
 }
 
 /**
- * Main LLM call function with multi-provider support
+ * Whether a provider/model can return schema-constrained JSON natively
+ */
+export function supportsStructuredOutput(providerId: string, modelId?: string): boolean {
+  switch (providerId) {
+    case PROVIDER_IDS.ANTHROPIC:
+    case PROVIDER_IDS.GOOGLE:
+    case PROVIDER_IDS.OLLAMA:
+      return true;
+    case PROVIDER_IDS.OPENAI:
+      // Legacy chat models and o1-mini predate json_schema response formats
+      return !modelId || !(
+        modelId.startsWith('gpt-3.5') ||
+        modelId.startsWith('gpt-4-turbo') ||
+        modelId === 'gpt-4' ||
+        modelId === 'o1-mini'
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Why a failed call may succeed on another provider, from callProvider's
+ * user-facing error messages; null for errors a fallback won't fix
+ */
+function getFallbackReason(error: unknown): FallbackReason | null {
+  const message = error instanceof Error ? error.message : '';
+  if (message.startsWith('⏳')) return 'rate_limit';
+  if (message.startsWith('💳')) return 'quota';
+  if (message.startsWith('🔧')) return 'server_error';
+  return null;
+}
+
+/**
+ * Main LLM call function with multi-provider support.
+ * Retryable failures are retried with backoff; with `fallbacks`, a provider
+ * that stays rate limited or failing after that (or is out of quota) hands
+ * the call to the next one in the list.
  */
 export async function callLLM({
+  fallbacks = [],
+  onFallback,
+  onModelUsed,
+  onRestart,
+  ...options
+}: CallLLMOptions): Promise<string> {
+  const routes: LLMFallback[] = [
+    {
+      provider: options.provider || PROVIDER_IDS.OPENAI,
+      model: options.model,
+      customApiKey: options.customApiKey,
+      customBaseUrl: options.customBaseUrl,
+    },
+    ...fallbacks,
+  ];
+
+  for (let index = 0; ; index++) {
+    const route = routes[index];
+    const next = routes[index + 1];
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const { content, model } = await callProvider({
+          ...options,
+          provider: route.provider,
+          model: route.model,
+          customApiKey: route.customApiKey,
+          customBaseUrl: route.customBaseUrl,
+        });
+        if (onModelUsed) onModelUsed(route.provider, model);
+        return content;
+      } catch (error: unknown) {
+        if (error instanceof LLMProviderError && error.retryable && attempt < LLM_RETRY_ATTEMPTS) {
+          const delay = getRetryDelay(attempt, error.retryAfterMs);
+          // Other calls to a rate-limited provider wait as well
+          if (error.status === 429) getRateLimiter(route.provider).pause(delay);
+          log.warn(`${route.provider} call failed, retrying in ${Math.round(delay / 100) / 10}s`, {
+            attempt: attempt + 1,
+            error: error.message,
+          });
+          await cancellableDelay(delay, options.signal);
+          if (onRestart) onRestart();
+          continue;
+        }
+
+        const reason = getFallbackReason(error);
+        if (!next || !reason) throw error;
+
+        const event: LLMFallbackEvent = {
+          fromProvider: route.provider,
+          fromModel: route.model,
+          toProvider: next.provider,
+          toModel: next.model,
+          reason,
+          error: (error as Error).message,
+        };
+        cacheLog.warn(`LLM fallback: ${route.provider}/${route.model ?? 'default'} -> ${next.provider}/${next.model ?? 'default'}`, {
+          reason,
+          error: event.error,
+        });
+        if (onFallback) onFallback(event);
+        if (onRestart) onRestart();
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Call a single provider; returns the answer and the model that was used
+ */
+async function callProvider({
   prompt,
   provider: providerId = PROVIDER_IDS.OPENAI,
   model: modelId,
@@ -398,9 +948,14 @@ export async function callLLM({
   useCache = true,
   customApiKey,
   customBaseUrl,
-  onCacheStatus
-}: CallLLMOptions): Promise<string> {
+  onCacheStatus,
+  signal,
+  responseFormat,
+  onToken,
+  ledger
+}: Omit<CallLLMOptions, 'fallbacks' | 'onFallback' | 'onModelUsed' | 'onRestart'>): Promise<{ content: string; model: string }> {
   const timer = log.startTimer('LLM call');
+  throwIfCancelled(signal);
   
   // Get provider config
   const provider = getProvider(providerId);
@@ -411,6 +966,11 @@ export async function callLLM({
   // Default to first model if not specified
   const actualModelId = modelId || provider.models[0]?.id || DEFAULT_MODEL;
   
+  // Providers without a JSON mode just answer the prompt as written
+  const nativeFormat = responseFormat && supportsStructuredOutput(providerId, actualModelId)
+    ? responseFormat
+    : undefined;
+  
   // Log the call
   await logToFile(`PROVIDER: ${providerId}, MODEL: ${actualModelId}, PROMPT: ${prompt.substring(0, 100)}...`);
   log.info('LLM call started', { provider: providerId, model: actualModelId });
@@ -428,12 +988,33 @@ export async function callLLM({
       await saveCache();
       
       if (onCacheStatus) onCacheStatus(true);
+      if (onToken) onToken(cached.response);
+      recordLLMCall({
+        ...ledger,
+        provider: providerId,
+        model: actualModelId,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+        cached: true,
+      });
       timer();
-      return cached.response;
+      return { content: cached.response, model: actualModelId };
     }
     
     cache.stats.totalMisses++;
   }
+
+  // A run with a budget stops before the call that would go over it,
+  // counting the call as if it used its whole output allowance
+  const promptTokens = estimateTokens(prompt);
+  const reservedSpend: BudgetUsage = {
+    tokens: promptTokens + maxTokens,
+    cost: calculateCost(providerId, actualModelId, promptTokens, maxTokens),
+  };
+  checkRunBudget(ledger?.runId, reservedSpend);
+  // What the call used, settled against the reservation however the call ends
+  let callSpend: BudgetUsage = { tokens: 0, cost: 0 };
   
   try {
     let result: { content: string; usage?: { inputTokens: number; outputTokens: number } };
@@ -445,15 +1026,18 @@ export async function callLLM({
     
     // Get base URL
     const baseUrl = customBaseUrl || getProviderBaseUrl(providerId);
+
+    const rateLimiter = getRateLimiter(providerId);
+    const slot = await rateLimiter.acquire(promptTokens, signal);
     
     // Route to appropriate SDK
     switch (providerId) {
       case PROVIDER_IDS.ANTHROPIC:
-        result = await callAnthropic(apiKey, actualModelId, prompt, temperature, maxTokens);
+        result = await callAnthropic(apiKey, actualModelId, prompt, temperature, maxTokens, signal, nativeFormat, onToken);
         break;
         
       case PROVIDER_IDS.GOOGLE:
-        result = await callGoogle(apiKey, actualModelId, prompt, temperature, maxTokens);
+        result = await callGoogle(apiKey, actualModelId, prompt, temperature, maxTokens, signal, nativeFormat, onToken);
         break;
         
       case PROVIDER_IDS.OPENROUTER:
@@ -469,7 +1053,10 @@ export async function callLLM({
             'HTTP-Referer': process.env.SITE_URL || 'http://localhost:3000',
             'X-Title': 'GitHub Tutorial Generator'
           },
-          providerId
+          providerId,
+          signal,
+          undefined,
+          onToken
         );
         break;
         
@@ -491,7 +1078,10 @@ export async function callLLM({
           maxTokens, 
           `${azureBaseUrl}/openai/deployments/${actualModelId}`,
           { 'api-key': apiKey },
-          providerId
+          providerId,
+          signal,
+          undefined,
+          onToken
         );
         break;
         
@@ -505,10 +1095,15 @@ export async function callLLM({
           maxTokens, 
           baseUrl,
           undefined,
-          providerId
+          providerId,
+          signal,
+          nativeFormat,
+          onToken
         );
     }
     
+    rateLimiter.recordUsage(slot, result.usage);
+
     if (!result.content) {
       throw new Error(`${providerId} API returned an empty response for model "${actualModelId}". The model may not exist or may require different parameters.`);
     }
@@ -521,14 +1116,27 @@ export async function callLLM({
       outputTokens: result.usage?.outputTokens
     });
     
-    // Calculate cost
-    const cost = result.usage 
-      ? calculateCost(providerId, actualModelId, result.usage.inputTokens, result.usage.outputTokens)
-      : 0;
+    // Calculate cost; count the tokens ourselves when the provider doesn't report them
+    const usage = result.usage ?? {
+      inputTokens: promptTokens,
+      outputTokens: estimateTokens(result.content),
+    };
+    const cost = calculateCost(providerId, actualModelId, usage.inputTokens, usage.outputTokens);
     
     if (cost > 0) {
       log.cost('API call', cost, { provider: providerId, model: actualModelId });
     }
+    recordLLMCall({
+      ...ledger,
+      provider: providerId,
+      model: actualModelId,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cost,
+      cached: false,
+      estimatedTokens: result.usage ? undefined : true,
+    });
+    callSpend = { tokens: usage.inputTokens + usage.outputTokens, cost };
     
     // Update cache if enabled
     if (useCache) {
@@ -547,9 +1155,15 @@ export async function callLLM({
     
     if (onCacheStatus) onCacheStatus(false);
     timer();
-    return result.content;
+    return { content: result.content, model: actualModelId };
     
   } catch (error: unknown) {
+    // A cancelled run is not a provider failure; don't dress it up as one
+    if (isCancelledError(error, signal)) {
+      log.info('LLM call cancelled', { provider: providerId, model: actualModelId });
+      throw new CancelledError();
+    }
+
     const err = error as Error & { code?: string; status?: number; type?: string };
     log.error('LLM call failed', { 
       provider: providerId, 
@@ -557,10 +1171,14 @@ export async function callLLM({
       error: err.message 
     });
     
-    // If the error already has a user-friendly format (starts with emoji), pass it through
-    if (err.message?.match(/^[🔑🚫💳⏳❌🔍🔌⏱️🌐🔧☁️🦙]/)) {
+    // If the error already has a user-friendly format (starts with emoji), pass it through;
+    // those raised before the request was sent (no API key, Azure not configured) are final
+    if (error instanceof LLMProviderError) {
       throw error;
     }
+    if (err.message?.match(/^[🔑🚫💳⏳❌🔍🔌⏱️🌐🔧☁️🦙]/)) {
+      throw new LLMProviderError(err.message, { retryable: false });
+    }
     
     // Get provider display name for user-friendly messages
     const providerName = provider?.name || providerId;
@@ -578,63 +1196,78 @@ export async function callLLM({
     }
     
     // Provide helpful error messages based on status code and error type
+    const status = err.status;
+    const retryAfterMs = getRetryAfter(error);
+    // Per-minute quotas (e.g. Gemini's) come with a time to retry; an empty balance doesn't
+    const isQuotaWindow = status === 429 && retryAfterMs !== undefined && err.code !== 'insufficient_quota';
     if (err.status === 401 || err.code === 'invalid_api_key' || err.message?.includes('authentication_error') || err.message?.includes('invalid x-api-key') || err.message?.includes('Incorrect API key')) {
-      throw new Error(
+      throw new LLMProviderError(
         `🔑 Authentication failed for ${providerName}. ` +
         `Please check that your API key is valid and properly configured. ` +
-        (errorDetails ? `(${errorDetails})` : '')
+        (errorDetails ? `(${errorDetails})` : ''),
+        { status, retryable: false }
       );
     } else if (err.status === 403 || err.message?.includes('permission') || err.message?.includes('forbidden')) {
-      throw new Error(
+      throw new LLMProviderError(
         `🚫 Access denied for ${providerName}. ` +
         `Your API key may not have permission to use this model. ` +
-        (errorDetails ? `(${errorDetails})` : '')
+        (errorDetails ? `(${errorDetails})` : ''),
+        { status, retryable: false }
       );
-    } else if (err.code === 'insufficient_quota' || err.status === 402 || err.message?.includes('quota') || err.message?.includes('billing') || err.message?.includes('Insufficient Balance')) {
-      throw new Error(
+    } else if (!isQuotaWindow && (err.code === 'insufficient_quota' || err.status === 402 || err.message?.includes('quota') || err.message?.includes('billing') || err.message?.includes('Insufficient Balance'))) {
+      throw new LLMProviderError(
         `💳 ${providerName} account has insufficient balance or quota. ` +
-        `Please add credits to your account or check your billing settings.`
+        `Please add credits to your account or check your billing settings.`,
+        { status, retryable: false }
       );
     } else if (err.status === 429 || err.message?.includes('rate_limit') || err.message?.includes('too many requests')) {
-      throw new Error(
+      throw new LLMProviderError(
         `⏳ ${providerName} rate limit exceeded. ` +
-        `Please wait a moment and try again.`
+        `Please wait a moment and try again.`,
+        { status, retryable: true, retryAfterMs }
       );
     } else if (err.status === 400 || err.message?.includes('bad_request')) {
-      throw new Error(
+      throw new LLMProviderError(
         `❌ Bad request to ${providerName}: ${errorDetails || err.message}. ` +
-        `The model "${actualModelId}" may not support the requested parameters.`
+        `The model "${actualModelId}" may not support the requested parameters.`,
+        { status, retryable: false }
       );
     } else if (err.status === 404 || err.message?.includes('not_found') || err.message?.includes('does not exist')) {
-      throw new Error(
+      throw new LLMProviderError(
         `🔍 Model "${actualModelId}" not found on ${providerName}. ` +
-        `Please select a different model.`
+        `Please select a different model.`,
+        { status, retryable: false }
       );
-    } else if (err.message?.includes('ECONNREFUSED')) {
-      if (providerId === PROVIDER_IDS.OLLAMA) {
-        throw new Error(
+    } else if (err.message?.includes('ECONNREFUSED') || err.message?.includes('ECONNRESET')) {
+      if (providerId === PROVIDER_IDS.OLLAMA && err.message.includes('ECONNREFUSED')) {
+        throw new LLMProviderError(
           `🦙 Cannot connect to Ollama. ` +
-          `Make sure Ollama is running with: ollama serve`
+          `Make sure Ollama is running with: ollama serve`,
+          { status, retryable: false }
         );
       }
-      throw new Error(
+      throw new LLMProviderError(
         `🔌 Cannot connect to ${providerName}. ` +
-        `Please check your internet connection.`
+        `Please check your internet connection.`,
+        { status, retryable: true, retryAfterMs }
       );
-    } else if (err.message?.includes('ETIMEDOUT') || err.message?.includes('timeout')) {
-      throw new Error(
+    } else if (err.status === 408 || err.message?.includes('ETIMEDOUT') || err.message?.includes('timeout')) {
+      throw new LLMProviderError(
         `⏱️ Request to ${providerName} timed out. ` +
-        `The service may be slow or unavailable.`
+        `The service may be slow or unavailable.`,
+        { status, retryable: true, retryAfterMs }
       );
     } else if (err.message?.includes('<!DOCTYPE') || err.message?.includes('<html')) {
-      throw new Error(
+      throw new LLMProviderError(
         `🌐 Received HTML instead of JSON from ${providerName}. ` +
-        `The API endpoint may be unreachable or misconfigured.`
+        `The API endpoint may be unreachable or misconfigured.`,
+        { status, retryable: false }
       );
-    } else if (err.status === 500 || err.status === 502 || err.status === 503) {
-      throw new Error(
+    } else if (err.status === 500 || err.status === 502 || err.status === 503 || err.status === 504 || err.status === 529) {
+      throw new LLMProviderError(
         `🔧 ${providerName} service error (${err.status}). ` +
-        `The service may be temporarily unavailable. Please try again later.`
+        `The service may be temporarily unavailable. Please try again later.`,
+        { status, retryable: true, retryAfterMs }
       );
     }
     
@@ -642,6 +1275,116 @@ export async function callLLM({
     throw new Error(
       `❌ ${providerName} error: ${errorDetails || err.message || 'Unknown error occurred'}`
     );
+  } finally {
+    addRunSpend(ledger?.runId, callSpend, reservedSpend);
+  }
+}
+
+/**
+ * Call the LLM for a value matching `output.schema`.
+ * Uses the provider's native JSON-schema mode where available and the prompt's
+ * YAML format otherwise. An answer that fails validation is sent back with the
+ * problems found in a short repair prompt, instead of re-running the whole
+ * prompt; throws StructuredOutputError if it still doesn't validate.
+ */
+export async function callLLMStructured<T>({
+  output,
+  validate,
+  prompt,
+  ...options
+}: CallLLMStructuredOptions<T>): Promise<T> {
+  const providerId = options.provider || PROVIDER_IDS.OPENAI;
+  const native = supportsStructuredOutput(providerId, options.model);
+  const responseFormat = native ? output : undefined;
+
+  let raw = await callLLM({
+    ...options,
+    prompt: native ? `${prompt}\n\n${buildJsonInstruction(output)}` : prompt,
+    responseFormat,
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    const { value, errors } = checkStructuredOutput<T>(raw, output, validate);
+    if (errors.length === 0) {
+      return value as T;
+    }
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      log.error(`Structured output "${output.name}" still invalid after ${attempt} repairs`, { errors });
+      throw new StructuredOutputError(
+        `LLM output for ${output.name} is invalid: ${errors.slice(0, 3).join('; ')}`,
+        errors
+      );
+    }
+
+    log.warn(`Structured output "${output.name}" invalid, asking for a repair`, {
+      attempt: attempt + 1,
+      errors: errors.length,
+    });
+    raw = await callLLM({
+      ...options,
+      prompt: buildRepairPrompt(output, raw, errors),
+      responseFormat,
+    });
+  }
+}
+
+/**
+ * Streaming variant of callLLM: yields the answer's text as it arrives.
+ * Caching, retries of the caller and error messages work exactly as in
+ * callLLM; a failed call throws from the generator once the text received
+ * so far has been yielded. When a fallback starts the answer over, text not
+ * yet yielded is dropped and `onRestart` tells the consumer to drop the rest.
+ */
+export async function* streamLLM(
+  options: Omit<CallLLMOptions, 'responseFormat' | 'onToken'>
+): AsyncGenerator<string, void> {
+  const pending: string[] = [];
+  let wake: (() => void) | null = null;
+  let done = false;
+  let failed = false;
+  let failure: unknown;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  callLLM({
+    ...options,
+    onToken: (text) => {
+      pending.push(text);
+      notify();
+    },
+    onRestart: () => {
+      pending.length = 0;
+      if (options.onRestart) options.onRestart();
+    },
+  })
+    .catch((error: unknown) => {
+      failed = true;
+      failure = error;
+    })
+    .finally(() => {
+      done = true;
+      notify();
+    });
+
+  while (true) {
+    if (pending.length > 0) {
+      // Hand over everything that arrived while the consumer was busy in one piece
+      yield pending.splice(0).join('');
+    } else if (done) {
+      break;
+    } else {
+      await new Promise<void>(resolve => {
+        wake = resolve;
+      });
+    }
+  }
+
+  if (failed) {
+    throw failure;
   }
 }
 
@@ -0,0 +1,266 @@
+/**
+ * Local File Crawler
+ * Crawls a directory on disk, or a shallow git clone of a remote repository,
+ * applying the same include/exclude patterns and size limits as the GitHub crawler
+ */
+
+import * as fs from 'fs/promises';
+import { realpathSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { CrawlerResult } from './githubFileCrawler';
+import { shouldIncludeFile, wouldBeIncluded, isDirectoryExcluded } from './patternMatching';
+import { createScopedLogger } from './cacheLogger';
+
+const execFileAsync = promisify(execFile);
+const log = createScopedLogger('LocalCrawler');
+
+// Version control metadata, never worth walking; everything else is up to the exclude patterns
+const ALWAYS_SKIPPED_DIRS = new Set(['.git', '.hg', '.svn']);
+
+// Keep the excluded-file report small, same limit as the GitHub crawler
+const MAX_EXCLUDED_REPORT = 100;
+
+const GIT_CLONE_TIMEOUT_MS = 5 * 60 * 1000;
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+export interface LocalCrawlerOptions {
+  directory: string;
+  includePatterns: string[];
+  excludePatterns: string[];
+  maxFileSize: number;
+  useRelativePaths?: boolean;
+}
+
+export interface GitCloneCrawlerOptions {
+  repoUrl: string;
+  token?: string;
+  ref?: string; // Branch, tag or commit SHA; defaults to the ref in the URL or the remote HEAD
+  includePatterns: string[];
+  excludePatterns: string[];
+  maxFileSize: number;
+  useRelativePaths?: boolean;
+  signal?: AbortSignal; // Kills the git process when aborted
+}
+
+/**
+ * Resolve a directory requested for a local crawl. Local crawls are off
+ * unless LOCAL_CRAWL_ROOT is set, and only reach directories inside it
+ * (relative paths are taken from it). Returns null for anything else.
+ */
+export function resolveLocalDirectory(directory: string): string | null {
+  const root = process.env.LOCAL_CRAWL_ROOT;
+  if (!root || !directory) return null;
+
+  try {
+    // Real paths, so a symlink inside the root can't lead out of it
+    const realRoot = realpathSync(path.resolve(root));
+    const resolved = realpathSync(path.resolve(realRoot, directory));
+    return resolved === realRoot || resolved.startsWith(realRoot + path.sep) ? resolved : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Crawls a local directory to collect files based on specified patterns
+ * @param options Configuration options for the crawler
+ * @returns Promise that resolves to CrawlerResult containing files and statistics
+ */
+export async function crawlLocalFiles(options: LocalCrawlerOptions): Promise<CrawlerResult> {
+  return walkDirectory(options, 'local_fs');
+}
+
+/**
+ * Shallow-clones a git repository into a temporary directory and crawls it locally.
+ * Avoids GitHub API rate limits entirely; the clone is removed afterwards.
+ * @param options Configuration options for the clone and crawl
+ * @returns Promise that resolves to CrawlerResult containing files and statistics
+ */
+export async function crawlGitClone(options: GitCloneCrawlerOptions): Promise<CrawlerResult> {
+  const { cloneUrl, ref: urlRef, subPath } = parseCloneUrl(options.repoUrl);
+  const ref = options.ref || urlRef;
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'repo-clone-'));
+
+  try {
+    const gitOptions = {
+      timeout: GIT_CLONE_TIMEOUT_MS,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      signal: options.signal,
+    };
+    const authUrl = withToken(cloneUrl, options.token);
+
+    const endTimer = log.startTimer(`git clone ${cloneUrl}`);
+    try {
+      if (ref && COMMIT_SHA_PATTERN.test(ref)) {
+        // --branch only takes branches and tags; a commit is fetched on its own
+        await execFileAsync('git', ['init', '--quiet', tempDir], gitOptions);
+        await execFileAsync('git', ['-C', tempDir, 'fetch', '--quiet', '--depth', '1', authUrl, ref], gitOptions);
+        await execFileAsync('git', ['-C', tempDir, 'checkout', '--quiet', 'FETCH_HEAD'], gitOptions);
+      } else {
+        const args = ['clone', '--depth', '1', '--single-branch'];
+        if (ref) {
+          args.push('--branch', ref);
+        }
+        args.push(authUrl, tempDir);
+        await execFileAsync('git', args, gitOptions);
+      }
+    } catch (error: unknown) {
+      throw new Error(describeGitError(error, cloneUrl, options.token));
+    }
+    endTimer();
+
+    const { stdout: commitSha } = await execFileAsync('git', ['-C', tempDir, 'rev-parse', 'HEAD']);
+
+    const directory = subPath ? path.join(tempDir, subPath) : tempDir;
+    const result = await walkDirectory({ ...options, directory }, 'git_clone');
+    result.stats.base_path = subPath || null;
+    result.stats.ref = ref;
+    result.stats.commit_sha = commitSha.trim();
+    return result;
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch((error) => {
+      log.warn(`Failed to remove temporary clone ${tempDir}`, { error });
+    });
+  }
+}
+
+async function walkDirectory(options: LocalCrawlerOptions, method: string): Promise<CrawlerResult> {
+  const { directory, includePatterns, excludePatterns, maxFileSize, useRelativePaths = true } = options;
+  const rootDir = path.resolve(directory);
+
+  const rootStat = await fs.stat(rootDir).catch(() => null);
+  if (!rootStat || !rootStat.isDirectory()) {
+    throw new Error(`Directory not found: ${directory}`);
+  }
+
+  const files: Record<string, string> = {};
+  const skippedFiles: [string, number][] = [];
+  const excludedFiles: string[] = [];
+  let excludedCount = 0;
+  // Entries that can't be read (no permission, deleted mid-walk) are skipped and reported
+  const unlistedPaths: string[] = [];
+  const failedPaths: string[] = [];
+
+  console.log(`[Local Crawler] Crawling directory: ${rootDir}`);
+
+  const walk = async (dir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      const relDir = path.relative(rootDir, dir).split(path.sep).join('/');
+      log.warn(`Failed to list ${relDir || '.'}`, { error });
+      unlistedPaths.push(relDir || '.');
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      // Always use forward slashes so patterns behave the same on every platform
+      const relPath = path.relative(rootDir, fullPath).split(path.sep).join('/');
+
+      if (entry.isDirectory()) {
+        if (ALWAYS_SKIPPED_DIRS.has(entry.name) || isDirectoryExcluded(relPath, excludePatterns)) {
+          continue;
+        }
+        await walk(fullPath);
+        continue;
+      }
+
+      // Symlinks and special files are skipped to avoid cycles and escaping the root
+      if (!entry.isFile()) continue;
+
+      if (!shouldIncludeFile(relPath, entry.name, includePatterns, excludePatterns)) {
+        if (wouldBeIncluded(relPath, entry.name, includePatterns)) {
+          excludedCount++;
+          if (excludedFiles.length < MAX_EXCLUDED_REPORT) {
+            excludedFiles.push(relPath);
+          }
+        }
+        continue;
+      }
+
+      try {
+        const { size } = await fs.stat(fullPath);
+        if (size > maxFileSize) {
+          skippedFiles.push([relPath, size]);
+          continue;
+        }
+        files[useRelativePaths ? relPath : fullPath] = await fs.readFile(fullPath, 'utf-8');
+      } catch (error) {
+        log.warn(`Failed to read ${relPath}`, { error });
+        failedPaths.push(relPath);
+      }
+    }
+  };
+
+  await walk(rootDir);
+
+  console.log(
+    `[Local Crawler] Collected ${Object.keys(files).length} files (${skippedFiles.length} skipped, ${excludedCount} excluded, ` +
+    `${unlistedPaths.length + failedPaths.length} unreadable)`
+  );
+
+  return {
+    files,
+    stats: {
+      downloaded_count: Object.keys(files).length,
+      skipped_count: skippedFiles.length,
+      skipped_files: skippedFiles,
+      excluded_count: excludedCount,
+      excluded_files: excludedFiles,
+      base_path: rootDir,
+      include_patterns: includePatterns,
+      exclude_patterns: excludePatterns,
+      api_requests: 0,
+      method,
+      unlisted_paths: unlistedPaths.length > 0 ? unlistedPaths : undefined,
+      failed_paths: failedPaths.length > 0 ? failedPaths : undefined,
+    },
+  };
+}
+
+/**
+ * Splits a browser-style GitHub URL (…/tree/<ref>/<path>) into a clonable URL,
+ * ref and sub-path. Other git URLs are passed through unchanged.
+ */
+function parseCloneUrl(repoUrl: string): { cloneUrl: string; ref?: string; subPath?: string } {
+  const match = repoUrl.match(/^(https:\/\/github\.com\/[^/]+\/[^/]+?)(?:\.git)?(?:\/tree\/([^/]+)(?:\/(.+))?)?\/?$/);
+  if (!match) {
+    return { cloneUrl: repoUrl };
+  }
+
+  const [, base, ref, subPath] = match;
+  return { cloneUrl: `${base}.git`, ref, subPath: subPath?.replace(/\/$/, '') };
+}
+
+function withToken(cloneUrl: string, token?: string): string {
+  if (!token || !cloneUrl.startsWith('https://')) return cloneUrl;
+  return cloneUrl.replace('https://', `https://x-access-token:${encodeURIComponent(token)}@`);
+}
+
+function describeGitError(error: unknown, cloneUrl: string, token?: string): string {
+  const err = error as NodeJS.ErrnoException & { stderr?: string; killed?: boolean };
+
+  if (err.code === 'ENOENT') {
+    return 'git is not installed or not on PATH. Install git or use the GitHub API crawler instead.';
+  }
+  if (err.killed) {
+    return `git clone of ${cloneUrl} timed out after ${GIT_CLONE_TIMEOUT_MS / 1000}s.`;
+  }
+
+  let details = (err.stderr || err.message || 'Unknown error').trim();
+  // Never leak the token embedded in the clone URL
+  if (token) {
+    details = details.split(token).join('***').split(encodeURIComponent(token)).join('***');
+  }
+
+  if (/Authentication failed|could not read Username|Repository not found/i.test(details)) {
+    return `git clone failed for ${cloneUrl}: repository not found or access denied. Check the URL and your GitHub token.`;
+  }
+  return `git clone failed for ${cloneUrl}: ${details}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Markdown Rendering
+ * Converts generated tutorial Markdown to HTML with highlighted code blocks.
+ * Mermaid blocks are emitted as <pre class="mermaid"> for the browser to render,
+ * or replaced by pre-rendered SVG when exporting.
+ * Works both in the browser and on the server (no DOM required).
+ */
+
+import { Marked, type Tokens } from 'marked';
+import hljs from 'highlight.js/lib/common';
+
+// Link protocols that could run script when clicked
+const UNSAFE_URL_PATTERN = /^\s*(javascript|vbscript|data):/i;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Highlight a code snippet, falling back to auto-detection for unknown languages
+ */
+export function highlightCode(code: string, lang?: string): string {
+  const language = lang?.trim().split(/\s+/)[0].toLowerCase();
+  if (language && hljs.getLanguage(language)) {
+    return hljs.highlight(code, { language }).value;
+  }
+  return hljs.highlightAuto(code).value;
+}
+
+export interface RenderMarkdownOptions {
+  // Pre-rendered SVG for a Mermaid block, looked up by its trimmed source
+  renderMermaid?: (source: string) => string | undefined;
+  // Rewrite link targets, e.g. chapter .md links to in-page anchors
+  resolveLink?: (href: string) => string;
+}
+
+function createMarked(options: RenderMarkdownOptions = {}): Marked {
+  const { renderMermaid, resolveLink } = options;
+
+  return new Marked({
+    gfm: true,
+    renderer: {
+      code({ text, lang }: Tokens.Code) {
+        if (lang?.trim() === 'mermaid') {
+          const svg = renderMermaid?.(text.trim());
+          if (svg) {
+            return `<div class="mermaid-diagram">${svg}</div>\n`;
+          }
+          return `<pre class="mermaid">${escapeHtml(text)}</pre>\n`;
+        }
+        const languageClass = lang ? ` language-${escapeHtml(lang.trim().split(/\s+/)[0])}` : '';
+        return `<pre><code class="hljs${languageClass}">${highlightCode(text, lang)}</code></pre>\n`;
+      },
+      // LLM output is untrusted: show raw HTML as text instead of injecting it
+      html({ text }: Tokens.HTML | Tokens.Tag) {
+        return escapeHtml(text);
+      },
+    },
+    walkTokens(token) {
+      if (token.type === 'link' || token.type === 'image') {
+        if (UNSAFE_URL_PATTERN.test(token.href)) {
+          token.href = '#';
+        } else if (token.type === 'link' && resolveLink) {
+          token.href = resolveLink(token.href);
+        }
+      }
+    },
+  });
+}
+
+const defaultMarked = createMarked();
+
+/**
+ * Render tutorial Markdown to an HTML string
+ */
+export function renderMarkdown(markdown: string, options?: RenderMarkdownOptions): string {
+  const marked = options ? createMarked(options) : defaultMarked;
+  return marked.parse(markdown, { async: false });
+}
+
+/**
+ * Extract the source of every Mermaid block in a Markdown document (trimmed)
+ */
+export function extractMermaidBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  const fence = /^```mermaid[^\S\n]*\n([\s\S]*?)^```/gm;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(markdown)) !== null) {
+    blocks.push(match[1].trim());
+  }
+  return blocks;
+}
@@ -14,11 +14,67 @@ import { Node, BatchNode } from "pocketflow"; // Assuming pocketflow types are a
 
 // Assuming these utility functions exist and are async
 import { githubFileCrawler } from "@/lib/githubFileCrawler"; // Assuming this is the correct import path
-// import { crawlLocalFiles } from "@/utils/crawl_local_files";
-import { callLLM } from "@/lib/llmMultiProvider"; // Updated to use multi-provider LLM
-import { CrawlerResult } from "@/lib/githubFileCrawler"; // Assuming this is the correct import path
-import { PROVIDER_IDS } from "@/lib/constants/llm";
+import { crawlLocalFiles, crawlGitClone } from "@/lib/localFileCrawler";
+import {
+  streamLLM,
+  callLLMStructured,
+  isRetryableLLMError,
+  type LLMFallback,
+  type LLMFallbackEvent,
+} from "@/lib/llmMultiProvider"; // Updated to use multi-provider LLM
+import { CrawlerResult, FileStats } from "@/lib/githubFileCrawler"; // Assuming this is the correct import path
+import {
+  PROVIDER_IDS,
+  LLM_STAGES,
+  getSummaryModel,
+  DEFAULT_MAX_ABSTRACTIONS,
+  SUMMARY_BATCH_FILES,
+  MAX_SUMMARY_SOURCE_TOKENS,
+  SUMMARY_PROMPT_TOKENS,
+  SUMMARY_OUTPUT_TOKENS_PER_FILE,
+  MAX_ABSTRACTION_CHUNKS,
+  ABSTRACTION_PROMPT_TOKENS,
+  RELATIONSHIPS_PROMPT_TOKENS,
+  WRITE_CHAPTER_PROMPT_TOKENS,
+  MAX_PREVIOUS_CHAPTERS_SHARE,
+  type LLMStage,
+  type StageModelConfig,
+  type StageModelMap,
+} from "@/lib/constants/llm";
 import { cacheLog } from "@/lib/cacheLogger";
+import type { LedgerContext } from "@/lib/costLedger";
+import {
+  saveStepOutput,
+  loadStepOutput,
+  saveChapterCheckpoint,
+  loadChapterCheckpoints,
+  type ChapterModel,
+} from "@/lib/runCheckpoints";
+import {
+  CancelledError,
+  cancellableDelay,
+  isCancelledError,
+  throwIfCancelled,
+} from "@/lib/cancellation";
+import {
+  describePacking,
+  estimateTokens,
+  getContextBudget,
+  orderByRank,
+  packFiles,
+  planContextChunks,
+  truncateToTokens,
+  type ContextFile,
+  type PackedFile,
+} from "@/lib/contextPlanner";
+import {
+  formatFileSummary,
+  loadFileSummary,
+  saveFileSummary,
+  type FileSummary,
+} from "@/lib/fileSummaries";
+import type { StructuredOutputSpec } from "@/lib/structuredOutput";
+import type { ProgressCallback } from "@/lib/tutorialFlow";
 
 // Define types for shared data for better type safety
 interface SharedData {
@@ -29,7 +85,17 @@ interface SharedData {
   include_patterns?: string[];
   exclude_patterns?: string[];
   max_file_size?: number;
+  use_git_clone?: boolean; // Shallow-clone repo_url instead of using the GitHub API
   files?: [string, string][]; // Array of [path, content] tuples
+  ref?: string; // Branch, tag or commit of repo_url to crawl; unset for the URL's ref or the default branch
+  package_path?: string; // Monorepo package the files were narrowed to (see workspaces)
+  commit_sha?: string; // Commit the files were read at
+  base_commit_sha?: string; // Previous crawl's commit, when only the files changed since were fetched
+  changed_paths?: string[]; // Files changed between base_commit_sha and commit_sha
+  manifest_id?: string; // Blob store manifest of the files
+  summarize_files?: boolean; // Summarise files before identifying abstractions (default: only when the repo doesn't fit the context window)
+  chapter_concurrency?: number; // Chapters written at once (default 1); above 1, chapters see an outline of the others instead of earlier chapters' text
+  file_summaries?: Record<number, FileSummary>; // File index -> summary
   language?: string;
   use_cache?: boolean;
   max_abstraction_num?: number;
@@ -46,6 +112,14 @@ interface SharedData {
   llm_model?: string;     // Model ID
   llm_api_key?: string;   // API key for the provider
   llm_base_url?: string;  // Custom base URL (for Ollama, Azure, etc.)
+  stage_models?: StageModelMap; // Per-stage provider/model overrides (without API keys)
+  stage_api_keys?: Partial<Record<LLMStage, string>>; // API keys for stage_models; never checkpointed
+  llm_fallbacks?: StageModelConfig[]; // Tried in order when a provider is rate limited, out of quota or down (without API keys)
+  llm_fallback_api_keys?: string[]; // API keys for llm_fallbacks, by index; never checkpointed
+
+  // Spending caps for the run (see runBudget); LLM calls that would go over them are refused
+  max_cost_usd?: number;
+  max_tokens?: number;
   
   // Partial regeneration support
   regeneration_mode?: 'full' | 'partial' | 'partial_reidentify' | 'skip';
@@ -53,6 +127,15 @@ interface SharedData {
   cached_chapters?: Record<string, string>;  // slug -> cached content
   cached_abstractions?: Abstraction[];
   cached_relationships?: RelationshipData;
+
+  // Resumable runs: step outputs are checkpointed under this ID
+  run_id?: string;
+
+  // Cancels the run: stops retries and aborts in-flight LLM requests
+  abort_signal?: AbortSignal;
+
+  // Progress reporting, set by runTutorialFlowWithProgress
+  _onProgress?: ProgressCallback;
 }
 
 interface Abstraction {
@@ -84,20 +167,23 @@ interface ChapterFilenameInfo {
 
 /**
  * Given the full `files` array ([path, content]) and a list of indices, return
- * a map keyed `"idx # path"` → file contents. Used to build LLM context.
+ * those files most important first, ready for packing into an LLM context.
+ * Files with a summary can be packed as their summary when they don't fit.
  */
-function getContentForIndices(
+function getRankedFiles(
   filesData: [string, string][],
-  indices: number[]
-): Record<string, string> {
-  const map: Record<string, string> = {};
-  for (const i of indices) {
-    if (i >= 0 && i < filesData.length) {
-      const [p, c] = filesData[i];
-      map[`${i} # ${p}`] = c;
-    }
-  }
-  return map;
+  indices: number[],
+  summaries?: Record<number, FileSummary>
+): ContextFile[] {
+  return orderByRank(
+    filesData,
+    indices.filter((i) => i >= 0 && i < filesData.length)
+  ).map((i) => ({
+    index: i,
+    path: filesData[i][0],
+    content: filesData[i][1],
+    summary: summaries?.[i] ? formatFileSummary(summaries[i]) : undefined,
+  }));
 }
 
 /**
@@ -110,10 +196,148 @@ function createSafeFilename(name: string, prefix: number): string {
   return `${paddedPrefix}_${safeBase}.md`;
 }
 
+interface StageLLM {
+  llmProvider: string;
+  llmModel?: string;
+  customApiKey?: string;
+  llmBaseUrl?: string;
+  fallbacks: LLMFallback[];
+  ledger: LedgerContext;
+}
+
+/**
+ * The provider/model a pipeline stage runs on: its `stage_models` entry if it
+ * has one, otherwise the main selection (summaries default to the provider's
+ * cheap summary model). The main API key and base URL are only reused for a
+ * stage on the same provider; otherwise the key comes from the environment.
+ * The same rules apply to the `llm_fallbacks` every stage shares.
+ */
+function getStageLLM(shared: SharedData, stage: LLMStage): StageLLM {
+  const mainProvider = shared.llm_provider || PROVIDER_IDS.OPENAI;
+  const mainApiKey = shared.llm_api_key || shared.openai_api_key; // Prefer new, fallback to legacy
+  const assigned = shared.stage_models?.[stage];
+  const ledger: LedgerContext = {
+    runId: shared.run_id,
+    repo: shared.repo_url || shared.project_name,
+    stage,
+  };
+
+  const fallbacks: LLMFallback[] = (shared.llm_fallbacks ?? []).flatMap((fallback, index) => {
+    if (!fallback?.provider) return [];
+    const sameProvider = fallback.provider === mainProvider;
+    return [{
+      provider: fallback.provider,
+      model: fallback.model || (stage === LLM_STAGES.SUMMARIES ? getSummaryModel(fallback.provider) : undefined),
+      customApiKey: shared.llm_fallback_api_keys?.[index] || (sameProvider ? mainApiKey : undefined),
+      customBaseUrl: fallback.baseUrl || (sameProvider ? shared.llm_base_url : undefined),
+    }];
+  });
+
+  if (!assigned?.provider) {
+    return {
+      llmProvider: mainProvider,
+      llmModel: stage === LLM_STAGES.SUMMARIES
+        ? getSummaryModel(mainProvider, shared.llm_model)
+        : shared.llm_model,
+      customApiKey: mainApiKey,
+      llmBaseUrl: shared.llm_base_url,
+      fallbacks,
+      ledger,
+    };
+  }
+
+  const sameProvider = assigned.provider === mainProvider;
+  return {
+    llmProvider: assigned.provider,
+    llmModel: assigned.model || (stage === LLM_STAGES.SUMMARIES ? getSummaryModel(assigned.provider) : undefined),
+    customApiKey: shared.stage_api_keys?.[stage] || (sameProvider ? mainApiKey : undefined),
+    llmBaseUrl: assigned.baseUrl || (sameProvider ? shared.llm_base_url : undefined),
+    fallbacks,
+    ledger,
+  };
+}
+
+const FALLBACK_REASONS: Record<LLMFallbackEvent["reason"], string> = {
+  rate_limit: "rate limited",
+  quota: "out of quota",
+  server_error: "unavailable",
+};
+
+/**
+ * An `onFallback` handler that reports a switch to the next fallback model in
+ * the progress stream (callLLM already logs it)
+ */
+function reportFallback(
+  onProgress: ProgressCallback | undefined,
+  progress: number
+): (event: LLMFallbackEvent) => void {
+  return (event) => {
+    if (!onProgress) return;
+    void onProgress({
+      stage: "llm_fallback",
+      message: `${event.fromProvider}/${event.fromModel ?? "default"} is ${FALLBACK_REASONS[event.reason]}, ` +
+        `switching to ${event.toProvider}/${event.toModel ?? "default"}`,
+      progress,
+      fallback: event,
+    });
+  };
+}
+
+/**
+ * Runs `node.exec` with Pocket Flow's retry policy (maxRetries / wait), except
+ * that a cancelled run gives up straight away instead of being retried, and
+ * LLM provider errors are not retried either: callLLM has already retried
+ * rate limits and 5xx with backoff and tried the fallbacks, so another round
+ * here would only multiply the calls. Other failures (e.g. an unparseable
+ * response) are retried as before.
+ * The attempt is counted locally so concurrent calls on one node don't share it.
+ */
+async function execWithRetries(
+  node: Node<SharedData>,
+  prepRes: unknown,
+  signal?: AbortSignal
+): Promise<unknown> {
+  for (let attempt = 0; attempt < node.maxRetries; attempt++) {
+    throwIfCancelled(signal);
+    node.currentRetry = attempt;
+    try {
+      return await node.exec(prepRes);
+    } catch (error) {
+      if (isCancelledError(error, signal)) throw new CancelledError();
+      // Provider errors were retried inside callLLM; a spent budget can't be retried
+      if (attempt === node.maxRetries - 1 || !isRetryableLLMError(error)) {
+        return await node.execFallback(prepRes, error as Error);
+      }
+      if (node.wait > 0) await cancellableDelay(node.wait * 1000, signal);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Base for the tutorial nodes: picks up `shared.abort_signal` so a cancelled
+ * run stops before the next node and between retries.
+ */
+abstract class CancellableNode extends Node<SharedData> {
+  protected signal?: AbortSignal;
+
+  async _run(shared: SharedData) {
+    this.signal = shared.abort_signal;
+    throwIfCancelled(this.signal);
+    return super._run(shared);
+  }
+
+  async _exec(prepRes: unknown): Promise<unknown> {
+    return execWithRetries(this, prepRes, this.signal);
+  }
+}
+
 /* -------------------------------------------------------------------------
  * FetchRepo
  * ------------------------------------------------------------------------- */
-export class FetchRepo extends Node<SharedData> {
+export class FetchRepo extends CancellableNode {
+  private crawlStats?: FileStats;
+
   async prep(shared: SharedData) {
     let {
       repo_url: repoUrl,
@@ -138,7 +362,9 @@ export class FetchRepo extends Node<SharedData> {
       exclude_patterns: excludePatterns,
       max_file_size: maxFileSize,
       github_token: token,
+      ref,
       use_cache: useCache = true,
+      use_git_clone: useGitClone = false,
     } = shared;
 
     // Ensure required patterns/size are provided (or handle defaults if applicable)
@@ -157,11 +383,13 @@ export class FetchRepo extends Node<SharedData> {
       repoUrl,
       localDir,
       token,
+      ref,
       includePatterns,
       excludePatterns,
       maxFileSize,
       useRelativePaths: true, // Consistent with Python code
       useCache,
+      useGitClone,
     } as const; // Use 'as const' for stricter typing of the return object
   }
 
@@ -170,26 +398,51 @@ export class FetchRepo extends Node<SharedData> {
       repoUrl,
       localDir,
       token,
+      ref,
       includePatterns,
       excludePatterns,
       maxFileSize,
       useRelativePaths,
       useCache,
+      useGitClone,
     } = await prepRes;
 
     let result: CrawlerResult;
-    if(repoUrl){
-    console.log(`Crawling repository: ${repoUrl}...`);
-    result = await githubFileCrawler({
-      // Assuming async
-      repoUrl: repoUrl,
-      token: token,
-      includePatterns: includePatterns,
-      excludePatterns: excludePatterns,
-      maxFileSize: maxFileSize,
-      useRelativePaths: useRelativePaths,
-    });
-    } else { 
+    if (localDir) {
+      // Local checkout takes precedence; repo_url is then only used for links
+      console.log(`Crawling local directory: ${localDir}...`);
+      result = await crawlLocalFiles({
+        directory: localDir,
+        includePatterns: includePatterns,
+        excludePatterns: excludePatterns,
+        maxFileSize: maxFileSize,
+        useRelativePaths: useRelativePaths,
+      });
+    } else if (repoUrl && useGitClone) {
+      console.log(`Cloning repository: ${repoUrl}...`);
+      result = await crawlGitClone({
+        repoUrl: repoUrl,
+        token: token,
+        ref: ref,
+        includePatterns: includePatterns,
+        excludePatterns: excludePatterns,
+        maxFileSize: maxFileSize,
+        useRelativePaths: useRelativePaths,
+        signal: this.signal,
+      });
+    } else if (repoUrl) {
+      console.log(`Crawling repository: ${repoUrl}...`);
+      result = await githubFileCrawler({
+        // Assuming async
+        repoUrl: repoUrl,
+        token: token,
+        ref: ref,
+        includePatterns: includePatterns,
+        excludePatterns: excludePatterns,
+        maxFileSize: maxFileSize,
+        useRelativePaths: useRelativePaths,
+      });
+    } else {
       throw new Error("No repository URL or local directory provided.");
     }
 
@@ -204,6 +457,7 @@ export class FetchRepo extends Node<SharedData> {
     }
 
     console.log(`Fetched ${filesList.length} files.`);
+    this.crawlStats = result.stats;
     return filesList as [string, string][]; // Ensure correct type casting
   }
 
@@ -214,109 +468,315 @@ export class FetchRepo extends Node<SharedData> {
   ): Promise<string | undefined> {
     // Store the fetched files list in shared data
     shared.files = execRes;
+    // Recorded in the repo cache for the next run's change analysis
+    if (this.crawlStats?.commit_sha) shared.commit_sha = this.crawlStats.commit_sha;
+    if (this.crawlStats?.manifest_id) shared.manifest_id = this.crawlStats.manifest_id;
+    saveStepOutput(shared.run_id, "fetch_repo", execRes);
     return undefined;
   }
 }
 
 /* -------------------------------------------------------------------------
- * IdentifyAbstractions
+ * SummarizeFiles
  * ------------------------------------------------------------------------- */
-export class IdentifyAbstractions extends Node<SharedData> {
+
+// Cap on symbols kept per summary list
+const MAX_SUMMARY_ITEMS = 15;
+
+/**
+ * Prompt asking for a short structured summary of each file in a batch
+ */
+function buildSummariesPrompt(projectName: string, files: ContextFile[]): string {
+  const context = files
+    .map(
+      (file) =>
+        `--- File Index ${file.index}: ${file.path} ---\n${truncateToTokens(file.content, MAX_SUMMARY_SOURCE_TOKENS)}\n\n`
+    )
+    .join("");
+
+  return `
+For the project \`${projectName}\`, summarise each of the following source files for a developer who has not seen the code.
+
+${context}
+For each file, provide:
+1. \`index\`: the file index.
+2. \`purpose\`: one or two sentences on what the file is for.
+3. \`exports\`: the main symbols it defines or exports (functions, classes, types, constants).
+4. \`dependencies\`: the project files and packages it relies on.
+
+Format the output as a YAML list with one entry per file:
+
+\`\`\`yaml
+- index: 0
+  purpose: |
+    Parses command-line options and starts the HTTP server.
+  exports:
+    - main
+    - parseOptions
+  dependencies:
+    - ./server
+    - yargs
+\`\`\``;
+}
+
+interface FileSummariesOutput {
+  summaries: { index: number; purpose: string; exports?: string[]; dependencies?: string[] }[];
+}
+
+const FILE_SUMMARIES_OUTPUT: StructuredOutputSpec = {
+  name: "file_summaries",
+  description: "One short summary per source file",
+  schema: {
+    type: "object",
+    properties: {
+      summaries: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            index: { type: "integer" },
+            purpose: { type: "string" },
+            exports: { type: "array", items: { type: "string" } },
+            dependencies: { type: "array", items: { type: "string" } },
+          },
+          required: ["index", "purpose"],
+        },
+      },
+    },
+    required: ["summaries"],
+  },
+};
+
+/**
+ * Pick the summaries of the expected files out of a validated response.
+ * Files the model skipped are simply used unsummarised.
+ */
+function toFileSummaries(
+  output: FileSummariesOutput,
+  expectedIndices: Set<number>
+): Map<number, FileSummary> {
+  const toList = (values?: string[]): string[] =>
+    (values ?? []).map((value) => value.trim()).filter(Boolean).slice(0, MAX_SUMMARY_ITEMS);
+
+  const summaries = new Map<number, FileSummary>();
+  for (const item of output.summaries) {
+    if (!expectedIndices.has(item.index)) continue;
+    summaries.set(item.index, {
+      purpose: item.purpose.trim(),
+      exports: toList(item.exports),
+      dependencies: toList(item.dependencies),
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Optional pre-pass: summarises every file with a cheap model so that later
+ * steps can use summaries instead of raw source for large repos. Summaries
+ * are cached by content hash, so re-runs only summarise changed files.
+ */
+export class SummarizeFiles extends CancellableNode {
   private _shared?: SharedData;
-  
+
   async prep(shared: SharedData) {
-    // Store shared reference for progress callback access
     this._shared = shared;
-    
+
     const filesData = shared.files;
     const projectName = shared.project_name;
-    const language = shared.language ?? "english";
-    const useCache = shared.use_cache ?? true;
-    const maxAbs = shared.max_abstraction_num ?? 10;
-    const customApiKey = shared.llm_api_key || shared.openai_api_key; // Get custom API key (prefer new, fallback to legacy)
-    const llmProvider = shared.llm_provider || PROVIDER_IDS.OPENAI;
-    const llmModel = shared.llm_model;
-    const llmBaseUrl = shared.llm_base_url;
+    const {
+      customApiKey,
+      llmProvider,
+      llmModel: summaryModel,
+      llmBaseUrl,
+      fallbacks,
+      ledger,
+    } = getStageLLM(shared, LLM_STAGES.SUMMARIES);
 
-    if (!filesData || filesData.length === 0) {
-      throw new Error(
-        "No files data found in shared state for IdentifyAbstractions."
-      );
-    }
-    if (!projectName) {
-      throw new Error("Project name not found in shared state.");
+    if (shared.summarize_files === false || !filesData || filesData.length === 0 || !projectName) {
+      return null;
     }
 
-    let context = "";
-    const fileInfo: [number, string][] = []; // Store [index, path] tuples
+    // By default only summarise repos that don't fit the abstraction prompt
+    if (shared.summarize_files === undefined) {
+      const fileListing = filesData.map(([path], index) => `- ${index} # ${path}`).join("\n");
+      const abstractionsLLM = getStageLLM(shared, LLM_STAGES.ABSTRACTIONS);
+      const budget = getContextBudget({
+        provider: abstractionsLLM.llmProvider,
+        model: abstractionsLLM.llmModel,
+        reservedTokens: ABSTRACTION_PROMPT_TOKENS + estimateTokens(fileListing),
+      });
+      const totalTokens = filesData.reduce((sum, [, content]) => sum + estimateTokens(content), 0);
+      if (totalTokens <= budget) {
+        return null;
+      }
+    }
 
-    // Build the context string and file info list
+    // Reuse summaries of unchanged files
+    const cached: Record<number, FileSummary> = {};
+    const pending: ContextFile[] = [];
     filesData.forEach(([path, content], index) => {
-      context += `--- File Index ${index}: ${path} ---\n${content}\n\n`;
-      fileInfo.push([index, path]);
+      const summary = loadFileSummary(content);
+      if (summary) {
+        cached[index] = summary;
+      } else {
+        pending.push({ index, path, content });
+      }
     });
+    cacheLog.info(`File summaries: ${Object.keys(cached).length} cached, ${pending.length} to summarise`);
 
-    // Create a formatted string listing files for the LLM prompt
-    const fileListing = fileInfo
-      .map(([index, path]) => `- ${index} # ${path}`)
-      .join("\n");
+    // Group the remaining files into batches that fit the summary model
+    const budget = getContextBudget({
+      provider: llmProvider,
+      model: summaryModel,
+      reservedTokens: SUMMARY_PROMPT_TOKENS,
+      outputTokens: SUMMARY_BATCH_FILES * SUMMARY_OUTPUT_TOKENS_PER_FILE,
+    });
+    const batches: ContextFile[][] = [];
+    let current: ContextFile[] = [];
+    let currentTokens = 0;
+    for (const file of pending) {
+      const tokens = Math.min(estimateTokens(file.content), MAX_SUMMARY_SOURCE_TOKENS);
+      if (current.length >= SUMMARY_BATCH_FILES || (current.length > 0 && currentTokens + tokens > budget)) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(file);
+      currentTokens += tokens;
+    }
+    if (current.length > 0) batches.push(current);
 
     return {
-      context,
-      fileListing,
-      fileCount: filesData.length,
+      cached,
+      batches,
       projectName,
-      language,
-      useCache,
-      maxAbs,
+      useCache: shared.use_cache ?? true,
       customApiKey,
       llmProvider,
-      llmModel,
+      summaryModel,
       llmBaseUrl,
+      fallbacks,
+      ledger,
     } as const;
   }
 
-  async exec(prepRes: ReturnType<this["prep"]>): Promise<Abstraction[]> {
+  async exec(prepRes: ReturnType<this["prep"]>): Promise<Record<number, FileSummary> | null> {
+    const prep = await prepRes;
+    if (!prep) return null; // Stage not needed for this run
     const {
-      context,
-      fileListing,
-      fileCount,
+      cached,
+      batches,
       projectName,
-      language,
       useCache,
-      maxAbs,
       customApiKey,
       llmProvider,
-      llmModel,
+      summaryModel,
       llmBaseUrl,
-    } = await prepRes;
-    
-    // Get progress callback from shared
+      fallbacks,
+      ledger,
+    } = prep;
+
     const onProgress = this._shared?._onProgress;
-    
-    if (onProgress) {
-      await onProgress({
-        stage: 'abstractions',
-        message: 'Analyzing codebase and identifying key concepts...',
-        progress: 15
+    const summaries: Record<number, FileSummary> = { ...cached };
+
+    console.log(`Summarising files in ${batches.length} batches using ${summaryModel ?? "the default model"}...`);
+
+    for (const [i, batch] of batches.entries()) {
+      // Batches summarised before a retry are already in the cache
+      const remaining = batch.filter((file) => {
+        const summary = loadFileSummary(file.content);
+        if (summary) summaries[file.index] = summary;
+        return !summary;
+      });
+      if (remaining.length === 0) continue;
+
+      if (onProgress) {
+        await onProgress({
+          stage: 'summaries',
+          message: `Summarising files (batch ${i + 1}/${batches.length})...`,
+          progress: 12
+        });
+      }
+
+      const output = await callLLMStructured<FileSummariesOutput>({
+        prompt: buildSummariesPrompt(projectName, remaining),
+        useCache,
+        customApiKey,
+        provider: llmProvider,
+        model: summaryModel,
+        customBaseUrl: llmBaseUrl,
+        fallbacks,
+        onFallback: reportFallback(onProgress, 12),
+        ledger,
+        signal: this.signal,
+        output: FILE_SUMMARIES_OUTPUT,
       });
+      const parsed = toFileSummaries(output, new Set(remaining.map((file) => file.index)));
+      for (const file of remaining) {
+        const summary = parsed.get(file.index);
+        if (summary) {
+          summaries[file.index] = summary;
+          saveFileSummary(file.content, file.path, summary, summaryModel);
+        }
+      }
     }
-    
-    console.log("Identifying abstractions using LLM...");
 
-    // Determine language-specific instructions and hints
-    const langCap =
-      language.toLowerCase() !== "english"
-        ? language.charAt(0).toUpperCase() + language.slice(1)
-        : "";
-    const languageInstruction = langCap
-      ? `IMPORTANT: Generate the \`name\` and \`description\` for each abstraction in **${langCap}** language. Do NOT use English for these fields.\n\n`
-      : "";
-    const nameLangHint = langCap ? ` (value in ${langCap})` : "";
-    const descLangHint = langCap ? ` (value in ${langCap})` : "";
+    console.log(`Summarised ${Object.keys(summaries).length} files.`);
+    return summaries;
+  }
 
-    // Construct the prompt for the LLM
-    const prompt = `
+  async post(
+    shared: SharedData,
+    _prepRes: unknown,
+    execRes: Record<number, FileSummary> | null
+  ): Promise<string | undefined> {
+    if (execRes) {
+      shared.file_summaries = execRes;
+    }
+    return undefined;
+  }
+}
+
+/* -------------------------------------------------------------------------
+ * IdentifyAbstractions
+ * ------------------------------------------------------------------------- */
+
+/**
+ * Format packed files as "--- File Index N: path ---" blocks, in index order
+ */
+function formatPackedFiles(files: PackedFile[]): string {
+  return [...files]
+    .sort((a, b) => a.index - b.index)
+    .map((file) => {
+      const mode = file.mode === "full" ? "" : ` (${file.mode})`;
+      return `--- File Index ${file.index}: ${file.path}${mode} ---\n${file.content}\n\n`;
+    })
+    .join("");
+}
+
+/**
+ * Prompt asking for the core abstractions in (part of) the codebase
+ */
+function buildAbstractionsPrompt(
+  projectName: string,
+  context: string,
+  fileListing: string,
+  language: string,
+  maxAbs: number
+): string {
+  // Determine language-specific instructions and hints
+  const langCap =
+    language.toLowerCase() !== "english"
+      ? language.charAt(0).toUpperCase() + language.slice(1)
+      : "";
+  const languageInstruction = langCap
+    ? `IMPORTANT: Generate the \`name\` and \`description\` for each abstraction in **${langCap}** language. Do NOT use English for these fields.\n\n`
+    : "";
+  const nameLangHint = langCap ? ` (value in ${langCap})` : "";
+  const descLangHint = langCap ? ` (value in ${langCap})` : "";
+
+  // Construct the prompt for the LLM
+  const prompt = `
 For the project \`${projectName}\`:
 
 Codebase Context:
@@ -352,104 +812,289 @@ Format the output as a YAML list of dictionaries:
     - 5 # path/to/another.js
 # ... up to ${maxAbs} abstractions
 \`\`\``;
+  return prompt;
+}
 
-    // Call the LLM with cache context and custom API key
-    const response = await callLLM({ 
-      prompt, 
-      useCache,
-      customApiKey,
-      provider: llmProvider,
-      model: llmModel,
-      customBaseUrl: llmBaseUrl,
-    });
+/**
+ * Prompt for the reduce step: merge candidates found in separate parts of the
+ * codebase into the final list of abstractions
+ */
+function buildMergeAbstractionsPrompt(
+  projectName: string,
+  candidates: Abstraction[],
+  partCount: number,
+  language: string,
+  maxAbs: number
+): string {
+  const langCap =
+    language.toLowerCase() !== "english"
+      ? language.charAt(0).toUpperCase() + language.slice(1)
+      : "";
+  const languageInstruction = langCap
+    ? `IMPORTANT: Generate the \`name\` and \`description\` for each abstraction in **${langCap}** language. Do NOT use English for these fields.\n\n`
+    : "";
+  const langHint = langCap ? ` (value in ${langCap})` : "";
+
+  const candidatesYaml = yaml.dump(
+    candidates.map((abs) => ({
+      name: abs.name,
+      description: abs.description,
+      file_indices: abs.files,
+    }))
+  );
+
+  return `
+For the project \`${projectName}\`:
+
+The codebase was too large to analyze at once, so it was split into ${partCount} parts and candidate abstractions were identified in each part:
+
+\`\`\`yaml
+${candidatesYaml}\`\`\`
+
+${languageInstruction}Merge candidates that describe the same concept (combine their \`file_indices\`), then select the top 5-${maxAbs} core most important abstractions to help those new to the codebase.
+Keep each \`description\` beginner-friendly with a simple analogy, in around 100 words${langHint}.
+Only use file indices that appear in the candidates.
+
+Format the output as a YAML list of dictionaries:
+
+\`\`\`yaml
+- name: |
+    Query Processing${langHint}
+  description: |
+    Explains what the abstraction does.
+    It's like a central dispatcher routing requests.${langHint}
+  file_indices:
+    - 0 # path/to/file1.py
+    - 3 # path/to/related.py
+# ... up to ${maxAbs} abstractions
+\`\`\``;
+}
+
+interface AbstractionsOutput {
+  abstractions: { name: string; description: string; file_indices: number[] }[];
+}
+
+const ABSTRACTIONS_OUTPUT: StructuredOutputSpec = {
+  name: "abstractions",
+  description: "Core abstractions of the codebase",
+  schema: {
+    type: "object",
+    properties: {
+      abstractions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            description: { type: "string" },
+            file_indices: { type: "array", items: { type: "integer" } },
+          },
+          required: ["name", "description", "file_indices"],
+        },
+      },
+    },
+    required: ["abstractions"],
+  },
+};
 
-    // Extract YAML block from the response
-    const yamlMatch = response.trim().match(/```yaml\s*([\s\S]*?)\s*```/);
-    const yamlStr = yamlMatch?.[1]?.trim();
+/**
+ * File index checks the schema can't express; problems are sent back for repair
+ */
+function checkAbstractions(output: AbstractionsOutput, fileCount: number): string[] {
+  const errors: string[] = [];
+  output.abstractions.forEach((item, i) => {
+    for (const idx of item.file_indices) {
+      if (idx < 0 || idx >= fileCount) {
+        errors.push(
+          `abstractions[${i}] ("${item.name}"): file index ${idx} is out of bounds. Max index is ${fileCount - 1}.`
+        );
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Normalise validated abstractions: trimmed text, sorted unique file indices
+ */
+function toAbstractions(output: AbstractionsOutput): Abstraction[] {
+  return output.abstractions.map((item) => ({
+    name: item.name.trim(),
+    description: item.description.trim(),
+    files: [...new Set(item.file_indices)].sort((a, b) => a - b),
+  }));
+}
+
+export class IdentifyAbstractions extends CancellableNode {
+  private _shared?: SharedData;
+  
+  async prep(shared: SharedData) {
+    // Store shared reference for progress callback access
+    this._shared = shared;
+    
+    const filesData = shared.files;
+    const projectName = shared.project_name;
+    const language = shared.language ?? "english";
+    const useCache = shared.use_cache ?? true;
+    const maxAbs = shared.max_abstraction_num ?? DEFAULT_MAX_ABSTRACTIONS;
+    const { customApiKey, llmProvider, llmModel, llmBaseUrl, fallbacks, ledger } = getStageLLM(shared, LLM_STAGES.ABSTRACTIONS);
 
-    if (!yamlStr) {
-      console.error("LLM Response:", response);
+    if (!filesData || filesData.length === 0) {
       throw new Error(
-        "LLM did not return a valid fenced YAML block for abstractions."
+        "No files data found in shared state for IdentifyAbstractions."
       );
     }
+    if (!projectName) {
+      throw new Error("Project name not found in shared state.");
+    }
 
-    let parsedAbstractions: any;
-    try {
-      // Parse the YAML string
-      parsedAbstractions = yaml.load(yamlStr);
-    } catch (e: any) {
-      console.error("YAML Parsing Error:", e);
-      console.error("Invalid YAML String:", yamlStr);
-      throw new Error(`Failed to parse YAML for abstractions: ${e.message}`);
+    // Create a formatted string listing files for the LLM prompt
+    const fileListing = filesData
+      .map(([path], index) => `- ${index} # ${path}`)
+      .join("\n");
+
+    // Fit the files into the model's context window. Repos that don't fit
+    // are split into chunks for a map-reduce pass.
+    const budget = getContextBudget({
+      provider: llmProvider,
+      model: llmModel,
+      reservedTokens: ABSTRACTION_PROMPT_TOKENS + estimateTokens(fileListing),
+    });
+    const rankedFiles = getRankedFiles(
+      filesData,
+      filesData.map((_, index) => index),
+      shared.file_summaries
+    );
+    const { chunks, omitted } = planContextChunks(rankedFiles, budget, MAX_ABSTRACTION_CHUNKS);
+
+    if (chunks.length > 1 || omitted.length > 0) {
+      console.log(
+        `Context planner: ${chunks.length} part(s) of up to ${budget} tokens, ${omitted.length} files omitted.`
+      );
     }
 
-    // Validate the parsed YAML structure
-    if (!Array.isArray(parsedAbstractions)) {
-      console.error("Parsed YAML is not an array:", parsedAbstractions);
-      throw new Error("LLM output (parsed YAML) is not a list.");
+    const contextChunks = chunks.map((chunk) => {
+      const note = describePacking(chunk, chunks.length === 1 ? omitted : []);
+      return {
+        context: (note ? `${note}\n\n` : "") + formatPackedFiles(chunk),
+        // Each part's prompt only lists its own files
+        fileListing: chunks.length === 1
+          ? fileListing
+          : [...chunk]
+              .sort((a, b) => a.index - b.index)
+              .map((file) => `- ${file.index} # ${file.path}`)
+              .join("\n"),
+      };
+    });
+
+    return {
+      contextChunks,
+      fileCount: filesData.length,
+      projectName,
+      language,
+      useCache,
+      maxAbs,
+      customApiKey,
+      llmProvider,
+      llmModel,
+      llmBaseUrl,
+      fallbacks,
+      ledger,
+      runId: shared.run_id,
+    } as const;
+  }
+
+  async exec(prepRes: ReturnType<this["prep"]>): Promise<Abstraction[]> {
+    const {
+      contextChunks,
+      fileCount,
+      projectName,
+      language,
+      useCache,
+      maxAbs,
+      customApiKey,
+      llmProvider,
+      llmModel,
+      llmBaseUrl,
+      fallbacks,
+      ledger,
+      runId,
+    } = await prepRes;
+    
+    // Get progress callback from shared
+    const onProgress = this._shared?._onProgress;
+    
+    if (onProgress) {
+      await onProgress({
+        stage: 'abstractions',
+        message: 'Analyzing codebase and identifying key concepts...',
+        progress: 15
+      });
+    }
+    
+    // Reuse this step's output from an earlier attempt of the same run
+    const checkpoint = loadStepOutput<Abstraction[]>(runId, "identify_abstractions");
+    if (checkpoint) {
+      return checkpoint;
     }
 
-    // Validate each abstraction item
-    const validatedAbstractions = parsedAbstractions.map(
-      (item: any, index: number) => {
-        if (
-          !item ||
-          typeof item !== "object" ||
-          typeof item.name !== "string" ||
-          typeof item.description !== "string" ||
-          !Array.isArray(item.file_indices)
-        ) {
-          throw new Error(
-            `Malformed abstraction item at index ${index}: ${JSON.stringify(
-              item
-            )}`
-          );
-        }
+    console.log("Identifying abstractions using LLM...");
+
+    const llmOptions = {
+      useCache,
+      customApiKey,
+      provider: llmProvider,
+      model: llmModel,
+      customBaseUrl: llmBaseUrl,
+      fallbacks,
+      onFallback: reportFallback(onProgress, 15),
+      ledger,
+      signal: this.signal,
+    };
+    const requestAbstractions = async (prompt: string) =>
+      toAbstractions(
+        await callLLMStructured<AbstractionsOutput>({
+          prompt,
+          ...llmOptions,
+          output: ABSTRACTIONS_OUTPUT,
+          validate: (output) => checkAbstractions(output, fileCount),
+        })
+      );
+
+    // The whole codebase fits in a single prompt
+    if (contextChunks.length === 1) {
+      const [{ context, fileListing }] = contextChunks;
+      const abstractions = await requestAbstractions(
+        buildAbstractionsPrompt(projectName, context, fileListing, language, maxAbs)
+      );
+      console.log(`Identified ${abstractions.length} abstractions.`);
+      return abstractions;
+    }
 
-        // Validate and normalize file indices
-        const files = [
-          ...new Set<number>(
-            item.file_indices.map((entry: any) => {
-              let idx: number;
-              if (typeof entry === "number") {
-                idx = entry;
-              } else if (typeof entry === "string") {
-                // Extract number before '#' or parse the whole string if no '#'
-                const match = entry.match(/^\s*(\d+)/);
-                if (match) {
-                  idx = parseInt(match[1], 10);
-                } else {
-                  throw new Error(
-                    `Could not parse index from string entry: "${entry}" in item "${item.name}"`
-                  );
-                }
-              } else {
-                idx = parseInt(String(entry), 10); // Attempt conversion
-              }
-
-              if (isNaN(idx) || idx < 0 || idx >= fileCount) {
-                throw new Error(
-                  `Invalid or out-of-bounds file index ${idx} (parsed from "${entry}") in item "${
-                    item.name
-                  }". Max index is ${fileCount - 1}.`
-                );
-              }
-              return idx;
-            })
-          ),
-        ].sort((a, b) => a - b); // Remove duplicates and sort
-
-        return {
-          name: item.name.trim(),
-          description: item.description.trim(),
-          files: files as number[],
-        } as Abstraction;
+    // Map: candidate abstractions from each part of the codebase
+    const candidates: Abstraction[] = [];
+    for (const [i, { context, fileListing }] of contextChunks.entries()) {
+      if (onProgress) {
+        await onProgress({
+          stage: 'abstractions',
+          message: `Identifying key concepts (part ${i + 1}/${contextChunks.length})...`,
+          progress: 15
+        });
       }
-    );
+      candidates.push(
+        ...(await requestAbstractions(
+          buildAbstractionsPrompt(projectName, context, fileListing, language, maxAbs)
+        ))
+      );
+    }
+    console.log(`Found ${candidates.length} candidate abstractions in ${contextChunks.length} parts.`);
 
-    console.log(`Identified ${validatedAbstractions.length} abstractions.`);
-    return validatedAbstractions;
+    // Reduce: merge duplicates across parts and keep the most important
+    const abstractions = await requestAbstractions(
+      buildMergeAbstractionsPrompt(projectName, candidates, contextChunks.length, language, maxAbs)
+    );
+    console.log(`Identified ${abstractions.length} abstractions.`);
+    return abstractions;
   }
 
   async post(
@@ -459,6 +1104,7 @@ Format the output as a YAML list of dictionaries:
   ): Promise<string | undefined> {
     // Store the validated abstractions in shared data
     shared.abstractions = execRes;
+    saveStepOutput(shared.run_id, "identify_abstractions", execRes);
     return undefined;
   }
 }
@@ -466,7 +1112,54 @@ Format the output as a YAML list of dictionaries:
 /* -------------------------------------------------------------------------
  * AnalyzeRelationships
  * ------------------------------------------------------------------------- */
-export class AnalyzeRelationships extends Node<SharedData> {
+
+interface RelationshipsOutput {
+  summary: string;
+  relationships: { from_abstraction: number; to_abstraction: number; label: string }[];
+}
+
+const RELATIONSHIPS_OUTPUT: StructuredOutputSpec = {
+  name: "relationships",
+  description: "Project summary and the key relationships between abstractions",
+  schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string" },
+      relationships: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            from_abstraction: { type: "integer" },
+            to_abstraction: { type: "integer" },
+            label: { type: "string" },
+          },
+          required: ["from_abstraction", "to_abstraction", "label"],
+        },
+      },
+    },
+    required: ["summary", "relationships"],
+  },
+};
+
+/**
+ * Abstraction index checks the schema can't express; problems are sent back for repair
+ */
+function checkRelationships(output: RelationshipsOutput, numAbstractions: number): string[] {
+  const errors: string[] = [];
+  output.relationships.forEach((rel, i) => {
+    for (const idx of [rel.from_abstraction, rel.to_abstraction]) {
+      if (idx < 0 || idx >= numAbstractions) {
+        errors.push(
+          `relationships[${i}]: abstraction index ${idx} is out of bounds. Max index is ${numAbstractions - 1}.`
+        );
+      }
+    }
+  });
+  return errors;
+}
+
+export class AnalyzeRelationships extends CancellableNode {
   private _shared?: SharedData;
   
   async prep(shared: SharedData) {
@@ -478,10 +1171,7 @@ export class AnalyzeRelationships extends Node<SharedData> {
     const projectName = shared.project_name;
     const language = shared.language ?? "english";
     const useCache = shared.use_cache ?? true;
-    const customApiKey = shared.llm_api_key || shared.openai_api_key;
-    const llmProvider = shared.llm_provider || PROVIDER_IDS.OPENAI;
-    const llmModel = shared.llm_model;
-    const llmBaseUrl = shared.llm_base_url;
+    const { customApiKey, llmProvider, llmModel, llmBaseUrl, fallbacks, ledger } = getStageLLM(shared, LLM_STAGES.RELATIONSHIPS);
 
     if (!abstractions || abstractions.length === 0) {
       throw new Error(
@@ -509,15 +1199,28 @@ export class AnalyzeRelationships extends Node<SharedData> {
 
     context += "\nRelevant File Snippets (Referenced by Index and Path):\n";
 
-    // Get content for all relevant files
-    const relevantFilesContentMap = getContentForIndices(
-      filesData,
-      [...allRelevantIndices].sort((a, b) => a - b)
+    // Fit the relevant files into the model's context window, most important first
+    const budget = getContextBudget({
+      provider: llmProvider,
+      model: llmModel,
+      reservedTokens: RELATIONSHIPS_PROMPT_TOKENS + estimateTokens(context),
+    });
+    const packed = packFiles(
+      getRankedFiles(filesData, [...allRelevantIndices], shared.file_summaries),
+      budget
     );
+    const packingNote = describePacking(packed.files, packed.omitted);
+    if (packingNote) {
+      context += `${packingNote}\n\n`;
+    }
 
     // Add file snippets to the context
-    context += Object.entries(relevantFilesContentMap)
-      .map(([idxPath, content]) => `--- File: ${idxPath} ---\n${content}`)
+    context += [...packed.files]
+      .sort((a, b) => a.index - b.index)
+      .map((file) => {
+        const mode = file.mode === "full" ? "" : ` (${file.mode})`;
+        return `--- File: ${file.index} # ${file.path}${mode} ---\n${file.content}`;
+      })
       .join("\n\n");
 
     return {
@@ -531,6 +1234,9 @@ export class AnalyzeRelationships extends Node<SharedData> {
       llmProvider,
       llmModel,
       llmBaseUrl,
+      fallbacks,
+      ledger,
+      runId: shared.run_id,
     } as const;
   }
 
@@ -546,6 +1252,9 @@ export class AnalyzeRelationships extends Node<SharedData> {
       llmProvider,
       llmModel,
       llmBaseUrl,
+      fallbacks,
+      ledger,
+      runId,
     } = await prepRes;
     
     // Get progress callback from shared
@@ -559,6 +1268,12 @@ export class AnalyzeRelationships extends Node<SharedData> {
       });
     }
     
+    // Reuse this step's output from an earlier attempt of the same run
+    const checkpoint = loadStepOutput<RelationshipData>(runId, "analyze_relationships");
+    if (checkpoint) {
+      return checkpoint;
+    }
+
     console.log("Analyzing relationships using LLM...");
 
     // Determine language-specific instructions and hints
@@ -613,100 +1328,26 @@ Now, provide the YAML output:
 \`\`\``;
 
     // Call the LLM with cache context and custom API key
-    const response = await callLLM({ 
-      prompt, 
+    const output = await callLLMStructured<RelationshipsOutput>({
+      prompt,
       useCache,
       customApiKey,
       provider: llmProvider,
       model: llmModel,
       customBaseUrl: llmBaseUrl,
+      fallbacks,
+      onFallback: reportFallback(onProgress, 22),
+      ledger,
+      signal: this.signal,
+      output: RELATIONSHIPS_OUTPUT,
+      validate: (value) => checkRelationships(value, numAbstractions),
     });
 
-    // Extract YAML block
-    const yamlMatch = response.trim().match(/```yaml\s*([\s\S]*?)\s*```/);
-    const yamlStr = yamlMatch?.[1]?.trim();
-
-    if (!yamlStr) {
-      console.error("LLM Response:", response);
-      throw new Error(
-        "LLM did not return a valid fenced YAML block for relationships."
-      );
-    }
-
-    let parsedData: any;
-    try {
-      // Parse the YAML string
-      parsedData = yaml.load(yamlStr);
-    } catch (e: any) {
-      console.error("YAML Parsing Error:", e);
-      console.error("Invalid YAML String:", yamlStr);
-      throw new Error(`Failed to parse YAML for relationships: ${e.message}`);
-    }
-
-    // Validate the overall structure
-    if (
-      !parsedData ||
-      typeof parsedData !== "object" ||
-      typeof parsedData.summary !== "string" ||
-      !Array.isArray(parsedData.relationships)
-    ) {
-      console.error("Parsed YAML structure invalid:", parsedData);
-      throw new Error(
-        "Bad YAML structure from LLM for relationships (expected 'summary' string and 'relationships' list)."
-      );
-    }
-
-    // Validate each relationship item
-    const validatedRelationships: Relationship[] = parsedData.relationships.map(
-      (rel: any, index: number) => {
-        if (
-          !rel ||
-          typeof rel !== "object" ||
-          typeof rel.from_abstraction === "undefined" || // Check presence, allow number 0
-          typeof rel.to_abstraction === "undefined" || // Check presence, allow number 0
-          typeof rel.label !== "string"
-        ) {
-          throw new Error(
-            `Malformed relationship item at index ${index}: ${JSON.stringify(
-              rel
-            )}`
-          );
-        }
-
-        // Parse and validate 'from' index
-        const fromStr = String(rel.from_abstraction);
-        const fromMatch = fromStr.match(/^\s*(\d+)/);
-        const fromIdx = fromMatch ? parseInt(fromMatch[1], 10) : NaN;
-
-        // Parse and validate 'to' index
-        const toStr = String(rel.to_abstraction);
-        const toMatch = toStr.match(/^\s*(\d+)/);
-        const toIdx = toMatch ? parseInt(toMatch[1], 10) : NaN;
-
-        if (
-          isNaN(fromIdx) ||
-          isNaN(toIdx) ||
-          fromIdx < 0 ||
-          toIdx < 0 ||
-          fromIdx >= numAbstractions ||
-          toIdx >= numAbstractions
-        ) {
-          throw new Error(
-            `Invalid or out-of-bounds index in relationship at index ${index}: from="${
-              rel.from_abstraction
-            }" (parsed ${fromIdx}), to="${
-              rel.to_abstraction
-            }" (parsed ${toIdx}). Max index is ${numAbstractions - 1}.`
-          );
-        }
-
-        return {
-          from: fromIdx,
-          to: toIdx,
-          label: rel.label.trim(),
-        };
-      }
-    );
+    const validatedRelationships: Relationship[] = output.relationships.map((rel) => ({
+      from: rel.from_abstraction,
+      to: rel.to_abstraction,
+      label: rel.label.trim(),
+    }));
 
     // Optional: Check if all abstractions are involved in at least one relationship
     const involvedIndices = new Set<number>();
@@ -728,7 +1369,7 @@ Now, provide the YAML output:
 
     console.log("Generated project summary and relationship details.");
     return {
-      summary: parsedData.summary.trim(),
+      summary: output.summary.trim(),
       details: validatedRelationships,
     };
   }
@@ -740,6 +1381,7 @@ Now, provide the YAML output:
   ): Promise<string | undefined> {
     // Store the validated relationship data in shared state
     shared.relationships = execRes;
+    saveStepOutput(shared.run_id, "analyze_relationships", execRes);
     return undefined;
   }
 }
@@ -747,7 +1389,45 @@ Now, provide the YAML output:
 /* -------------------------------------------------------------------------
  * OrderChapters
  * ------------------------------------------------------------------------- */
-export class OrderChapters extends Node<SharedData> {
+
+interface ChapterOrderOutput {
+  order: number[];
+}
+
+const CHAPTER_ORDER_OUTPUT: StructuredOutputSpec = {
+  name: "chapter_order",
+  description: "Abstraction indices in the order the tutorial should explain them",
+  schema: {
+    type: "object",
+    properties: {
+      order: { type: "array", items: { type: "integer" } },
+    },
+    required: ["order"],
+  },
+};
+
+/**
+ * The order must list every abstraction exactly once; problems are sent back for repair
+ */
+function checkChapterOrder(output: ChapterOrderOutput, numAbstractions: number): string[] {
+  const errors: string[] = [];
+  const seen = new Set<number>();
+  output.order.forEach((idx, i) => {
+    if (idx < 0 || idx >= numAbstractions) {
+      errors.push(`order[${i}]: index ${idx} is out of bounds. Max index is ${numAbstractions - 1}.`);
+    } else if (seen.has(idx)) {
+      errors.push(`order[${i}]: duplicate index ${idx}.`);
+    }
+    seen.add(idx);
+  });
+
+  const missing = [...Array(numAbstractions).keys()].filter((i) => !seen.has(i));
+  if (missing.length > 0) {
+    errors.push(`Missing indices: ${missing.join(", ")}. Every abstraction must appear exactly once.`);
+  }
+  return errors;
+}
+export class OrderChapters extends CancellableNode {
   private _shared?: SharedData;
   
   async prep(shared: SharedData) {
@@ -759,10 +1439,7 @@ export class OrderChapters extends Node<SharedData> {
     const projectName = shared.project_name;
     const language = shared.language ?? "english";
     const useCache = shared.use_cache ?? true;
-    const customApiKey = shared.llm_api_key || shared.openai_api_key;
-    const llmProvider = shared.llm_provider || PROVIDER_IDS.OPENAI;
-    const llmModel = shared.llm_model;
-    const llmBaseUrl = shared.llm_base_url;
+    const { customApiKey, llmProvider, llmModel, llmBaseUrl, fallbacks, ledger } = getStageLLM(shared, LLM_STAGES.ORDERING);
 
     if (!abstractions || abstractions.length === 0) {
       throw new Error(
@@ -830,6 +1507,9 @@ export class OrderChapters extends Node<SharedData> {
       llmProvider,
       llmModel,
       llmBaseUrl,
+      fallbacks,
+      ledger,
+      runId: shared.run_id,
     } as const;
   }
 
@@ -845,6 +1525,9 @@ export class OrderChapters extends Node<SharedData> {
       llmProvider,
       llmModel,
       llmBaseUrl,
+      fallbacks,
+      ledger,
+      runId,
     } = await prepRes;
     
     // Get progress callback from shared
@@ -858,6 +1541,12 @@ export class OrderChapters extends Node<SharedData> {
       });
     }
     
+    // Reuse this step's output from an earlier attempt of the same run
+    const checkpoint = loadStepOutput<number[]>(runId, "order_chapters");
+    if (checkpoint) {
+      return checkpoint;
+    }
+
     console.log("Determining chapter order using LLM...");
 
     // Construct the prompt for the LLM
@@ -886,93 +1575,21 @@ Now, provide the YAML output:`;
 
 
     // Call the LLM with cache context and custom API key
-    const response = await callLLM({ 
-      prompt, 
+    const output = await callLLMStructured<ChapterOrderOutput>({
+      prompt,
       useCache,
       customApiKey,
       provider: llmProvider,
       model: llmModel,
       customBaseUrl: llmBaseUrl,
+      fallbacks,
+      onFallback: reportFallback(onProgress, 28),
+      ledger,
+      signal: this.signal,
+      output: CHAPTER_ORDER_OUTPUT,
+      validate: (value) => checkChapterOrder(value, numAbstractions),
     });
-
-    // Extract YAML block
-    const yamlMatch = response.trim().match(/```yaml\s*([\s\S]*?)\s*```/);
-    const yamlStr = yamlMatch?.[1]?.trim();
-
-    if (!yamlStr) {
-      console.error("LLM Response:", response);
-      throw new Error(
-        "LLM did not return a valid fenced YAML block for chapter order."
-      );
-    }
-
-    let parsedOrder: any;
-    try {
-      // Parse the YAML string
-      parsedOrder = yaml.load(yamlStr);
-    } catch (e: any) {
-      console.error("YAML Parsing Error:", e);
-      console.error("Invalid YAML String:", yamlStr);
-      throw new Error(`Failed to parse YAML for chapter order: ${e.message}`);
-    }
-
-    // Validate the structure (should be a list)
-    if (!Array.isArray(parsedOrder)) {
-      console.error("Parsed YAML is not an array:", parsedOrder);
-      throw new Error(
-        "LLM output (parsed YAML) for chapter order is not a list."
-      );
-    }
-
-    const orderedIndices: number[] = [];
-    const seenIndices = new Set<number>();
-
-    // Validate each entry in the ordered list
-    parsedOrder.forEach((entry: any, listIndex: number) => {
-      let idx: number;
-      if (typeof entry === "number") {
-        idx = entry;
-      } else if (typeof entry === "string") {
-        // Extract number before '#' or parse the whole string if no '#'
-        const match = entry.match(/^\s*(\d+)/);
-        if (match) {
-          idx = parseInt(match[1], 10);
-        } else {
-          throw new Error(
-            `Could not parse index from ordered list entry: "${entry}" at list index ${listIndex}`
-          );
-        }
-      } else {
-        idx = parseInt(String(entry), 10); // Attempt conversion
-      }
-
-      if (isNaN(idx) || idx < 0 || idx >= numAbstractions) {
-        throw new Error(
-          `Invalid or out-of-bounds index ${idx} (parsed from "${entry}") found in ordered list at index ${listIndex}. Max index is ${
-            numAbstractions - 1
-          }.`
-        );
-      }
-      if (seenIndices.has(idx)) {
-        throw new Error(`Duplicate index ${idx} found in ordered list.`);
-      }
-      orderedIndices.push(idx);
-      seenIndices.add(idx);
-    });
-
-    // Check if all abstractions are included in the order
-    if (orderedIndices.length !== numAbstractions) {
-      const missing = [...Array(numAbstractions).keys()].filter(
-        (i) => !seenIndices.has(i)
-      );
-      throw new Error(
-        `Ordered list length (${
-          orderedIndices.length
-        }) does not match number of abstractions (${numAbstractions}). Missing indices: ${missing.join(
-          ", "
-        )}`
-      );
-    }
+    const orderedIndices = output.order;
 
     console.log(
       `Determined chapter order (indices): ${orderedIndices.join(", ")}`
@@ -985,8 +1602,11 @@ Now, provide the YAML output:`;
     _prepRes: any,
     execRes: number[]
   ): Promise<string | undefined> {
-    // Store the ordered list of indices in shared data
-    shared.chapter_order = execRes;
+    // Store the ordered list of indices in shared data. A run resumed with
+    // fewer chapters (to fit its budget) keeps the first ones.
+    const maxChapters = shared.max_abstraction_num;
+    shared.chapter_order = maxChapters ? execRes.slice(0, maxChapters) : execRes;
+    saveStepOutput(shared.run_id, "order_chapters", execRes);
     return undefined;
   }
 }
@@ -995,11 +1615,18 @@ Now, provide the YAML output:`;
  * WriteChapters (BatchNode)
  * Supports partial regeneration - uses cached chapters when available
  * ------------------------------------------------------------------------- */
+// Streamed chapter text is sent on at most this often (chapter_delta updates)
+const CHAPTER_DELTA_INTERVAL_MS = 250;
+// Upper bound for shared.chapter_concurrency
+const MAX_CHAPTER_CONCURRENCY = 8;
+// Each chapter's description is cut to this length in the outline given to parallel chapters
+const CHAPTER_OUTLINE_DESCRIPTION_CHARS = 200;
+
 interface WriteChapterItem {
   chapterNum: number;
   abstractionIndex: number;
   abstractionDetails: Abstraction; // Has potentially translated name/desc
-  relatedFilesContentMap: Record<string, string>;
+  relatedFiles: ContextFile[]; // Most important first; packed to the token budget in exec
   chapterSlug: string;  // Unique identifier for caching
   useCachedContent: boolean;  // Whether to use cached content instead of generating
   cachedContent?: string;  // Cached chapter content if available
@@ -1014,6 +1641,10 @@ interface WriteChapterItem {
   llmProvider?: string;
   llmModel?: string;
   llmBaseUrl?: string;
+  fallbacks?: LLMFallback[];
+  ledger?: LedgerContext;
+  runId?: string; // Checkpoint each written chapter under this run
+  otherChaptersOutline?: string; // Parallel mode: stands in for the text of earlier chapters
   [key: string]: unknown; // Add index signature to satisfy NonIterableObject constraint
 }
 
@@ -1021,7 +1652,49 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
   // Temporary storage for context across exec calls within a single run
   private chaptersWrittenSoFar: string[] = [];
   private totalChapters: number = 0;
+  private completedChapters: number = 0;
+  private concurrency: number = 1;
   private onProgress?: (update: any) => Promise<void> | void;
+  private signal?: AbortSignal;
+
+  // Same cancellation handling as CancellableNode, applied per chapter
+  async _run(shared: SharedData) {
+    this.signal = shared.abort_signal;
+    throwIfCancelled(this.signal);
+    return super._run(shared);
+  }
+
+  async _exec(items: WriteChapterItem[]): Promise<string[]> {
+    if (!items || !Array.isArray(items)) return [];
+    const results: string[] = [];
+    if (this.concurrency <= 1) {
+      for (const item of items) {
+        results.push(await execWithRetries(this, item, this.signal) as string);
+      }
+      return results;
+    }
+
+    // Parallel mode: a fixed number of workers take the next chapter in order.
+    // After a failure no new chapters are started; the ones in flight finish.
+    let next = 0;
+    let failed = false;
+    const worker = async () => {
+      while (!failed && next < items.length) {
+        const i = next++;
+        try {
+          results[i] = await execWithRetries(this, items[i], this.signal) as string;
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+    const workers = Array.from({ length: Math.min(this.concurrency, items.length) }, worker);
+    const settled = await Promise.allSettled(workers);
+    const rejected = settled.find((result): result is PromiseRejectedResult => result.status === "rejected");
+    if (rejected) throw rejected.reason;
+    return results;
+  }
 
   async prep(shared: SharedData): Promise<WriteChapterItem[]> {
     const chapterOrder = shared.chapter_order;
@@ -1030,18 +1703,21 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
     const projectName = shared.project_name;
     const language = shared.language ?? "english";
     const useCache = shared.use_cache ?? true;
-    const customApiKey = shared.llm_api_key || shared.openai_api_key;
-    const llmProvider = shared.llm_provider || PROVIDER_IDS.OPENAI;
-    const llmModel = shared.llm_model;
-    const llmBaseUrl = shared.llm_base_url;
+    const { customApiKey, llmProvider, llmModel, llmBaseUrl, fallbacks, ledger } = getStageLLM(shared, LLM_STAGES.CHAPTERS);
     
     // Progress callback from shared
     this.onProgress = shared._onProgress;
+    this.concurrency = Math.min(
+      MAX_CHAPTER_CONCURRENCY,
+      Math.max(1, Math.floor(shared.chapter_concurrency ?? 1))
+    );
     
     // Partial regeneration support
     const regenerationMode = shared.regeneration_mode ?? 'full';
     const chaptersToRegenerate = shared.chapters_to_regenerate ?? [];
     const cachedChapters = shared.cached_chapters ?? {};
+    // Chapters already written by an earlier attempt of this run
+    const checkpointedChapters = loadChapterCheckpoints(shared.run_id);
 
     if (!chapterOrder)
       throw new Error("Chapter order not found in shared state.");
@@ -1053,6 +1729,7 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
 
     // Reset temporary storage at the beginning of prep
     this.chaptersWrittenSoFar = [];
+    this.completedChapters = 0;
 
     const allChaptersList: string[] = [];
     const chapterFilenamesMap: Record<number, ChapterFilenameInfo> = {}; // Map index -> info
@@ -1079,6 +1756,23 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
     });
 
     const fullChapterListing = allChaptersList.join("\n");
+
+    // Parallel chapters can't see each other's text, so each gets a short outline of the rest
+    const outlineEntries = chapterOrder
+      .filter((abstractionIndex) => abstractionIndex in chapterFilenamesMap)
+      .map((abstractionIndex) => {
+        const { num, name } = chapterFilenamesMap[abstractionIndex];
+        const description = abstractions[abstractionIndex].description.replace(/\s+/g, " ").trim();
+        const shortDescription = description.length > CHAPTER_OUTLINE_DESCRIPTION_CHARS
+          ? `${description.slice(0, CHAPTER_OUTLINE_DESCRIPTION_CHARS).trimEnd()}...`
+          : description;
+        return { num, text: `${num}. ${name}: ${shortDescription}` };
+      });
+    const outlineOfOtherChapters = (chapterNum: number) =>
+      outlineEntries
+        .filter((entry) => entry.num !== chapterNum)
+        .map((entry) => entry.text)
+        .join("\n") || "This is the only chapter.";
     
     // Log regeneration mode
     if (regenerationMode === 'partial') {
@@ -1101,10 +1795,7 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
 
       const abstractionDetails = abstractions[abstractionIndex];
       const relatedFileIndices = abstractionDetails.files ?? [];
-      const relatedFilesContentMap = getContentForIndices(
-        filesData,
-        relatedFileIndices
-      );
+      const relatedFiles = getRankedFiles(filesData, relatedFileIndices, shared.file_summaries);
 
       const prevChapterIndex = i > 0 ? chapterOrder[i - 1] : -1;
       const nextChapterIndex =
@@ -1141,11 +1832,18 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
       }
       // In 'full' or 'partial_reidentify' mode, always regenerate
 
+      // A checkpoint from this run always wins: it was written with the current settings
+      if (checkpointedChapters[chapterSlug]) {
+        useCachedContent = true;
+        cachedContent = checkpointedChapters[chapterSlug];
+        cacheLog.skip(`Using checkpointed chapter: ${chapterSlug}`);
+      }
+
       itemsToProcess.push({
         chapterNum: i + 1,
         abstractionIndex: abstractionIndex,
         abstractionDetails: abstractionDetails,
-        relatedFilesContentMap: relatedFilesContentMap,
+        relatedFiles: relatedFiles,
         chapterSlug: chapterSlug,
         useCachedContent: useCachedContent,
         cachedContent: cachedContent,
@@ -1160,13 +1858,17 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
         llmProvider: llmProvider,
         llmModel: llmModel,
         llmBaseUrl: llmBaseUrl,
+        fallbacks: fallbacks,
+        ledger: ledger,
+        runId: shared.run_id,
+        otherChaptersOutline: this.concurrency > 1 ? outlineOfOtherChapters(i + 1) : undefined,
       });
     });
 
     // Log stats
     const cachedCount = itemsToProcess.filter(item => item.useCachedContent).length;
     const toGenerateCount = itemsToProcess.length - cachedCount;
-    console.log(`Preparing to write ${itemsToProcess.length} chapters (${cachedCount} from cache, ${toGenerateCount} to generate)...`);
+    console.log(`Preparing to write ${itemsToProcess.length} chapters (${cachedCount} from cache, ${toGenerateCount} to generate, ${this.concurrency} at a time)...`);
     
     // Store total for progress tracking
     this.totalChapters = itemsToProcess.length;
@@ -1190,7 +1892,7 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
     const {
       chapterNum,
       abstractionDetails,
-      relatedFilesContentMap,
+      relatedFiles,
       projectName,
       fullChapterListing,
       // chapterFilenames, // Not directly needed in prompt, but used in prep
@@ -1202,8 +1904,13 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
       llmProvider,
       llmModel,
       llmBaseUrl,
+      fallbacks,
+      ledger,
       useCachedContent,
       cachedContent,
+      chapterSlug,
+      runId,
+      otherChaptersOutline,
     } = item;
 
     const abstractionName = abstractionDetails.name; // Potentially translated
@@ -1216,8 +1923,9 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
       this.chaptersWrittenSoFar.push(cachedContent);
       
       // Emit progress for cached chapter
+      this.completedChapters++;
       if (this.onProgress) {
-        const progress = 30 + Math.round((chapterNum / this.totalChapters) * 60);
+        const progress = 30 + Math.round((this.completedChapters / this.totalChapters) * 60);
         await this.onProgress({
           stage: 'writing_chapters',
           message: `Chapter ${chapterNum}/${this.totalChapters}: ${abstractionName} (cached)`,
@@ -1237,7 +1945,7 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
     
     // Emit progress for chapter being written
     if (this.onProgress) {
-      const progress = 30 + Math.round(((chapterNum - 1) / this.totalChapters) * 60);
+      const progress = 30 + Math.round((this.completedChapters / this.totalChapters) * 60);
       await this.onProgress({
         stage: 'writing_chapters',
         message: `Writing chapter ${chapterNum}/${this.totalChapters}: ${abstractionName}...`,
@@ -1248,20 +1956,39 @@ export class WriteChapters extends BatchNode<SharedData, WriteChapterItem> {
       });
     }
 
+    // Get summary of chapters written *before* this one using the instance variable
+    // (in parallel mode, the outline of the other chapters).
+    // Keep the most recent chapters when they would crowd out the code.
+    const fullBudget = getContextBudget({ provider: llmProvider, model: llmModel });
+    const previousChaptersSummary = truncateToTokens(
+      otherChaptersOutline ?? (this.chaptersWrittenSoFar.join("\n---\n") || "This is the first chapter."),
+      Math.floor(fullBudget * MAX_PREVIOUS_CHAPTERS_SHARE),
+      "end"
+    );
+
+    // Fit the related files into what is left of the context window
+    const budget = getContextBudget({
+      provider: llmProvider,
+      model: llmModel,
+      reservedTokens:
+        WRITE_CHAPTER_PROMPT_TOKENS +
+        estimateTokens(fullChapterListing + abstractionDescription + previousChaptersSummary),
+    });
+    const packed = packFiles(relatedFiles, budget);
+    const packingNote = describePacking(packed.files, packed.omitted);
+
     // Prepare file context string
     const fileContextStr =
-      Object.entries(relatedFilesContentMap)
-        .map(
-          ([idxPath, content]) =>
-            `--- File: ${idxPath.split("# ")[1] ?? idxPath} ---\n${content}`
-        )
+      (packingNote ? `${packingNote}\n\n` : "") +
+      [...packed.files]
+        .sort((a, b) => a.index - b.index)
+        .map((file) => {
+          const mode = file.mode === "full" ? "" : ` (${file.mode})`;
+          return `--- File: ${file.path}${mode} ---\n${file.content}`;
+        })
         .join("\n\n") ||
       "No specific code snippets provided for this abstraction.";
 
-    // Get summary of chapters written *before* this one using the instance variable
-    const previousChaptersSummary =
-      this.chaptersWrittenSoFar.join("\n---\n") || "This is the first chapter.";
-
     // --- Language Specific Prompts ---
     let languageInstruction = "";
     let conceptDetailsNote = "";
@@ -1299,7 +2026,7 @@ ${abstractionDescription}
 Complete Tutorial Structure${structureNote}:
 ${fullChapterListing}
 
-Context from previous chapters${prevSummaryNote}:
+${otherChaptersOutline ? "Outline of the other chapters (written at the same time as this one)" : "Context from previous chapters"}${prevSummaryNote}:
 ${previousChaptersSummary}
 
 Relevant Code Snippets (Code itself remains unchanged):
@@ -1333,15 +2060,61 @@ ${
 
 Now, directly provide a super beginner-friendly Markdown output (DON'T need \`\`\`markdown\`\`\` tags):`;
 
-    // Call the LLM with custom API key
-    let chapterContent = await callLLM({
+    // Stream the chapter from the LLM, passing the text on as it is written.
+    // A retried attempt (or a switch to a fallback model) starts over, so its
+    // first delta replaces the draft.
+    let chapterContent = "";
+    let pendingDelta = "";
+    let lastSent = 0;
+    let writtenBy: ChapterModel | undefined;
+    // Several chapters at once would interleave in the single live preview
+    const streamToUI = this.concurrency === 1;
+    const sendDelta = async () => {
+      if (!this.onProgress || !streamToUI || !pendingDelta) return;
+      await this.onProgress({
+        stage: 'chapter_delta',
+        message: `Writing chapter ${chapterNum}/${this.totalChapters}: ${abstractionName}...`,
+        progress: 30 + Math.round((this.completedChapters / this.totalChapters) * 60),
+        currentChapter: chapterNum,
+        totalChapters: this.totalChapters,
+        chapterName: abstractionName,
+        delta: pendingDelta,
+        replace: lastSent === 0,
+      });
+      pendingDelta = "";
+      lastSent = Date.now();
+    };
+
+    for await (const delta of streamLLM({
       prompt,
       useCache,
       customApiKey,
       provider: llmProvider,
       model: llmModel,
       customBaseUrl: llmBaseUrl,
-    });
+      fallbacks,
+      ledger,
+      onFallback: reportFallback(
+        this.onProgress,
+        30 + Math.round((this.completedChapters / this.totalChapters) * 60)
+      ),
+      onRestart: () => {
+        chapterContent = "";
+        pendingDelta = "";
+        lastSent = 0;
+      },
+      onModelUsed: (provider, model) => {
+        writtenBy = { provider, model };
+      },
+      signal: this.signal,
+    })) {
+      chapterContent += delta;
+      pendingDelta += delta;
+      if (Date.now() - lastSent >= CHAPTER_DELTA_INTERVAL_MS) {
+        await sendDelta();
+      }
+    }
+    await sendDelta();
 
     // --- Basic Validation/Cleanup ---
     // Ensure the heading is present and correct
@@ -1370,13 +2143,17 @@ Now, directly provide a super beginner-friendly Markdown output (DON'T need \`\`
 
     // Add the generated content to the instance variable for the next iteration's context
     this.chaptersWrittenSoFar.push(chapterContent);
+    saveChapterCheckpoint(runId, chapterSlug, chapterContent, writtenBy);
     
     // Emit progress after chapter completion
+    this.completedChapters++;
     if (this.onProgress) {
-      const progress = 30 + Math.round((chapterNum / this.totalChapters) * 60);
+      const progress = 30 + Math.round((this.completedChapters / this.totalChapters) * 60);
       await this.onProgress({
         stage: 'writing_chapters',
-        message: `Completed chapter ${chapterNum}/${this.totalChapters}: ${abstractionName}`,
+        message: this.concurrency > 1
+          ? `Completed chapter ${chapterNum} (${this.completedChapters}/${this.totalChapters} done): ${abstractionName}`
+          : `Completed chapter ${chapterNum}/${this.totalChapters}: ${abstractionName}`,
         progress,
         currentChapter: chapterNum,
         totalChapters: this.totalChapters,
@@ -1395,6 +2172,7 @@ Now, directly provide a super beginner-friendly Markdown output (DON'T need \`\`
     // execRes contains the Markdown content for each chapter, in order
     const execResList = execRes as string[];
     shared.chapters = execResList;
+    saveStepOutput(shared.run_id, "write_chapters", execResList);
     // Clean up the temporary instance variable after the batch run is complete
     this.chaptersWrittenSoFar = [];
     console.log(`Finished writing ${execResList.length} chapters.`);
@@ -1405,7 +2183,7 @@ Now, directly provide a super beginner-friendly Markdown output (DON'T need \`\`
 /* -------------------------------------------------------------------------
  * CombineTutorial
  * ------------------------------------------------------------------------- */
-export class CombineTutorial extends Node<SharedData> {
+export class CombineTutorial extends CancellableNode {
   private _shared?: SharedData;
   
   async prep(shared: SharedData) {
@@ -1494,6 +2272,11 @@ export class CombineTutorial extends Node<SharedData> {
       indexContent += `**Source Repository:** [${repoUrl}](${repoUrl})\n\n`;
     }
 
+    // Record exactly which revision of the code the tutorial describes
+    if (shared.commit_sha) {
+      indexContent += `**Source Revision:** \`${shared.commit_sha}\`${shared.ref ? ` (${shared.ref})` : ""}\n\n`;
+    }
+
     // Add Mermaid diagram (diagram uses potentially translated names/labels)
     indexContent += "```mermaid\n";
     indexContent += mermaidDiagram + "\n";
@@ -1595,6 +2378,7 @@ export class CombineTutorial extends Node<SharedData> {
   ): Promise<string | undefined> {
     // Store the final output directory path in shared data
     shared.final_output_dir = execRes as string;
+    saveStepOutput(shared.run_id, "combine_tutorial", execRes);
     console.log(`\nTutorial generation complete! Files are in: ${execRes}`);
     return undefined;
   }
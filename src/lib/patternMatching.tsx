@@ -0,0 +1,95 @@
+/**
+ * Pattern Matching
+ * Glob-style include/exclude matching shared by every crawler
+ * (GitHub API, local filesystem, git clone)
+ */
+
+/**
+ * Check if a path matches a simple glob pattern.
+ * Supports `*` (any characters except `/`) and `**` (any characters);
+ * `**\/` also matches no directories, so `**\/node_modules/**` covers a top-level `node_modules`.
+ */
+export function matchesPattern(filePath: string, pattern: string): boolean {
+  const regexPattern = pattern
+    .replace(/\./g, '\\.')
+    .replace(/\*\*\//g, '__GLOBSTAR_DIRS__')
+    .replace(/\*\*/g, '__GLOBSTAR__')
+    .replace(/\*/g, '[^/]*')
+    .replace(/__GLOBSTAR_DIRS__/g, '(?:.*/)?')
+    .replace(/__GLOBSTAR__/g, '.*');
+
+  const regex = new RegExp(`^${regexPattern}$`);
+  return regex.test(filePath);
+}
+
+/**
+ * Check if a file should be included based on patterns.
+ * Exclusions always win; an empty include list includes nothing.
+ */
+export function shouldIncludeFile(
+  filePath: string,
+  fileName: string,
+  includePatterns?: string[],
+  excludePatterns?: string[]
+): boolean {
+  // Check exclude patterns first - always prioritize exclusions
+  if (excludePatterns && excludePatterns.length > 0) {
+    const shouldExclude = excludePatterns.some(pattern =>
+      matchesPattern(filePath, pattern) || matchesPattern(fileName, pattern)
+    ) || isInExcludedDirectory(filePath, excludePatterns);
+
+    // If file should be excluded, return false regardless of include patterns
+    if (shouldExclude) {
+      return false;
+    }
+  }
+
+  // If no include patterns specified, don't include any files
+  // This prevents downloading files when no file types are selected
+  if (!includePatterns || includePatterns.length === 0) {
+    return false;
+  }
+
+  // Check if file matches any include pattern
+  return includePatterns.some(pattern =>
+    matchesPattern(fileName, pattern) || matchesPattern(filePath, pattern)
+  );
+}
+
+/**
+ * Check if a file would match include patterns (ignoring exclusions).
+ * Used to report files that were excluded despite matching an include pattern.
+ */
+export function wouldBeIncluded(
+  filePath: string,
+  fileName: string,
+  includePatterns?: string[]
+): boolean {
+  if (!includePatterns || includePatterns.length === 0) return true;
+
+  return includePatterns.some(pattern =>
+    matchesPattern(fileName, pattern) || matchesPattern(filePath, pattern)
+  );
+}
+
+/**
+ * Check if every file below a directory is guaranteed to be excluded,
+ * so crawlers can skip walking it entirely (e.g. `**\/node_modules/**`).
+ * A bare name without `/` or `*` (e.g. `node_modules`, `dist`) excludes
+ * directories of that name anywhere in the tree.
+ */
+export function isDirectoryExcluded(dirPath: string, excludePatterns?: string[]): boolean {
+  if (!excludePatterns || excludePatterns.length === 0 || !dirPath) return false;
+
+  const dirName = dirPath.split('/').pop() || dirPath;
+  return excludePatterns.some(pattern =>
+    (pattern.endsWith('/**') && matchesPattern(dirPath, pattern.slice(0, -3))) ||
+    (!/[/*]/.test(pattern) && pattern === dirName)
+  );
+}
+
+// Whether any directory above the file is excluded
+function isInExcludedDirectory(filePath: string, excludePatterns: string[]): boolean {
+  const dirs = filePath.split('/').slice(0, -1);
+  return dirs.some((_, i) => isDirectoryExcluded(dirs.slice(0, i + 1).join('/'), excludePatterns));
+}
@@ -11,6 +11,7 @@ import { cacheLog } from './cacheLogger';
 // Cache directory path
 const CACHE_DIR = path.join(process.cwd(), 'cache');
 const REPO_INDEX_FILE = path.join(CACHE_DIR, 'repo_index.json');
+const CRAWLS_DIR = path.join(CACHE_DIR, 'crawls');
 
 export interface CachedFile {
   path: string;
@@ -38,6 +39,7 @@ export interface RepoCache {
   repoUrl: string;
   repoId: string;  // Normalized repo identifier
   lastCommit?: string;
+  manifestId?: string;  // Blob store manifest of the files the tutorial was generated from
   lastCrawlTime: string;
   files: CachedFile[];
   abstractions?: CachedAbstraction[];
@@ -52,6 +54,20 @@ export interface RepoCache {
   };
 }
 
+/**
+ * A repo's last crawl, pinned to the commit its files were read at, so the
+ * next crawl only has to download what changed since
+ */
+export interface CrawlSnapshot {
+  repoUrl: string;
+  commitSha: string;
+  settingsHash: string;  // Base path, ref, filters and size limit the files were selected with
+  crawledAt: string;
+  manifestId: string;  // Blob store manifest of the crawled files
+  skippedFiles: [string, number][];
+  excludedFiles: string[];  // Files matching the include patterns that the exclude patterns dropped
+}
+
 export interface RepoIndex {
   repos: Record<string, {
     cacheFile: string;
@@ -201,6 +217,39 @@ export function saveRepoCache(cache: RepoCache): void {
   });
 }
 
+/**
+ * Load the last crawl snapshot of a repository
+ */
+export function loadCrawlSnapshot(repoUrl: string): CrawlSnapshot | null {
+  const snapshotPath = path.join(CRAWLS_DIR, repoUrlToFilename(repoUrl));
+  if (!fs.existsSync(snapshotPath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as CrawlSnapshot;
+  } catch (error) {
+    cacheLog.warn('Failed to load crawl snapshot', { repoUrl, error });
+    return null;
+  }
+}
+
+/**
+ * Save a repository's crawl snapshot, replacing the previous one
+ */
+export function saveCrawlSnapshot(snapshot: CrawlSnapshot): void {
+  if (!fs.existsSync(CRAWLS_DIR)) {
+    fs.mkdirSync(CRAWLS_DIR, { recursive: true });
+  }
+
+  fs.writeFileSync(path.join(CRAWLS_DIR, repoUrlToFilename(snapshot.repoUrl)), JSON.stringify(snapshot));
+  cacheLog.save('Saved crawl snapshot', {
+    repoId: normalizeRepoUrl(snapshot.repoUrl),
+    commit: snapshot.commitSha.substring(0, 7),
+    manifest: snapshot.manifestId
+  });
+}
+
 /**
  * Create a new empty cache for a repository
  */
@@ -495,11 +544,15 @@ export function clearRepoCache(repoUrl: string): boolean {
     return false;
   }
   
-  // Delete cache file
+  // Delete cache file and crawl snapshot
   const cacheFilePath = path.join(CACHE_DIR, entry.cacheFile);
   if (fs.existsSync(cacheFilePath)) {
     fs.unlinkSync(cacheFilePath);
   }
+  const snapshotPath = path.join(CRAWLS_DIR, repoUrlToFilename(repoUrl));
+  if (fs.existsSync(snapshotPath)) {
+    fs.unlinkSync(snapshotPath);
+  }
   
   // Remove from index
   delete index.repos[repoId];
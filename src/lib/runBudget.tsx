@@ -0,0 +1,339 @@
+/**
+ * Run Budgets
+ * Spending caps for a tutorial run (`max_cost_usd`, `max_tokens`). Before a
+ * run starts (or resumes), the Cost Estimator's projection for the work left
+ * is checked against the budget; during the run, every LLM call is checked
+ * against the running total from the cost ledger. Either way the run stops
+ * with a BudgetExceededError and can be resumed with a bigger budget, a
+ * cheaper model or fewer chapters (see getBudgetOptions).
+ *
+ * The check before a call counts its prompt plus its whole output allowance
+ * (max tokens), so a call that could cross the line is refused up front.
+ * That estimate is reserved until the call finishes, so calls running side by
+ * side (chapter_concurrency) can't all pass against the same total.
+ */
+
+import { getFullCostEstimate } from './costEstimator';
+import { getRunCost } from './costLedger';
+import { getProvider, LLM_PROVIDERS } from './providers';
+import { loadRun, type CheckpointStep } from './runCheckpoints';
+import { createScopedLogger } from './cacheLogger';
+import { DEFAULT_MAX_ABSTRACTIONS, LLM_STAGES, PROVIDER_IDS, type LLMStage, type StageModelMap } from './constants/llm';
+
+const log = createScopedLogger('Budget');
+
+// Cheaper models offered when a run is over budget
+const MAX_MODEL_OPTIONS = 3;
+
+// The checkpointed step that finishes each estimated stage
+const STAGE_STEPS: Partial<Record<LLMStage, CheckpointStep>> = {
+  // File summaries are cached per file, so they are done once the step they feed is
+  [LLM_STAGES.SUMMARIES]: 'identify_abstractions',
+  [LLM_STAGES.ABSTRACTIONS]: 'identify_abstractions',
+  [LLM_STAGES.RELATIONSHIPS]: 'analyze_relationships',
+  [LLM_STAGES.ORDERING]: 'order_chapters',
+  [LLM_STAGES.CHAPTERS]: 'write_chapters',
+};
+
+export interface RunBudget {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export interface BudgetUsage {
+  cost: number;
+  tokens: number;
+}
+
+/**
+ * A way to finish the run within its budget. `settings` are sent back as
+ * `resume_settings` when resuming the run.
+ */
+export interface BudgetOption {
+  kind: 'cheaper_model' | 'fewer_chapters';
+  label: string;
+  settings: {
+    llm_provider?: string;
+    llm_model?: string;
+    max_abstraction_num?: number;
+  };
+  projected: BudgetUsage; // Spent so far plus the estimate for the work left
+}
+
+/**
+ * Reported with the `budget_exceeded` progress event
+ */
+export interface BudgetExceededEvent {
+  when: 'before_start' | 'during_run';
+  limit: 'cost' | 'tokens';
+  budget: RunBudget;
+  spent: BudgetUsage;
+  projected: BudgetUsage;
+  options: BudgetOption[];
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly details: Omit<BudgetExceededEvent, 'options'>
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// The parts of the flow's shared state a budget looks at
+interface BudgetSharedState {
+  run_id?: string;
+  files?: [string, string][];
+  llm_provider?: string;
+  llm_model?: string;
+  stage_models?: StageModelMap;
+  max_abstraction_num?: number;
+  chapter_order?: number[];
+  language?: string;
+  summarize_files?: boolean;
+  chapter_concurrency?: number;
+  max_cost_usd?: number;
+  max_tokens?: number;
+}
+
+interface TrackedRun {
+  budget: RunBudget;
+  spent: BudgetUsage;
+  reserved: BudgetUsage; // Estimates of the calls in flight
+}
+
+// Runs with a budget, by run ID
+const trackedRuns = new Map<string, TrackedRun>();
+
+// The estimator's view of a run's files, kept so every model option reuses its measurements
+const estimateFiles = new WeakMap<[string, string][], Array<{ path: string; content: string }>>();
+
+function getEstimateFiles(files: [string, string][]): Array<{ path: string; content: string }> {
+  let fileContents = estimateFiles.get(files);
+  if (!fileContents) {
+    fileContents = files.map(([path, content]) => ({ path, content }));
+    estimateFiles.set(files, fileContents);
+  }
+  return fileContents;
+}
+
+function formatUSD(cost: number): string {
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+/**
+ * The budget set for a run, or null when it has none
+ */
+export function getRunBudget(shared: BudgetSharedState): RunBudget | null {
+  const budget: RunBudget = {
+    maxCostUsd: isPositive(shared.max_cost_usd) ? shared.max_cost_usd : undefined,
+    maxTokens: isPositive(shared.max_tokens) ? shared.max_tokens : undefined,
+  };
+  return budget.maxCostUsd !== undefined || budget.maxTokens !== undefined ? budget : null;
+}
+
+/**
+ * Which limit `usage` goes over, if any
+ */
+function exceededLimit(budget: RunBudget, usage: BudgetUsage): 'cost' | 'tokens' | null {
+  if (budget.maxCostUsd !== undefined && usage.cost > budget.maxCostUsd) return 'cost';
+  if (budget.maxTokens !== undefined && usage.tokens > budget.maxTokens) return 'tokens';
+  return null;
+}
+
+function describeOverrun(limit: 'cost' | 'tokens', budget: RunBudget, usage: BudgetUsage): string {
+  return limit === 'cost'
+    ? `${formatUSD(usage.cost)} would exceed the ${formatUSD(budget.maxCostUsd!)} budget`
+    : `${usage.tokens.toLocaleString()} tokens would exceed the ${budget.maxTokens!.toLocaleString()} token budget`;
+}
+
+/**
+ * Estimated tokens and cost of the work this run has left with the given
+ * main model and chapter count; null when there are no files to estimate
+ * from or the model isn't in the catalogue
+ */
+function estimateRemaining(
+  shared: BudgetSharedState,
+  providerId: string,
+  modelId: string | undefined,
+  maxChapters?: number
+): BudgetUsage | null {
+  const files = shared.files ?? [];
+  const model = modelId || getProvider(providerId)?.models[0]?.id;
+  if (files.length === 0 || !model) return null;
+
+  const run = shared.run_id ? loadRun(shared.run_id) : null;
+  const completedSteps = run?.completedSteps ?? [];
+  const plannedChapters = shared.chapter_order?.length ?? shared.max_abstraction_num ?? DEFAULT_MAX_ABSTRACTIONS;
+  const totalChapters = Math.min(plannedChapters, maxChapters ?? plannedChapters);
+  const chaptersLeft = Math.max(0, totalChapters - (run?.chaptersCompleted ?? 0));
+
+  try {
+    const estimate = getFullCostEstimate(
+      providerId,
+      model,
+      getEstimateFiles(files),
+      chaptersLeft,
+      shared.stage_models,
+      {
+        language: shared.language,
+        summarizeFiles: shared.summarize_files,
+        chapterConcurrency: shared.chapter_concurrency,
+      }
+    );
+    const remaining = (estimate.stages ?? []).filter(stage => {
+      const step = STAGE_STEPS[stage.stage];
+      return !step || !completedSteps.includes(step);
+    });
+    return {
+      cost: remaining.reduce((sum, stage) => sum + stage.cost, 0),
+      tokens: remaining.reduce((sum, stage) => sum + stage.tokens.inputTokens + stage.tokens.outputTokens, 0),
+    };
+  } catch {
+    // Models outside the catalogue can't be estimated
+    return null;
+  }
+}
+
+function addUsage(a: BudgetUsage, b: BudgetUsage): BudgetUsage {
+  return { cost: a.cost + b.cost, tokens: a.tokens + b.tokens };
+}
+
+/**
+ * Start tracking a run's spend against its budget. Spend from earlier
+ * attempts of the run counts too. Throws BudgetExceededError when the
+ * estimate for the work left would take the run over budget.
+ */
+export function startRunBudget(runId: string, shared: BudgetSharedState): void {
+  const budget = getRunBudget(shared);
+  if (!budget) return;
+
+  const ledger = getRunCost(runId);
+  const spent: BudgetUsage = { cost: ledger.cost, tokens: ledger.inputTokens + ledger.outputTokens };
+  trackedRuns.set(runId, { budget, spent, reserved: { cost: 0, tokens: 0 } });
+
+  const remaining = estimateRemaining(shared, shared.llm_provider || PROVIDER_IDS.OPENAI, shared.llm_model);
+  if (!remaining) {
+    log.info(`Run ${runId}: no estimate available, enforcing the budget per call only`, { budget });
+    return;
+  }
+
+  const projected = addUsage(spent, remaining);
+  const limit = exceededLimit(budget, projected);
+  log.info(`Run ${runId}: projected ${formatUSD(projected.cost)}, ${projected.tokens} tokens`, { budget });
+  if (limit) {
+    throw new BudgetExceededError(
+      `Not starting: the estimated ${describeOverrun(limit, budget, projected)}`,
+      { when: 'before_start', limit, budget, spent, projected }
+    );
+  }
+}
+
+/**
+ * Stop tracking a run that has ended
+ */
+export function endRunBudget(runId: string): void {
+  trackedRuns.delete(runId);
+}
+
+/**
+ * Throw BudgetExceededError if a call estimated at `next` would take the
+ * run over budget, counting the calls still in flight. Otherwise reserve
+ * `next` until addRunSpend settles it. Calls outside a budgeted run always pass.
+ */
+export function checkRunBudget(runId: string | undefined, next: BudgetUsage): void {
+  const tracked = runId ? trackedRuns.get(runId) : undefined;
+  if (!tracked) return;
+
+  const projected = addUsage(addUsage(tracked.spent, tracked.reserved), next);
+  const limit = exceededLimit(tracked.budget, projected);
+  if (limit) {
+    throw new BudgetExceededError(
+      `Paused: the next LLM call would bring the run to ${describeOverrun(limit, tracked.budget, projected)}`,
+      { when: 'during_run', limit, budget: tracked.budget, spent: { ...tracked.spent }, projected }
+    );
+  }
+  tracked.reserved = addUsage(tracked.reserved, next);
+}
+
+/**
+ * Settle a call checked with checkRunBudget: release its `reserved` estimate
+ * and add what it actually used (nothing, if it failed) to the run's total
+ */
+export function addRunSpend(runId: string | undefined, usage: BudgetUsage, reserved: BudgetUsage): void {
+  const tracked = runId ? trackedRuns.get(runId) : undefined;
+  if (!tracked) return;
+
+  tracked.spent = addUsage(tracked.spent, usage);
+  tracked.reserved = {
+    cost: Math.max(0, tracked.reserved.cost - reserved.cost),
+    tokens: Math.max(0, tracked.reserved.tokens - reserved.tokens),
+  };
+}
+
+/**
+ * Ways to finish the run within its budget: the priciest catalogue models
+ * that fit (so quality drops as little as possible), then the most chapters
+ * that fit with the current model
+ */
+export function getBudgetOptions(
+  shared: BudgetSharedState,
+  budget: RunBudget,
+  spent: BudgetUsage
+): BudgetOption[] {
+  const currentProvider = shared.llm_provider || PROVIDER_IDS.OPENAI;
+  const currentModel = shared.llm_model || getProvider(currentProvider)?.models[0]?.id;
+  const options: BudgetOption[] = [];
+
+  const modelOptions: BudgetOption[] = [];
+  for (const provider of LLM_PROVIDERS) {
+    // Local models may not be installed; unpriced models would always "fit"
+    if (provider.isLocal) continue;
+    for (const model of provider.models) {
+      if (provider.id === currentProvider && model.id === currentModel) continue;
+      if (model.costPer1kInput === 0 && model.costPer1kOutput === 0) continue;
+
+      const remaining = estimateRemaining(shared, provider.id, model.id);
+      if (!remaining) continue;
+      const projected = addUsage(spent, remaining);
+      if (exceededLimit(budget, projected)) continue;
+
+      modelOptions.push({
+        kind: 'cheaper_model',
+        label: `Continue with ${provider.name} ${model.name} (~${formatUSD(projected.cost)} in total)`,
+        settings: { llm_provider: provider.id, llm_model: model.id },
+        projected,
+      });
+    }
+  }
+  // Same provider first (its API key is likely at hand), then the priciest that fit
+  modelOptions.sort((a, b) =>
+    Number(b.settings.llm_provider === currentProvider) - Number(a.settings.llm_provider === currentProvider) ||
+    b.projected.cost - a.projected.cost
+  );
+  options.push(...modelOptions.slice(0, MAX_MODEL_OPTIONS));
+
+  const plannedChapters = shared.chapter_order?.length ?? shared.max_abstraction_num ?? DEFAULT_MAX_ABSTRACTIONS;
+  for (let chapters = plannedChapters - 1; chapters >= 1; chapters--) {
+    const remaining = estimateRemaining(shared, currentProvider, currentModel, chapters);
+    if (!remaining) break;
+    const projected = addUsage(spent, remaining);
+    if (!exceededLimit(budget, projected)) {
+      options.push({
+        kind: 'fewer_chapters',
+        label: `Continue with ${chapters} chapter${chapters === 1 ? '' : 's'} (~${formatUSD(projected.cost)} in total)`,
+        settings: { max_abstraction_num: chapters },
+        projected,
+      });
+      break;
+    }
+  }
+
+  return options;
+}
@@ -0,0 +1,434 @@
+/**
+ * Tutorial Run Checkpoints
+ * Persists the output of each flow step under a run ID so a failed run
+ * can be resumed from the last completed step with the same settings
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { createScopedLogger } from './cacheLogger';
+import { createManifest, loadManifest, readManifestFiles } from './blobStore';
+
+const log = createScopedLogger('Checkpoint');
+
+// Runs live next to the repo caches: cache/runs/<runId>/
+const RUNS_DIR = path.join(process.cwd(), 'cache', 'runs');
+const RUN_FILE = 'run.json';
+const FILES_FILE = 'files.json'; // Full file contents, written by runs from before the blob store
+const CHAPTERS_DIR = 'chapters';
+
+export type RunStatus = 'running' | 'failed' | 'paused' | 'completed' | 'cancelled';
+
+// A running run is still executing and a completed one has nothing left to do
+const RESUMABLE_STATUSES: RunStatus[] = ['failed', 'paused', 'cancelled'];
+
+export type CheckpointStep =
+  | 'fetch_repo'
+  | 'identify_abstractions'
+  | 'analyze_relationships'
+  | 'order_chapters'
+  | 'write_chapters'
+  | 'combine_tutorial';
+
+export const CHECKPOINT_STEPS: CheckpointStep[] = [
+  'fetch_repo',
+  'identify_abstractions',
+  'analyze_relationships',
+  'order_chapters',
+  'write_chapters',
+  'combine_tutorial',
+];
+
+// Shared-state keys needed to re-run with the same settings.
+// API keys and tokens are deliberately NOT persisted; supply them again on resume.
+const RESUMABLE_SETTINGS = [
+  'repo_url',
+  'ref',
+  'package_path',
+  'commit_sha',
+  'base_commit_sha',
+  'changed_paths',
+  'manifest_id',
+  'local_dir',
+  'project_name',
+  'include_patterns',
+  'exclude_patterns',
+  'max_file_size',
+  'summarize_files',
+  'chapter_concurrency',
+  'use_git_clone',
+  'language',
+  'use_cache',
+  'max_abstraction_num',
+  'output_dir',
+  'llm_provider',
+  'llm_model',
+  'llm_base_url',
+  'stage_models',
+  'llm_fallbacks',
+  'max_cost_usd',
+  'max_tokens',
+  'force_full_regeneration',
+  'requested_regeneration_mode',
+] as const;
+
+export interface ChapterModel {
+  provider: string;
+  model: string;
+}
+
+export interface TutorialRun {
+  runId: string;
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  repoUrl?: string;
+  projectName?: string;
+  settings: Record<string, unknown>;
+  completedSteps: CheckpointStep[];
+  chaptersCompleted: number;
+  chapterModels?: Record<string, ChapterModel>; // chapter slug -> the model that wrote it
+  resumeCount: number;
+  error?: string;
+  outputDir?: string;
+  // The run's input files: their blob store manifest, and their order
+  // (abstractions refer to files by index)
+  filesManifestId?: string;
+  filePaths?: string[];
+}
+
+function isValidRunId(runId: string): boolean {
+  return /^[a-z0-9-]+$/i.test(runId);
+}
+
+function runDir(runId: string): string {
+  return path.join(RUNS_DIR, runId);
+}
+
+function writeJson(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+}
+
+function readJson<T>(filePath: string): T | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (error) {
+    log.warn(`Failed to read checkpoint ${filePath}`, { error });
+    return undefined;
+  }
+}
+
+function saveRun(run: TutorialRun): void {
+  run.updatedAt = new Date().toISOString();
+  writeJson(path.join(runDir(run.runId), RUN_FILE), run);
+}
+
+function updateRun(runId: string, update: (run: TutorialRun) => void): void {
+  const run = loadRun(runId);
+  if (!run) return;
+  update(run);
+  saveRun(run);
+}
+
+/**
+ * Create a new run and record the settings it was started with
+ */
+export function createRun(shared: Record<string, unknown>): string {
+  const now = new Date();
+  const runId = `${now.toISOString().slice(0, 10).replace(/-/g, '')}-${crypto.randomBytes(6).toString('hex')}`;
+
+  const settings: Record<string, unknown> = {};
+  for (const key of RESUMABLE_SETTINGS) {
+    if (shared[key] !== undefined) {
+      settings[key] = shared[key];
+    }
+  }
+
+  // Files provided up front are part of the run's inputs
+  const files = Array.isArray(shared.files) && shared.files.length > 0
+    ? storeRunFiles(
+        shared.files as [string, string][],
+        shared.repo_url as string | undefined,
+        shared.manifest_id as string | undefined
+      )
+    : {};
+
+  saveRun({
+    runId,
+    status: 'running',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    repoUrl: shared.repo_url as string | undefined,
+    projectName: shared.project_name as string | undefined,
+    settings,
+    completedSteps: [],
+    chaptersCompleted: 0,
+    resumeCount: 0,
+    ...files,
+  });
+
+  log.info(`Created run ${runId}`, { repoUrl: shared.repo_url });
+  return runId;
+}
+
+/**
+ * Keep a run's files in the blob store, usually already there from the crawl,
+ * so a run records only their manifest and order
+ */
+function storeRunFiles(
+  files: [string, string][],
+  repoUrl?: string,
+  manifestId?: string
+): Pick<TutorialRun, 'filesManifestId' | 'filePaths'> {
+  const filesManifestId = (manifestId && loadManifest(manifestId)?.id)
+    || createManifest(repoUrl ?? '', Object.fromEntries(files)).id;
+  return { filesManifestId, filePaths: files.map(([filePath]) => filePath) };
+}
+
+/**
+ * Load a run's metadata
+ */
+export function loadRun(runId: string): TutorialRun | null {
+  if (!isValidRunId(runId)) return null;
+  return readJson<TutorialRun>(path.join(runDir(runId), RUN_FILE)) ?? null;
+}
+
+/**
+ * List runs, most recent first, optionally filtered by status
+ */
+export function listRuns(status?: RunStatus): TutorialRun[] {
+  if (!fs.existsSync(RUNS_DIR)) return [];
+
+  return fs.readdirSync(RUNS_DIR)
+    .map(runId => loadRun(runId))
+    .filter((run): run is TutorialRun => run !== null && (!status || run.status === status))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Delete a run and all of its checkpoints
+ */
+export function deleteRun(runId: string): boolean {
+  if (!isValidRunId(runId) || !fs.existsSync(runDir(runId))) return false;
+  fs.rmSync(runDir(runId), { recursive: true, force: true });
+  log.info(`Deleted run ${runId}`);
+  return true;
+}
+
+/**
+ * Persist the output of a completed step.
+ * Checkpoint failures are logged, never thrown - they must not break generation.
+ */
+export function saveStepOutput(runId: string | undefined, step: CheckpointStep, output: unknown): void {
+  if (!runId) return;
+  try {
+    // Fetched files go to the blob store like the files a run starts with
+    const files = step === 'fetch_repo'
+      ? storeRunFiles(output as [string, string][], loadRun(runId)?.repoUrl)
+      : null;
+    if (!files) {
+      writeJson(path.join(runDir(runId), `${step}.json`), output);
+    }
+    updateRun(runId, run => {
+      if (files) {
+        Object.assign(run, files);
+      }
+      if (!run.completedSteps.includes(step)) {
+        run.completedSteps.push(step);
+      }
+      if (step === 'combine_tutorial' && typeof output === 'string') {
+        run.outputDir = output;
+      }
+    });
+    log.save(`Run ${runId}: checkpointed ${step}`);
+  } catch (error) {
+    log.warn(`Run ${runId}: failed to checkpoint ${step}`, { error });
+  }
+}
+
+/**
+ * Load the output of a step completed by an earlier attempt of this run
+ */
+export function loadStepOutput<T>(runId: string | undefined, step: CheckpointStep): T | undefined {
+  if (!runId || !isValidRunId(runId)) return undefined;
+
+  const run = loadRun(runId);
+  if (!run?.completedSteps.includes(step)) return undefined;
+
+  const output = step === 'fetch_repo'
+    ? loadRunFiles(run) as T | undefined
+    : readJson<T>(path.join(runDir(runId), `${step}.json`));
+  if (output !== undefined) {
+    log.hit(`Run ${runId}: reusing ${step} checkpoint`);
+  }
+  return output;
+}
+
+/**
+ * Persist a single written chapter, and which model wrote it
+ */
+export function saveChapterCheckpoint(
+  runId: string | undefined,
+  chapterSlug: string,
+  content: string,
+  writtenBy?: ChapterModel
+): void {
+  if (!runId) return;
+  try {
+    const filePath = path.join(runDir(runId), CHAPTERS_DIR, `${chapterSlug}.md`);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    updateRun(runId, run => {
+      run.chaptersCompleted = fs.readdirSync(path.dirname(filePath)).length;
+      if (writtenBy) {
+        run.chapterModels = { ...run.chapterModels, [chapterSlug]: writtenBy };
+      }
+    });
+  } catch (error) {
+    log.warn(`Run ${runId}: failed to checkpoint chapter ${chapterSlug}`, { error });
+  }
+}
+
+/**
+ * Load chapters written by earlier attempts of this run (slug -> content)
+ */
+export function loadChapterCheckpoints(runId: string | undefined): Record<string, string> {
+  if (!runId || !isValidRunId(runId)) return {};
+
+  const dir = path.join(runDir(runId), CHAPTERS_DIR);
+  if (!fs.existsSync(dir)) return {};
+
+  const chapters: Record<string, string> = {};
+  for (const file of fs.readdirSync(dir)) {
+    if (file.endsWith('.md')) {
+      chapters[file.replace(/\.md$/, '')] = fs.readFileSync(path.join(dir, file), 'utf-8');
+    }
+  }
+  return chapters;
+}
+
+/**
+ * Mark a resumed run as running again, once its flow has started
+ */
+export function markRunResumed(runId: string): void {
+  updateRun(runId, run => {
+    run.status = 'running';
+    run.resumeCount += 1;
+  });
+  log.info(`Run ${runId} resumed`);
+}
+
+/**
+ * Mark a run as failed, keeping its checkpoints for a later resume
+ */
+export function markRunFailed(runId: string, error: unknown): void {
+  updateRun(runId, run => {
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : String(error);
+  });
+  log.warn(`Run ${runId} failed`);
+}
+
+/**
+ * Mark a run as paused because it reached its budget; like a failed run it
+ * can be resumed, e.g. with a bigger budget or a cheaper model
+ */
+export function markRunPaused(runId: string, reason: string): void {
+  updateRun(runId, run => {
+    run.status = 'paused';
+    run.error = reason;
+  });
+  log.info(`Run ${runId} paused: ${reason}`);
+}
+
+/**
+ * Mark a run as cancelled by the user; its checkpoints are kept
+ */
+export function markRunCancelled(runId: string): void {
+  updateRun(runId, run => {
+    run.status = 'cancelled';
+    run.error = undefined;
+  });
+  log.info(`Run ${runId} cancelled`);
+}
+
+/**
+ * Mark a run as completed
+ */
+export function markRunCompleted(runId: string): void {
+  updateRun(runId, run => {
+    run.status = 'completed';
+    run.error = undefined;
+  });
+}
+
+/**
+ * The run's input files in their original order, or undefined when it had
+ * none or they are no longer stored
+ */
+function loadRunFiles(run: TutorialRun): [string, string][] | undefined {
+  if (!run.filesManifestId || !run.filePaths) {
+    return readJson<[string, string][]>(path.join(runDir(run.runId), FILES_FILE));
+  }
+
+  const manifest = loadManifest(run.filesManifestId);
+  const files = manifest && readManifestFiles(manifest);
+  if (!files || run.filePaths.some(filePath => files[filePath] === undefined)) {
+    log.warn(`Files of run ${run.runId} are no longer stored`, { manifestId: run.filesManifestId });
+    return undefined;
+  }
+  return run.filePaths.map(filePath => [filePath, files[filePath]]);
+}
+
+export type ResumeSharedStateResult =
+  | { shared: Record<string, unknown> }
+  | { error: string; status: 404 | 409 };
+
+/**
+ * Rebuild the shared state for resuming a run with its original settings.
+ * Only failed, paused and cancelled runs can be resumed.
+ * Secrets (API keys, tokens) come from `overrides` since they are never stored.
+ * `changedSettings` (e.g. a cheaper model for a run that hit its budget)
+ * replace the stored settings from now on; null removes a setting.
+ */
+export function buildResumeSharedState(
+  runId: string,
+  overrides: Record<string, unknown> = {},
+  changedSettings: Record<string, unknown> = {}
+): ResumeSharedStateResult {
+  const run = loadRun(runId);
+  if (!run) {
+    return { error: `Run not found: ${runId}`, status: 404 };
+  }
+  if (!RESUMABLE_STATUSES.includes(run.status)) {
+    return { error: `Run ${runId} is ${run.status} and can't be resumed`, status: 409 };
+  }
+
+  const files = loadRunFiles(run);
+  const settings = { ...run.settings };
+  for (const key of RESUMABLE_SETTINGS) {
+    if (changedSettings[key] === null) {
+      delete settings[key];
+    } else if (changedSettings[key] !== undefined) {
+      settings[key] = changedSettings[key];
+    }
+  }
+
+  // The run stays resumable until its flow starts (see markRunResumed)
+  updateRun(runId, r => {
+    r.settings = settings;
+  });
+
+  return {
+    shared: {
+      ...settings,
+      ...overrides,
+      run_id: runId,
+      // Reuse the exact files of the original attempt when we have them
+      ...(files ? { files, skip_fetch_repo: true } : {}),
+    },
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Saved Versions
+ * Named versions of a crawl, kept on the server so they can be shared and
+ * survive clearing the browser. A version references a blob store manifest,
+ * so saving one doesn't copy any files, and two versions are diffed by
+ * comparing their blob SHAs.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { createManifest, loadManifest, readBlob, readManifestFiles } from './blobStore';
+import { createScopedLogger } from './cacheLogger';
+
+const log = createScopedLogger('Versions');
+
+// cache/versions/<id>.json
+const VERSIONS_DIR = path.join(process.cwd(), 'cache', 'versions');
+
+const VERSION_ID_PATTERN = /^repo-[a-z0-9]+$/;
+
+export interface SavedVersion {
+  id: string;
+  name: string;
+  timestamp: string;
+  repository: string;
+  fileCount: number;
+  manifestId: string;
+}
+
+export interface VersionFileChange {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  base?: string;  // Content in the base version (not for added files)
+  head?: string;  // Content in the head version (not for removed files)
+}
+
+export interface VersionDiff {
+  base: SavedVersion;
+  head: SavedVersion;
+  changes: VersionFileChange[];
+  unchangedCount: number;
+}
+
+function versionFile(id: string): string {
+  return path.join(VERSIONS_DIR, `${id}.json`);
+}
+
+/**
+ * Saved versions, newest first, optionally only those of one repository
+ */
+export function listVersions(repository?: string): SavedVersion[] {
+  if (!fs.existsSync(VERSIONS_DIR)) return [];
+
+  const versions: SavedVersion[] = [];
+  for (const fileName of fs.readdirSync(VERSIONS_DIR)) {
+    if (!fileName.endsWith('.json')) continue;
+    const version = getVersion(fileName.slice(0, -'.json'.length));
+    if (version && (!repository || version.repository === repository)) {
+      versions.push(version);
+    }
+  }
+
+  return versions.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * Load a saved version
+ */
+export function getVersion(id: string): SavedVersion | null {
+  if (!VERSION_ID_PATTERN.test(id) || !fs.existsSync(versionFile(id))) return null;
+
+  try {
+    return JSON.parse(fs.readFileSync(versionFile(id), 'utf-8')) as SavedVersion;
+  } catch (error) {
+    log.warn(`Failed to read version ${id}`, { error });
+    return null;
+  }
+}
+
+/**
+ * Save a version of a repository's files, given either the manifest of a crawl
+ * that's already in the blob store or the files themselves
+ */
+export function createVersion(options: {
+  name: string;
+  repository: string;
+  manifestId?: string;
+  files?: Record<string, string>;
+  timestamp?: string;  // When the version was first saved, for versions moved from elsewhere
+}): SavedVersion {
+  const manifest = options.manifestId
+    ? loadManifest(options.manifestId)
+    : createManifest(options.repository, options.files ?? {});
+  if (!manifest) {
+    throw new Error(`Crawl not found: ${options.manifestId}`);
+  }
+
+  const version: SavedVersion = {
+    id: `repo-${Date.now().toString(36)}${crypto.randomBytes(3).toString('hex')}`,
+    name: options.name,
+    timestamp: options.timestamp ?? new Date().toISOString(),
+    repository: options.repository,
+    fileCount: Object.keys(manifest.files).length,
+    manifestId: manifest.id,
+  };
+
+  fs.mkdirSync(VERSIONS_DIR, { recursive: true });
+  fs.writeFileSync(versionFile(version.id), JSON.stringify(version, null, 2));
+  log.save(`Saved version "${version.name}"`, { id: version.id, files: version.fileCount });
+  return version;
+}
+
+/**
+ * The files of a saved version, or null when the version or any of its blobs is gone
+ */
+export function loadVersionFiles(version: SavedVersion): Record<string, string> | null {
+  const manifest = loadManifest(version.manifestId);
+  return manifest && readManifestFiles(manifest);
+}
+
+/**
+ * Rename a saved version; returns null when it doesn't exist
+ */
+export function renameVersion(id: string, name: string): SavedVersion | null {
+  const version = getVersion(id);
+  if (!version) return null;
+
+  version.name = name;
+  fs.writeFileSync(versionFile(id), JSON.stringify(version, null, 2));
+  return version;
+}
+
+/**
+ * Delete a saved version. Its files stay in the blob store, where other
+ * versions and crawls may still reference them.
+ */
+export function deleteVersion(id: string): boolean {
+  if (!getVersion(id)) return false;
+
+  fs.unlinkSync(versionFile(id));
+  log.info(`Deleted version ${id}`);
+  return true;
+}
+
+/**
+ * Files added, removed and modified from one saved version to another, with
+ * the content of both sides of each change. Null when a version or its
+ * manifest is missing.
+ */
+export function diffVersions(baseId: string, headId: string): VersionDiff | null {
+  const base = getVersion(baseId);
+  const head = getVersion(headId);
+  const baseManifest = base && loadManifest(base.manifestId);
+  const headManifest = head && loadManifest(head.manifestId);
+  if (!base || !head || !baseManifest || !headManifest) return null;
+
+  const changes: VersionFileChange[] = [];
+  let unchangedCount = 0;
+
+  for (const [filePath, headSha] of Object.entries(headManifest.files)) {
+    const baseSha = baseManifest.files[filePath];
+    if (baseSha === headSha) {
+      unchangedCount++;
+    } else if (baseSha === undefined) {
+      changes.push({ path: filePath, status: 'added', head: readBlob(headSha) ?? '' });
+    } else {
+      changes.push({
+        path: filePath,
+        status: 'modified',
+        base: readBlob(baseSha) ?? '',
+        head: readBlob(headSha) ?? '',
+      });
+    }
+  }
+
+  for (const [filePath, baseSha] of Object.entries(baseManifest.files)) {
+    if (!(filePath in headManifest.files)) {
+      changes.push({ path: filePath, status: 'removed', base: readBlob(baseSha) ?? '' });
+    }
+  }
+
+  changes.sort((a, b) => a.path.localeCompare(b.path));
+  return { base, head, changes, unchangedCount };
+}
@@ -0,0 +1,718 @@
+/**
+ * Source Providers
+ * Where repositories are crawled from: github.com, GitHub Enterprise Server,
+ * GitLab (gitlab.com or self-hosted) and Bitbucket Cloud. Each provider turns
+ * a repository URL into API calls for resolving a commit, listing the files at
+ * it, reading a file and downloading the whole tree as one archive, and reports
+ * rate limits in the same shape so the crawler route can forward them to the client.
+ *
+ * Self-hosted instances are configured with environment variables:
+ *   GITHUB_ENTERPRISE_URL      e.g. https://github.example.com
+ *   GITHUB_ENTERPRISE_API_URL  defaults to <GITHUB_ENTERPRISE_URL>/api/v3
+ *   GITLAB_URL                 e.g. https://gitlab.example.com (API at /api/v4)
+ */
+
+export type SourceProviderId = 'github' | 'github-enterprise' | 'gitlab' | 'bitbucket';
+
+/**
+ * A repository (and optionally a ref and subdirectory) parsed from its URL
+ */
+export interface RepoSource {
+  provider: SourceProviderId;
+  apiBase: string;  // API root, without trailing slash
+  owner: string;    // GitLab: the project's group path (may contain slashes); Bitbucket: the workspace
+  repo: string;
+  ref: string;      // Branch, tag or commit from the URL; empty for the default branch
+  path: string;     // Subdirectory from the URL; empty for the whole repository
+}
+
+/**
+ * A file listed in the repository tree
+ */
+export interface SourceFile {
+  path: string;   // Path from the repository root
+  sha?: string;   // Git blob SHA, when the provider reports it
+  size?: number;  // Size in bytes, when the provider reports it
+}
+
+/**
+ * The files of a repository tree, and the directories that couldn't be listed
+ */
+export interface SourceListing {
+  files: SourceFile[];
+  unlistedPaths: string[];  // Directories whose files are missing from the listing
+}
+
+/**
+ * Branches and tags to pick a ref from
+ */
+export interface SourceRefs {
+  defaultBranch?: string;
+  branches: string[];
+  tags: string[];
+}
+
+/**
+ * A file changed between two commits
+ */
+export interface SourceFileChange {
+  path: string;
+  previousPath?: string;  // Renames: the path before
+  status: string;         // 'added', 'modified', 'removed', 'renamed', ...
+  sha: string;            // Blob SHA of the new content
+}
+
+/**
+ * Thrown (as a plain object) when a provider's rate limit is hit. Headers are
+ * normalized to GitHub's x-ratelimit-* names whichever provider sent them.
+ */
+export interface RateLimitInfo {
+  status: number;
+  message: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Makes a request to the provider's API with the crawl's credentials,
+ * counting it towards the crawl's API requests
+ */
+export type SourceRequest = (url: string, accept?: string) => Promise<Response>;
+
+export interface SourceProvider {
+  id: SourceProviderId;
+  name: string;
+  tokenEnvVars: string[];  // Env vars to read a token from when the request has none
+  requestHeaders(token?: string): Record<string, string>;
+  // Throw rate limit errors in the shared shape; other errors are left to the caller
+  throwIfRateLimited(response: Response, errorText: string): void;
+  // The commit a branch, tag or commit (the default branch when empty) points to
+  resolveCommitSha(source: RepoSource, request: SourceRequest): Promise<string | undefined>;
+  // The default branch and (the first page of) branches and tags
+  listRefs(source: RepoSource, request: SourceRequest): Promise<SourceRefs>;
+  // Every file under source.path at a ref. Throws when the root can't be listed;
+  // directories below it that can't be listed are reported in unlistedPaths.
+  listFiles(source: RepoSource, ref: string, request: SourceRequest): Promise<SourceListing>;
+  // A file's content, or null when it couldn't be read
+  readFile(
+    source: RepoSource,
+    file: SourceFile,
+    ref: string,
+    request: SourceRequest
+  ): Promise<{ content: string; size: number } | null>;
+  // Zip archive of the repository (or of source.path, where supported) at a ref,
+  // downloaded in one request; null when the provider needs a ref it doesn't have
+  archiveUrl(source: RepoSource, ref: string): string | null;
+  // Files changed from one commit to another. Null when the head isn't a
+  // descendant of the base or the list is incomplete. Providers without it
+  // always crawl in full.
+  compareCommits?(
+    source: RepoSource,
+    baseSha: string,
+    headSha: string,
+    request: SourceRequest
+  ): Promise<SourceFileChange[] | null>;
+}
+
+// GitHub's compare API lists at most this many changed files
+const MAX_COMPARE_FILES = 300;
+
+// Subtrees of a truncated GitHub tree listed at once
+const TREE_BATCH_SIZE = 5;
+
+// How deep Bitbucket lists directories in one request
+const BITBUCKET_MAX_DEPTH = 100;
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+// Personal access tokens GitHub issues; never sent to other hosts
+const GITHUB_TOKEN_PATTERN = /^(ghp|gho|ghu|ghs|github_pat)_/;
+
+// Branch and tag names as git allows them, minus anything that could change the API path
+const REF_PATTERN = /^(?!.*\.\.)(?!\/)(?!.*\/$)[\w./@+-]+$/;
+
+function trimSlashes(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+function hostOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+function rateLimitHeaders(response: Response, names: Record<string, string>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [header, normalized] of Object.entries(names)) {
+    const value = response.headers.get(header);
+    if (value) headers[normalized] = value;
+  }
+  return headers;
+}
+
+// Path inside the repository, from the URL's path segments after the ref
+function joinPath(parts: string[]): string {
+  return parts.map(part => decodeURIComponent(part)).join('/');
+}
+
+function decodeBase64(base64String: string): string {
+  return Buffer.from(base64String.replace(/\n/g, ''), 'base64').toString('utf-8');
+}
+
+// GET a JSON resource, throwing rate limit errors and returning null for other failures
+async function requestJson<T>(
+  provider: Pick<SourceProvider, 'throwIfRateLimited'>,
+  url: string, request: SourceRequest): Promise<T | null> {
+  const response = await request(url);
+  if (!response.ok) {
+    provider.throwIfRateLimited(response, await response.text());
+    return null;
+  }
+  return response.json();
+}
+
+// The URL of the next page from a Link header, as sent by GitHub and GitLab
+function nextPageUrl(response: Response): string | null {
+  const link = response.headers.get('link');
+  const match = link?.match(/<([^>]+)>;\s*rel="next"/);
+  return match ? match[1] : null;
+}
+
+const githubProvider: Omit<SourceProvider, 'id' | 'name' | 'tokenEnvVars'> = {
+  requestHeaders(token) {
+    const headers: Record<string, string> = { 'Accept': 'application/vnd.github.v3+json' };
+    if (token) headers['Authorization'] = `token ${token}`;
+    return headers;
+  },
+
+  throwIfRateLimited(response, errorText) {
+    if (response.status === 403 && errorText.includes('rate limit')) {
+      const rateLimitInfo: RateLimitInfo = {
+        status: 403,
+        message: errorText,
+        headers: rateLimitHeaders(response, {
+          'x-ratelimit-limit': 'x-ratelimit-limit',
+          'x-ratelimit-remaining': 'x-ratelimit-remaining',
+          'x-ratelimit-reset': 'x-ratelimit-reset',
+        }),
+      };
+      throw { rateLimitInfo };
+    }
+
+    // Secondary rate limits (abuse detection)
+    if (response.status === 429) {
+      throw { abuseDetection: true, message: errorText };
+    }
+  },
+
+  async resolveCommitSha(source, request) {
+    const response = await request(
+      `${source.apiBase}/repos/${source.owner}/${source.repo}/commits/${encodeURIComponent(source.ref || 'HEAD')}`,
+      'application/vnd.github.sha'
+    );
+
+    if (!response.ok) {
+      this.throwIfRateLimited(response, await response.text());
+      return undefined;
+    }
+
+    const sha = (await response.text()).trim();
+    return COMMIT_SHA_PATTERN.test(sha) ? sha : undefined;
+  },
+
+  async listRefs(source, request) {
+    const repoUrl = `${source.apiBase}/repos/${source.owner}/${source.repo}`;
+    const [repoInfo, branches, tags] = await Promise.all([
+      requestJson<{ default_branch?: string }>(this, repoUrl, request),
+      requestJson<{ name: string }[]>(this, `${repoUrl}/branches?per_page=100`, request),
+      requestJson<{ name: string }[]>(this, `${repoUrl}/tags?per_page=100`, request),
+    ]);
+    if (!repoInfo) {
+      throw new Error(`Repository ${source.owner}/${source.repo} not found or not accessible`);
+    }
+
+    return {
+      defaultBranch: repoInfo.default_branch,
+      branches: (branches ?? []).map(branch => branch.name),
+      tags: (tags ?? []).map(tag => tag.name),
+    };
+  },
+
+  // GitHub truncates recursive trees past 100,000 entries or 7 MB. A truncated tree
+  // is listed one level down instead, each subtree with its own recursive request,
+  // until every part of it is either listed in full or known to be missing.
+  async listFiles(source, ref, request) {
+    const treesUrl = `${source.apiBase}/repos/${source.owner}/${source.repo}/git/trees`;
+    const files: SourceFile[] = [];
+    const unlistedPaths: string[] = [];
+
+    // Whether a directory holds, or is inside, the crawled path
+    const isWanted = (dirPath: string) =>
+      !source.path || dirPath.startsWith(source.path) || source.path.startsWith(`${dirPath}/`);
+
+    const addBlobs = (prefix: string, items: { path: string; type: string; sha: string; size?: number }[]) => {
+      for (const item of items) {
+        const itemPath = prefix + item.path;
+        if (item.type === 'blob' && (!source.path || itemPath.startsWith(source.path))) {
+          files.push({ path: itemPath, sha: item.sha, size: item.size });
+        }
+      }
+    };
+
+    const listTree = async (treeSha: string, dirPath: string): Promise<void> => {
+      const prefix = dirPath ? `${dirPath}/` : '';
+      const response = await request(`${treesUrl}/${encodeURIComponent(treeSha)}?recursive=1`);
+
+      if (!response.ok) {
+        this.throwIfRateLimited(response, await response.text());
+        if (!dirPath) throw new Error(`Tree API error: ${response.status}`);
+        unlistedPaths.push(dirPath);
+        return;
+      }
+
+      const tree = await response.json();
+      if (!tree.truncated) {
+        addBlobs(prefix, tree.tree);
+        return;
+      }
+
+      console.log(`Tree of ${dirPath || 'the repository'} was truncated. Listing its subtrees one by one.`);
+
+      const levelResponse = await request(`${treesUrl}/${encodeURIComponent(treeSha)}`);
+      if (!levelResponse.ok) {
+        this.throwIfRateLimited(levelResponse, await levelResponse.text());
+        unlistedPaths.push(dirPath || '/');
+        return;
+      }
+
+      const level = await levelResponse.json();
+      const entries: { path: string; type: string; sha: string; size?: number }[] = level.tree;
+      addBlobs(prefix, entries);
+
+      // A single directory with more entries than one response holds
+      if (level.truncated) {
+        unlistedPaths.push(dirPath || '/');
+      }
+
+      const subtrees = entries.filter(entry => entry.type === 'tree' && isWanted(prefix + entry.path));
+      for (let i = 0; i < subtrees.length; i += TREE_BATCH_SIZE) {
+        await Promise.all(
+          subtrees.slice(i, i + TREE_BATCH_SIZE).map(entry => listTree(entry.sha, prefix + entry.path))
+        );
+      }
+    };
+
+    await listTree(ref || 'HEAD', '');
+    return { files, unlistedPaths };
+  },
+
+  async readFile(source, file, ref, request) {
+    if (!file.sha) return null;
+
+    const response = await request(`${source.apiBase}/repos/${source.owner}/${source.repo}/git/blobs/${file.sha}`);
+    if (!response.ok) {
+      this.throwIfRateLimited(response, await response.text());
+      return null;
+    }
+
+    const blobData = await response.json();
+    if (blobData.encoding !== 'base64' || typeof blobData.content !== 'string') return null;
+    return { content: decodeBase64(blobData.content), size: blobData.size };
+  },
+
+  archiveUrl(source, ref) {
+    return `${source.apiBase}/repos/${source.owner}/${source.repo}/zipball${ref ? `/${encodeURIComponent(ref)}` : ''}`;
+  },
+
+  async compareCommits(source, baseSha, headSha, request) {
+    // Changed files are listed on the first page regardless of page size; one commit is enough
+    const response = await request(
+      `${source.apiBase}/repos/${source.owner}/${source.repo}/compare/${baseSha}...${headSha}?per_page=1`
+    );
+
+    if (!response.ok) {
+      this.throwIfRateLimited(response, await response.text());
+      return null;
+    }
+
+    const comparison = await response.json();
+
+    // Only commits on top of the base can be applied to its files
+    if (comparison.status !== 'ahead' || !Array.isArray(comparison.files) ||
+        comparison.files.length >= MAX_COMPARE_FILES) {
+      console.log(`Can't compare ${baseSha.substring(0, 7)}...${headSha.substring(0, 7)} (${comparison.status}, ${comparison.files?.length ?? 0} files changed)`);
+      return null;
+    }
+
+    return (comparison.files as { filename: string; previous_filename?: string; status: string; sha: string }[])
+      .map(change => ({
+        path: change.filename,
+        previousPath: change.previous_filename,
+        status: change.status,
+        sha: change.sha,
+      }));
+  },
+};
+
+// GitLab addresses projects by their URL-encoded full path
+function gitlabProject(source: RepoSource): string {
+  return `${source.apiBase}/projects/${encodeURIComponent(`${source.owner}/${source.repo}`)}`;
+}
+
+const gitlabProvider: SourceProvider = {
+  id: 'gitlab',
+  name: 'GitLab',
+  tokenEnvVars: ['GITLAB_TOKEN', 'GITLAB_ACCESS_TOKEN'],
+
+  requestHeaders(token) {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (token) headers['PRIVATE-TOKEN'] = token;
+    return headers;
+  },
+
+  throwIfRateLimited(response, errorText) {
+    if (response.status === 429) {
+      const rateLimitInfo: RateLimitInfo = {
+        status: 429,
+        message: `GitLab API rate limit exceeded. ${errorText}`.trim(),
+        headers: rateLimitHeaders(response, {
+          'ratelimit-limit': 'x-ratelimit-limit',
+          'ratelimit-remaining': 'x-ratelimit-remaining',
+          'ratelimit-reset': 'x-ratelimit-reset',
+        }),
+      };
+      throw { rateLimitInfo };
+    }
+  },
+
+  async resolveCommitSha(source, request) {
+    // Without ref_name GitLab lists the default branch
+    const refParam = source.ref ? `&ref_name=${encodeURIComponent(source.ref)}` : '';
+    const response = await request(`${gitlabProject(source)}/repository/commits?per_page=1${refParam}`);
+
+    if (!response.ok) {
+      this.throwIfRateLimited(response, await response.text());
+      return undefined;
+    }
+
+    const commits = await response.json();
+    const sha = Array.isArray(commits) ? commits[0]?.id : undefined;
+    return typeof sha === 'string' && COMMIT_SHA_PATTERN.test(sha) ? sha : undefined;
+  },
+
+  async listRefs(source, request) {
+    const projectUrl = gitlabProject(source);
+    const [project, branches, tags] = await Promise.all([
+      requestJson<{ default_branch?: string }>(this, projectUrl, request),
+      requestJson<{ name: string }[]>(this, `${projectUrl}/repository/branches?per_page=100`, request),
+      requestJson<{ name: string }[]>(this, `${projectUrl}/repository/tags?per_page=100`, request),
+    ]);
+    if (!project) {
+      throw new Error(`Project ${source.owner}/${source.repo} not found or not accessible`);
+    }
+
+    return {
+      defaultBranch: project.default_branch,
+      branches: (branches ?? []).map(branch => branch.name),
+      tags: (tags ?? []).map(tag => tag.name),
+    };
+  },
+
+  async listFiles(source, ref, request) {
+    const params = new URLSearchParams({ recursive: 'true', per_page: '100', pagination: 'keyset' });
+    if (ref) params.set('ref', ref);
+    if (source.path) params.set('path', source.path);
+
+    const files: SourceFile[] = [];
+    let url: string | null = `${gitlabProject(source)}/repository/tree?${params}`;
+
+    while (url) {
+      const response: Response = await request(url);
+      if (!response.ok) {
+        const errorText = await response.text();
+        this.throwIfRateLimited(response, errorText);
+        throw new Error(`GitLab API error: ${response.status} ${errorText}`);
+      }
+
+      const entries: { path: string; type: string; id: string }[] = await response.json();
+      for (const entry of entries) {
+        if (entry.type === 'blob') files.push({ path: entry.path, sha: entry.id });
+      }
+      url = nextPageUrl(response);
+    }
+
+    return { files, unlistedPaths: [] };
+  },
+
+  async readFile(source, file, ref, request) {
+    const url = file.sha
+      ? `${gitlabProject(source)}/repository/blobs/${file.sha}/raw`
+      : `${gitlabProject(source)}/repository/files/${encodeURIComponent(file.path)}/raw${ref ? `?ref=${encodeURIComponent(ref)}` : ''}`;
+    const response = await request(url);
+
+    if (!response.ok) {
+      this.throwIfRateLimited(response, await response.text());
+      return null;
+    }
+
+    const content = await response.text();
+    return { content, size: Buffer.byteLength(content, 'utf-8') };
+  },
+
+  archiveUrl(source, ref) {
+    const params = new URLSearchParams();
+    if (ref) params.set('sha', ref);
+    if (source.path) params.set('path', source.path);
+    return `${gitlabProject(source)}/repository/archive.zip?${params}`;
+  },
+};
+
+function bitbucketRepo(source: RepoSource): string {
+  return `${source.apiBase}/repositories/${source.owner}/${source.repo}`;
+}
+
+const bitbucketProvider: SourceProvider = {
+  id: 'bitbucket',
+  name: 'Bitbucket',
+  tokenEnvVars: ['BITBUCKET_TOKEN'],
+
+  // An access token, or "username:app-password"
+  requestHeaders(token) {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (token) {
+      headers['Authorization'] = token.includes(':')
+        ? `Basic ${Buffer.from(token).toString('base64')}`
+        : `Bearer ${token}`;
+    }
+    return headers;
+  },
+
+  throwIfRateLimited(response, errorText) {
+    if (response.status === 429) {
+      const rateLimitInfo: RateLimitInfo = {
+        status: 429,
+        message: `Bitbucket API rate limit exceeded. ${errorText}`.trim(),
+        headers: rateLimitHeaders(response, {
+          'x-ratelimit-limit': 'x-ratelimit-limit',
+          'x-ratelimit-remaining': 'x-ratelimit-remaining',
+          'x-ratelimit-reset': 'x-ratelimit-reset',
+        }),
+      };
+      throw { rateLimitInfo };
+    }
+  },
+
+  async resolveCommitSha(source, request) {
+    let ref = source.ref;
+    if (!ref) {
+      const repoResponse = await request(bitbucketRepo(source));
+      if (!repoResponse.ok) {
+        this.throwIfRateLimited(repoResponse, await repoResponse.text());
+        return undefined;
+      }
+      ref = (await repoResponse.json()).mainbranch?.name;
+      if (!ref) return undefined;
+    }
+
+    const response = await request(`${bitbucketRepo(source)}/commit/${encodeURIComponent(ref)}`);
+    if (!response.ok) {
+      this.throwIfRateLimited(response, await response.text());
+      return undefined;
+    }
+
+    const sha = (await response.json()).hash;
+    return typeof sha === 'string' && COMMIT_SHA_PATTERN.test(sha) ? sha : undefined;
+  },
+
+  async listRefs(source, request) {
+    const repoUrl = bitbucketRepo(source);
+    type Page = { values: { name: string }[] };
+    const [repoInfo, branches, tags] = await Promise.all([
+      requestJson<{ mainbranch?: { name: string } }>(this, repoUrl, request),
+      requestJson<Page>(this, `${repoUrl}/refs/branches?pagelen=100`, request),
+      requestJson<Page>(this, `${repoUrl}/refs/tags?pagelen=100`, request),
+    ]);
+    if (!repoInfo) {
+      throw new Error(`Repository ${source.owner}/${source.repo} not found or not accessible`);
+    }
+
+    return {
+      defaultBranch: repoInfo.mainbranch?.name,
+      branches: (branches?.values ?? []).map(branch => branch.name),
+      tags: (tags?.values ?? []).map(tag => tag.name),
+    };
+  },
+
+  async listFiles(source, ref, request) {
+    if (!ref) {
+      throw new Error('Bitbucket needs a branch, tag or commit to list files');
+    }
+
+    const files: SourceFile[] = [];
+    let url: string | null =
+      `${bitbucketRepo(source)}/src/${encodeURIComponent(ref)}/${source.path}?max_depth=${BITBUCKET_MAX_DEPTH}&pagelen=100`;
+
+    while (url) {
+      const response: Response = await request(url);
+      if (!response.ok) {
+        const errorText = await response.text();
+        this.throwIfRateLimited(response, errorText);
+        throw new Error(`Bitbucket API error: ${response.status} ${errorText}`);
+      }
+
+      const page: { values: { type: string; path: string; size?: number }[]; next?: string } = await response.json();
+      for (const entry of page.values) {
+        if (entry.type === 'commit_file') files.push({ path: entry.path, size: entry.size });
+      }
+      url = page.next ?? null;
+    }
+
+    return { files, unlistedPaths: [] };
+  },
+
+  async readFile(source, file, ref, request) {
+    const encodedPath = file.path.split('/').map(encodeURIComponent).join('/');
+    const response = await request(`${bitbucketRepo(source)}/src/${encodeURIComponent(ref)}/${encodedPath}`);
+
+    if (!response.ok) {
+      this.throwIfRateLimited(response, await response.text());
+      return null;
+    }
+
+    const content = await response.text();
+    return { content, size: Buffer.byteLength(content, 'utf-8') };
+  },
+
+  // Archives are served from the website rather than the API
+  archiveUrl(source, ref) {
+    return ref ? `https://bitbucket.org/${source.owner}/${source.repo}/get/${encodeURIComponent(ref)}.zip` : null;
+  },
+};
+
+/**
+ * The provider implementation for a parsed repository
+ */
+export function getSourceProvider(id: SourceProviderId): SourceProvider {
+  switch (id) {
+    case 'github':
+      return { ...githubProvider, id, name: 'GitHub', tokenEnvVars: ['GITHUB_TOKEN', 'GITHUB_ACCESS_TOKEN', 'GH_TOKEN'] };
+    case 'github-enterprise':
+      return { ...githubProvider, id, name: 'GitHub Enterprise', tokenEnvVars: ['GITHUB_ENTERPRISE_TOKEN'] };
+    case 'gitlab':
+      return gitlabProvider;
+    case 'bitbucket':
+      return bitbucketProvider;
+  }
+}
+
+/**
+ * Parse a repository URL from a supported host. Returns null for any other
+ * host, so the crawler only ever sends credentials to known APIs, and for
+ * a ref in the URL that isn't a valid ref name (e.g. "..%2F..%2Fuser").
+ *
+ * github.com/<owner>/<repo>/tree/<ref>/<path>
+ * gitlab.com/<group>/<subgroup>/<project>/-/tree/<ref>/<path>
+ * bitbucket.org/<workspace>/<repo>/src/<ref>/<path>
+ */
+export function parseRepoUrl(url: string): RepoSource | null {
+  let source: RepoSource | null;
+  try {
+    source = parseSourceUrl(url);
+  } catch {
+    return null; // Malformed percent-encoding in the ref or path
+  }
+  return source && (!source.ref || isValidRef(source.ref)) ? source : null;
+}
+
+function parseSourceUrl(url: string): RepoSource | null {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsedUrl.protocol !== 'https:') return null;
+
+  const host = parsedUrl.host.toLowerCase();
+  const pathParts = parsedUrl.pathname.split('/').filter(Boolean);
+  const enterpriseUrl = process.env.GITHUB_ENTERPRISE_URL;
+  const gitlabUrl = process.env.GITLAB_URL;
+
+  if (host === 'github.com' || host === hostOf(enterpriseUrl)) {
+    if (pathParts.length < 2) return null;
+    const isEnterprise = host !== 'github.com';
+    const treeIndex = pathParts[2] === 'tree' ? 2 : -1;
+
+    return {
+      provider: isEnterprise ? 'github-enterprise' : 'github',
+      apiBase: isEnterprise
+        ? trimSlashes(process.env.GITHUB_ENTERPRISE_API_URL || `${trimSlashes(enterpriseUrl!)}/api/v3`)
+        : 'https://api.github.com',
+      owner: pathParts[0],
+      repo: pathParts[1].replace(/\.git$/, ''),
+      ref: treeIndex > 0 ? decodeURIComponent(pathParts[3] ?? '') : '',
+      path: treeIndex > 0 ? joinPath(pathParts.slice(4)) : '',
+    };
+  }
+
+  if (host === 'gitlab.com' || host === hostOf(gitlabUrl)) {
+    // Everything before "/-/" is the project path, which can include subgroups
+    const separatorIndex = pathParts.indexOf('-');
+    const projectParts = separatorIndex >= 0 ? pathParts.slice(0, separatorIndex) : pathParts;
+    if (projectParts.length < 2) return null;
+    const isTree = separatorIndex >= 0 && pathParts[separatorIndex + 1] === 'tree';
+
+    return {
+      provider: 'gitlab',
+      apiBase: host === 'gitlab.com' ? 'https://gitlab.com/api/v4' : `${trimSlashes(gitlabUrl!)}/api/v4`,
+      owner: projectParts.slice(0, -1).join('/'),
+      repo: projectParts[projectParts.length - 1].replace(/\.git$/, ''),
+      ref: isTree ? decodeURIComponent(pathParts[separatorIndex + 2] ?? '') : '',
+      path: isTree ? joinPath(pathParts.slice(separatorIndex + 3)) : '',
+    };
+  }
+
+  if (host === 'bitbucket.org') {
+    if (pathParts.length < 2) return null;
+    const isSrc = pathParts[2] === 'src';
+
+    return {
+      provider: 'bitbucket',
+      apiBase: 'https://api.bitbucket.org/2.0',
+      owner: pathParts[0],
+      repo: pathParts[1].replace(/\.git$/, ''),
+      ref: isSrc ? decodeURIComponent(pathParts[3] ?? '') : '',
+      path: isSrc ? joinPath(pathParts.slice(4)) : '',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Whether the source is served by GitHub's REST API (github.com or Enterprise Server)
+ */
+export function usesGitHubApi(source: RepoSource): boolean {
+  return source.provider === 'github' || source.provider === 'github-enterprise';
+}
+
+/**
+ * Whether a branch, tag or commit SHA given by the user is safe to put in an API URL
+ */
+export function isValidRef(ref: string): boolean {
+  return ref.length <= 255 && REF_PATTERN.test(ref);
+}
+
+/**
+ * The token to crawl a source with: the one from the request, or else the
+ * provider's environment variables. A GitHub token (e.g. prefilled in the form)
+ * is never sent to GitLab or Bitbucket.
+ */
+export function resolveSourceToken(source: RepoSource, requestToken?: string): string | undefined {
+  const token = requestToken && (usesGitHubApi(source) || !GITHUB_TOKEN_PATTERN.test(requestToken))
+    ? requestToken
+    : undefined;
+  return token || getSourceProvider(source.provider).tokenEnvVars.map(name => process.env[name]).find(Boolean);
+}
@@ -0,0 +1,209 @@
+/**
+ * Structured Output
+ * JSON schemas for LLM responses, and the helpers that turn a model's raw
+ * answer (native JSON, or fenced YAML from providers without a JSON mode)
+ * into a value matching the schema - or into a list of problems that can be
+ * sent back to the model in a short "repair this output" prompt.
+ */
+
+import yaml from 'js-yaml';
+
+// The subset of JSON Schema that OpenAI, Anthropic, Gemini and Ollama all accept
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface StructuredOutputSpec {
+  name: string; // Schema / tool name sent to the provider
+  description?: string;
+  schema: JsonSchema; // Top level must be an object
+}
+
+export interface StructuredOutputCheck<T> {
+  value?: T;
+  errors: string[];
+}
+
+// Keep repair prompts short
+const MAX_REPORTED_ERRORS = 20;
+const MAX_REPAIR_ECHO_CHARS = 20000;
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public readonly errors: string[]) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a model answer as JSON or YAML, with or without a code fence
+ */
+export function parseStructuredText(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json|yaml|yml)?\s*([\s\S]*?)\s*```/);
+  const body = fenced ? fenced[1] : trimmed;
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    // Not JSON; YAML prompts are the fallback format
+  }
+  try {
+    return yaml.load(body);
+  } catch (error) {
+    throw new Error(`Output is neither valid JSON nor YAML: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Nudge a parsed value towards the schema: `"3 # Name"` becomes 3 where an
+ * integer is expected, and a bare list is wrapped in a single-property object
+ * (the YAML prompts ask for top-level lists).
+ */
+export function coerceToSchema(value: unknown, schema: JsonSchema): unknown {
+  switch (schema.type) {
+    case 'object': {
+      const keys = Object.keys(schema.properties ?? {});
+      if (!isPlainObject(value)) {
+        return keys.length === 1 && value !== undefined && value !== null
+          ? { [keys[0]]: coerceToSchema(value, schema.properties![keys[0]]) }
+          : value;
+      }
+      const result: Record<string, unknown> = { ...value };
+      for (const key of keys) {
+        if (result[key] !== undefined) {
+          result[key] = coerceToSchema(result[key], schema.properties![key]);
+        }
+      }
+      return result;
+    }
+    case 'array':
+      return Array.isArray(value) && schema.items
+        ? value.map(item => coerceToSchema(item, schema.items!))
+        : value;
+    case 'integer': {
+      const match = typeof value === 'string' ? value.match(/^\s*(-?\d+)/) : null;
+      return match ? parseInt(match[1], 10) : value;
+    }
+    case 'number':
+      return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Check a value against a schema; returns one message per problem found
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, at = '$'): string[] {
+  const describe = (v: unknown) => (Array.isArray(v) ? 'array' : v === null ? 'null' : typeof v);
+
+  switch (schema.type) {
+    case 'object': {
+      if (!isPlainObject(value)) return [`${at}: expected object, got ${describe(value)}`];
+      const errors: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined || value[key] === null) {
+          errors.push(`${at}.${key}: required field is missing`);
+        }
+      }
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        if (value[key] !== undefined && value[key] !== null) {
+          errors.push(...validateAgainstSchema(value[key], property, `${at}.${key}`));
+        }
+      }
+      return errors;
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${at}: expected array, got ${describe(value)}`];
+      return schema.items
+        ? value.flatMap((item, i) => validateAgainstSchema(item, schema.items!, `${at}[${i}]`))
+        : [];
+    case 'string':
+      if (typeof value !== 'string') return [`${at}: expected string, got ${describe(value)}`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${at}: expected one of ${schema.enum.join(', ')}, got "${value}"`];
+      }
+      return [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${at}: expected integer, got ${JSON.stringify(value)}`];
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? [] : [`${at}: expected number, got ${describe(value)}`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${at}: expected boolean, got ${describe(value)}`];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Parse, coerce and validate a raw answer. `validate` adds checks the schema
+ * can't express (e.g. index bounds) and only runs on schema-valid values.
+ */
+export function checkStructuredOutput<T>(
+  raw: string,
+  spec: StructuredOutputSpec,
+  validate?: (value: T) => string[]
+): StructuredOutputCheck<T> {
+  let parsed: unknown;
+  try {
+    parsed = parseStructuredText(raw);
+  } catch (error) {
+    return { errors: [(error as Error).message] };
+  }
+
+  const value = coerceToSchema(parsed, spec.schema);
+  const schemaErrors = validateAgainstSchema(value, spec.schema);
+  if (schemaErrors.length > 0) {
+    return { errors: schemaErrors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  const errors = validate?.(value as T) ?? [];
+  return errors.length > 0
+    ? { errors: errors.slice(0, MAX_REPORTED_ERRORS) }
+    : { value: value as T, errors: [] };
+}
+
+/**
+ * Appended to a prompt when the provider returns schema-constrained JSON
+ */
+export function buildJsonInstruction(spec: StructuredOutputSpec): string {
+  return `Return the result as JSON matching the \`${spec.name}\` schema instead of YAML, with the same fields as described above.`;
+}
+
+/**
+ * Follow-up prompt asking the model to fix an answer that failed validation.
+ * Only the answer and the problems are sent - not the original context.
+ */
+export function buildRepairPrompt(spec: StructuredOutputSpec, raw: string, errors: string[]): string {
+  const previous = raw.length > MAX_REPAIR_ECHO_CHARS
+    ? `${raw.slice(0, MAX_REPAIR_ECHO_CHARS)}\n... [truncated]`
+    : raw;
+
+  return `
+Your previous answer could not be used because it does not match the required format.
+
+Problems found:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous answer:
+${previous}
+
+Required JSON schema (\`${spec.name}\`):
+\`\`\`json
+${JSON.stringify(spec.schema, null, 2)}
+\`\`\`
+
+Return the corrected answer as JSON in a \`\`\`json code block. Keep everything that was valid and only fix the problems listed.`;
+}
@@ -0,0 +1,150 @@
+/**
+ * Tokenizer
+ * Counts tokens per provider family: tiktoken BPE (o200k_base / cl100k_base)
+ * for OpenAI and OpenAI-compatible models, and calibrated approximations on
+ * top of those for Anthropic and Gemini, whose tokenizers aren't published.
+ * Large texts are counted from samples so estimates stay fast on big repos.
+ */
+
+import * as crypto from 'crypto';
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import { PROVIDER_IDS } from './constants/llm';
+
+export type TokenizerFamily = 'o200k' | 'cl100k' | 'claude' | 'gemini';
+
+type Encoding = 'o200k_base' | 'cl100k_base';
+
+// Newer OpenAI models use o200k_base; older ones and most OpenAI-compatible
+// models (Llama, DeepSeek, Grok, ...) are closer to cl100k_base
+const O200K_MODEL_PATTERN = /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|o\d|chatgpt-)/;
+
+// Each family counts with a BPE encoding, scaled for the approximated ones:
+// Claude's tokenizer yields ~20% more tokens than cl100k_base on code and prose,
+// Gemini's SentencePiece vocabulary is a little less compact than o200k_base on code
+const FAMILY_ENCODINGS: Record<TokenizerFamily, { encoding: Encoding; scale: number }> = {
+  o200k: { encoding: 'o200k_base', scale: 1 },
+  cl100k: { encoding: 'cl100k_base', scale: 1 },
+  claude: { encoding: 'cl100k_base', scale: 1.2 },
+  gemini: { encoding: 'o200k_base', scale: 1.05 },
+};
+
+// Typical density of source code, for when only the size of the files is known
+const DEFAULT_CHARS_PER_TOKEN: Record<TokenizerFamily, number> = {
+  o200k: 3.8,
+  cl100k: 3.7,
+  claude: 3.1,
+  gemini: 3.6,
+};
+
+// Up to this many characters are encoded per text (or set of texts); longer input is sampled
+const MAX_ENCODED_CHARS = 100_000;
+const SAMPLE_COUNT = 20;
+// Measured densities, by family and sample hash
+const MAX_CACHED_DENSITIES = 50;
+
+// Building an encoder parses its whole vocabulary, so each is built once, on first use
+const encoders = new Map<Encoding, Tiktoken>();
+const densityCache = new Map<string, number>();
+
+function getEncoder(encoding: Encoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(encoding === 'o200k_base' ? o200kBase : cl100kBase);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+function encodedLength(text: string, encoding: Encoding): number {
+  // Special tokens in source files (e.g. "<|endoftext|>") are counted, not rejected
+  return getEncoder(encoding).encode(text, 'all').length;
+}
+
+/**
+ * The tokenizer family of a model, using the vendor in the model ID for
+ * providers that serve other vendors' models (OpenRouter, Azure, Ollama)
+ */
+export function getTokenizerFamily(providerId: string, modelId?: string): TokenizerFamily {
+  const model = (modelId ?? '').toLowerCase();
+  if (providerId === PROVIDER_IDS.ANTHROPIC || model.includes('claude')) return 'claude';
+  if (providerId === PROVIDER_IDS.GOOGLE || model.includes('gemini')) return 'gemini';
+
+  const baseModel = model.slice(model.lastIndexOf('/') + 1);
+  return O200K_MODEL_PATTERN.test(baseModel) ? 'o200k' : 'cl100k';
+}
+
+/**
+ * Whether the family's counts are approximations rather than the model's own tokenizer
+ */
+export function isApproximateTokenizer(family: TokenizerFamily): boolean {
+  return FAMILY_ENCODINGS[family].scale !== 1;
+}
+
+/**
+ * Typical characters per token of source code for a family
+ */
+export function getDefaultCharsPerToken(family: TokenizerFamily): number {
+  return DEFAULT_CHARS_PER_TOKEN[family];
+}
+
+/**
+ * Count the tokens in a piece of text; long texts are extrapolated from
+ * evenly spaced samples
+ */
+export function countTokens(text: string, family: TokenizerFamily): number {
+  if (!text) return 0;
+  const { encoding, scale } = FAMILY_ENCODINGS[family];
+
+  if (text.length <= MAX_ENCODED_CHARS) {
+    return Math.ceil(encodedLength(text, encoding) * scale);
+  }
+
+  const sampleChars = Math.floor(MAX_ENCODED_CHARS / SAMPLE_COUNT);
+  const stride = text.length / SAMPLE_COUNT;
+  let sampledTokens = 0;
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    const start = Math.floor(i * stride);
+    sampledTokens += encodedLength(text.slice(start, start + sampleChars), encoding);
+  }
+  return Math.ceil((sampledTokens / (sampleChars * SAMPLE_COUNT)) * text.length * scale);
+}
+
+/**
+ * Average characters per token across a set of texts (e.g. a repo's files).
+ * Every text contributes a slice in proportion to its size, so the sample
+ * stays within MAX_ENCODED_CHARS. Results are cached per sample.
+ */
+export function measureCharsPerToken(texts: string[], family: TokenizerFamily): number {
+  const totalChars = texts.reduce((sum, text) => sum + text.length, 0);
+  if (totalChars === 0) return DEFAULT_CHARS_PER_TOKEN[family];
+
+  const share = Math.min(1, MAX_ENCODED_CHARS / totalChars);
+  const samples = texts
+    .map(text => text.slice(0, Math.ceil(text.length * share)))
+    .filter(sample => sample.length > 0);
+
+  const hash = crypto.createHash('sha1');
+  samples.forEach(sample => hash.update(sample).update('\0'));
+  const key = `${family}:${hash.digest('hex')}`;
+  const cached = densityCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const { encoding, scale } = FAMILY_ENCODINGS[family];
+  let sampledChars = 0;
+  let sampledTokens = 0;
+  for (const sample of samples) {
+    sampledChars += sample.length;
+    sampledTokens += encodedLength(sample, encoding);
+  }
+  const charsPerToken = sampledTokens > 0
+    ? sampledChars / (sampledTokens * scale)
+    : DEFAULT_CHARS_PER_TOKEN[family];
+
+  if (densityCache.size >= MAX_CACHED_DENSITIES) {
+    densityCache.delete(densityCache.keys().next().value!);
+  }
+  densityCache.set(key, charsPerToken);
+  return charsPerToken;
+}
@@ -0,0 +1,221 @@
+/**
+ * Tutorial Export
+ * Packages a generated tutorial as a zip archive or a single self-contained HTML file
+ */
+
+import JSZip from 'jszip';
+import DOMPurify from 'isomorphic-dompurify';
+import { Tutorial, loadTutorialFile } from './tutorialOutput';
+import { renderMarkdown, escapeHtml } from './markdown';
+
+export type TutorialExportFormat = 'zip' | 'html' | 'print';
+
+export const TUTORIAL_EXPORT_FORMATS: TutorialExportFormat[] = ['zip', 'html', 'print'];
+
+export interface TutorialExportOptions {
+  // SVGs rendered in the browser, keyed by trimmed Mermaid source
+  mermaidSvgs?: Record<string, string>;
+}
+
+export interface TutorialExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+const INDEX_FILE = 'index.md';
+
+/**
+ * Build a downloadable export of a tutorial in the requested format
+ */
+export async function exportTutorial(
+  tutorial: Tutorial,
+  format: TutorialExportFormat,
+  options: TutorialExportOptions = {}
+): Promise<TutorialExportFile> {
+  const baseName = `${tutorial.projectName}-tutorial`;
+
+  switch (format) {
+    case 'zip':
+      return {
+        filename: `${baseName}.zip`,
+        contentType: 'application/zip',
+        body: await buildTutorialZip(tutorial),
+      };
+    case 'html':
+      return {
+        filename: `${baseName}.html`,
+        contentType: 'text/html; charset=utf-8',
+        body: buildTutorialHtml(tutorial, options, false),
+      };
+    case 'print':
+      return {
+        filename: `${baseName}-print.html`,
+        contentType: 'text/html; charset=utf-8',
+        body: buildTutorialHtml(tutorial, options, true),
+      };
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+function loadPages(tutorial: Tutorial): { filename: string; title: string; content: string }[] {
+  const pages = [{ filename: INDEX_FILE, title: 'Overview', content: tutorial.index }];
+
+  for (const chapter of tutorial.chapters) {
+    const content = loadTutorialFile(tutorial.projectName, chapter.filename);
+    if (content !== null) {
+      pages.push({ filename: chapter.filename, title: `${chapter.number}. ${chapter.title}`, content });
+    }
+  }
+  return pages;
+}
+
+async function buildTutorialZip(tutorial: Tutorial): Promise<Buffer> {
+  const zip = new JSZip();
+  const folder = zip.folder(tutorial.projectName)!;
+
+  for (const page of loadPages(tutorial)) {
+    folder.file(page.filename, page.content);
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Keep only plain SVG from a diagram the browser rendered: no script, event
+ * handlers, animations or foreign HTML. Returns undefined for anything else.
+ */
+function sanitizeSvg(svg: unknown): string | undefined {
+  if (typeof svg !== 'string') return undefined;
+
+  const sanitized = DOMPurify.sanitize(svg, { USE_PROFILES: { svg: true, svgFilters: true } });
+  return sanitized.trimStart().startsWith('<svg') ? sanitized : undefined;
+}
+
+function pageAnchor(filename: string): string {
+  return filename === INDEX_FILE ? 'overview' : `chapter-${filename.replace(/\.md$/, '')}`;
+}
+
+/**
+ * Render every page into one HTML document. Chapter links become in-page anchors
+ * and Mermaid blocks use the supplied SVGs (falling back to their source).
+ */
+function buildTutorialHtml(
+  tutorial: Tutorial,
+  options: TutorialExportOptions,
+  printLayout: boolean
+): string {
+  const pages = loadPages(tutorial);
+  const pageFiles = new Set(pages.map(page => page.filename));
+  // The SVGs come from the client, so they get the same scrutiny as the Markdown
+  const mermaidSvgs = new Map<string, string>();
+  for (const [source, svg] of Object.entries(options.mermaidSvgs ?? {})) {
+    const sanitized = sanitizeSvg(svg);
+    if (sanitized) mermaidSvgs.set(source, sanitized);
+  }
+
+  const renderOptions = {
+    renderMermaid: (source: string) => mermaidSvgs.get(source),
+    resolveLink: (href: string) => (pageFiles.has(href) ? `#${pageAnchor(href)}` : href),
+  };
+
+  const toc = pages
+    .map(page => `<li><a href="#${pageAnchor(page.filename)}">${escapeHtml(page.title)}</a></li>`)
+    .join('\n');
+
+  const sections = pages
+    .map(page => `<section id="${pageAnchor(page.filename)}" class="page">\n${renderMarkdown(page.content, renderOptions)}\n</section>`)
+    .join('\n');
+
+  const title = `Tutorial: ${tutorial.projectName}`;
+  const generated = new Date(tutorial.generatedAt).toLocaleDateString('en-US', { dateStyle: 'long' });
+
+  const toolbar = printLayout
+    ? `<div class="toolbar"><button type="button" onclick="window.print()">Print / Save as PDF</button></div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${EXPORT_CSS}
+${printLayout ? PRINT_LAYOUT_CSS : SCREEN_LAYOUT_CSS}
+</style>
+</head>
+<body>
+${toolbar}
+<nav class="toc">
+<h2>${escapeHtml(tutorial.projectName)}</h2>
+<p class="meta">Generated ${escapeHtml(generated)}</p>
+<ol>
+${toc}
+</ol>
+</nav>
+<main>
+${sections}
+</main>
+</body>
+</html>
+`;
+}
+
+// Base typography plus a light highlight.js palette, inlined so the file works offline
+const EXPORT_CSS = `
+* { box-sizing: border-box; }
+body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; background: #fff; line-height: 1.65; }
+main { max-width: 860px; padding: 2rem; }
+h1 { font-size: 2rem; margin: 0 0 1rem; }
+h2 { font-size: 1.5rem; margin: 2rem 0 .75rem; padding-bottom: .25rem; border-bottom: 1px solid #d0d7de; }
+h3 { font-size: 1.25rem; margin: 1.5rem 0 .5rem; }
+a { color: #0969da; }
+blockquote { margin: 0 0 1rem; padding-left: 1rem; border-left: 4px solid #d0d7de; color: #59636e; }
+table { border-collapse: collapse; margin-bottom: 1rem; }
+th, td { border: 1px solid #d0d7de; padding: .4rem .75rem; }
+:not(pre) > code { background: #eff1f3; border-radius: 4px; padding: .1rem .3rem; font-size: .875em; }
+pre { margin: 0 0 1rem; }
+pre > code.hljs { display: block; overflow-x: auto; padding: 1rem; border-radius: 6px; background: #f6f8fa; font-size: .85rem; }
+pre.mermaid { padding: 1rem; border: 1px dashed #d0d7de; border-radius: 6px; white-space: pre-wrap; }
+.mermaid-diagram { text-align: center; margin: 0 0 1rem; }
+.mermaid-diagram svg { max-width: 100%; height: auto; }
+.page { padding-bottom: 2rem; }
+.toc h2 { border: 0; margin-top: 0; }
+.toc ol { padding-left: 1.25rem; }
+.toc li { margin: .25rem 0; }
+.meta { color: #59636e; font-size: .875rem; }
+.hljs-comment, .hljs-quote { color: #6e7781; font-style: italic; }
+.hljs-keyword, .hljs-selector-tag, .hljs-type { color: #cf222e; }
+.hljs-string, .hljs-regexp, .hljs-addition { color: #0a3069; }
+.hljs-number, .hljs-literal, .hljs-variable, .hljs-template-variable, .hljs-attr { color: #0550ae; }
+.hljs-title, .hljs-section, .hljs-built_in { color: #8250df; }
+.hljs-meta, .hljs-symbol, .hljs-name, .hljs-selector-id, .hljs-selector-class { color: #116329; }
+.hljs-deletion { color: #82071e; background: #ffebe9; }
+`;
+
+const SCREEN_LAYOUT_CSS = `
+body { display: flex; }
+.toc { position: sticky; top: 0; height: 100vh; overflow-y: auto; width: 280px; flex-shrink: 0; padding: 2rem 1.5rem; background: #f6f8fa; border-right: 1px solid #d0d7de; }
+.page + .page { border-top: 1px solid #d0d7de; padding-top: 2rem; }
+@media (max-width: 800px) { body { display: block; } .toc { position: static; width: auto; height: auto; } }
+`;
+
+const PRINT_LAYOUT_CSS = `
+main, .toc { max-width: 800px; margin: 0 auto; padding: 2rem; }
+.toolbar { max-width: 800px; margin: 1rem auto 0; padding: 0 2rem; text-align: right; }
+.toolbar button { font: inherit; padding: .4rem .9rem; border: 1px solid #d0d7de; border-radius: 6px; background: #f6f8fa; cursor: pointer; }
+@page { margin: 2cm; }
+@media print {
+  .toolbar { display: none; }
+  main, .toc { padding: 0; max-width: none; }
+  .toc { break-after: page; }
+  .page { break-before: page; }
+  .page:first-child { break-before: auto; }
+  a { color: inherit; text-decoration: none; }
+  pre > code.hljs { white-space: pre-wrap; word-break: break-word; }
+  pre, table, .mermaid-diagram { break-inside: avoid; }
+  h1, h2, h3 { break-after: avoid; }
+}
+`;
@@ -4,6 +4,7 @@ import path from 'path';
 // Re-export or alias node classes from your local implementation
 import {
   FetchRepo,
+  SummarizeFiles,
   IdentifyAbstractions,
   AnalyzeRelationships,
   OrderChapters,
@@ -12,9 +13,24 @@ import {
 } from "@/lib/nodes";
 
 // Import cache and change analysis utilities
-import { loadRepoCache, saveRepoCache, computeContentHash } from "@/lib/repoCache";
+import { loadRepoCache, saveRepoCache, computeContentHash, type RepoCache } from "@/lib/repoCache";
+import { createManifest } from "@/lib/blobStore";
 import { analyzeChanges, getChangeSummary, type CurrentFileData } from "@/lib/changeAnalyzer";
 import { cacheLog } from "@/lib/cacheLogger";
+import { createRun, loadRun, markRunCompleted, markRunFailed, markRunCancelled, markRunPaused, markRunResumed } from "@/lib/runCheckpoints";
+import { isCancelledError } from "@/lib/cancellation";
+import type { LLMFallbackEvent } from "@/lib/llmMultiProvider";
+import { getRunCost, recordRunEstimate } from "@/lib/costLedger";
+import {
+  startRunBudget,
+  endRunBudget,
+  getBudgetOptions,
+  BudgetExceededError,
+  type BudgetExceededEvent,
+} from "@/lib/runBudget";
+import { getFullCostEstimate } from "@/lib/costEstimator";
+import { getProvider } from "@/lib/providers";
+import { DEFAULT_MAX_ABSTRACTIONS, PROVIDER_IDS, type StageModelMap } from "@/lib/constants/llm";
 
 /**
  * Progress callback type for streaming updates
@@ -26,6 +42,13 @@ export type ProgressCallback = (update: {
   currentChapter?: number;
   totalChapters?: number;
   chapterName?: string;
+  // stage 'chapter_delta' only: text of the current chapter generated since the last update
+  delta?: string;
+  replace?: boolean; // The delta is the whole chapter so far (e.g. the chapter is being retried)
+  // stage 'llm_fallback' only: the provider/model that failed and the one taking over
+  fallback?: LLMFallbackEvent;
+  // stage 'budget_exceeded' only: the budget, the spend, and ways to finish within it
+  budget?: BudgetExceededEvent;
 }) => Promise<void> | void;
 
 /**
@@ -36,10 +59,14 @@ export type ProgressCallback = (update: {
  * ```python
  * fetch_repo >> identify_abstractions >> analyze_relationships >> order_chapters >> write_chapters >> combine_tutorial
  * ```
+ *
+ * with a `SummarizeFiles` pre-pass before identify_abstractions, which only does
+ * work when `shared.summarize_files` is set or the repo exceeds the context window.
  */
 export function createTutorialFlow(skipFetchRepo = false): Flow {
   // 1️⃣  Instantiate nodes
   const fetchRepo = new FetchRepo(5, 20);
+  const summarizeFiles = new SummarizeFiles(5, 20);
   const identifyAbstractions = new IdentifyAbstractions(5, 20);
   const analyzeRelationships = new AnalyzeRelationships(5, 20);
   const orderChapters = new OrderChapters(5, 20);
@@ -47,20 +74,22 @@ export function createTutorialFlow(skipFetchRepo = false): Flow {
   const combineTutorial = new CombineTutorial(3, 20);
 
   // 2️⃣  Wire up the DAG using the fluent `.next()` helper provided by Pocket Flow
-  // If skipFetchRepo is true, start the flow from identifyAbstractions
+  // If skipFetchRepo is true, start the flow from summarizeFiles
   if (skipFetchRepo) {
-    // When skipping FetchRepo, start the flow from identifyAbstractions
-    identifyAbstractions
+    // When skipping FetchRepo, start the flow from summarizeFiles
+    summarizeFiles
+      .next(identifyAbstractions)
       .next(analyzeRelationships)
       .next(orderChapters)
       .next(writeChapters)
       .next(combineTutorial);
     
-    // Return a flow instance starting at identifyAbstractions
-    return new Flow(identifyAbstractions);
+    // Return a flow instance starting at summarizeFiles
+    return new Flow(summarizeFiles);
   } else {
     // Normal flow including fetchRepo
     fetchRepo
+      .next(summarizeFiles)
       .next(identifyAbstractions)
       .next(analyzeRelationships)
       .next(orderChapters)
@@ -106,10 +135,14 @@ export function createPartialRegenerationFlow(): Flow {
 export async function runTutorialFlow(shared: any): Promise<any> {
   console.log(`[TutorialFlow] Creating tutorial flow instance`);
   
+  // Files read on the server (local_dir, use_git_clone) are fetched first,
+  // so the change analysis below sees them
+  await fetchRepoFiles(shared);
+
   // Check if we should skip the fetch repo step
   // skip_fetch_repo is true when files are already provided
   const skipFetchRepo = shared.skip_fetch_repo === true;
-  const repoUrl = shared.repo_url;
+  const repoUrl = repoCacheKey(shared);
   
   if (skipFetchRepo) {
     console.log(`[TutorialFlow] Skipping FetchRepo step as files are already provided`);
@@ -138,7 +171,7 @@ export async function runTutorialFlow(shared: any): Promise<any> {
   }
   
   // Analyze changes if we have a cache
-  const analysis = analyzeChanges(currentFiles, cache);
+  const analysis = analyzeChanges(currentFiles, cache, getCommitChangedPaths(shared, cache));
   const changeSummary = getChangeSummary(analysis);
   
   cacheLog.info(`Change analysis: ${changeSummary.title}`, { 
@@ -184,10 +217,16 @@ export async function runTutorialFlow(shared: any): Promise<any> {
   console.log(`[TutorialFlow] Running flow with ${shared.files?.length || 0} files`);
   console.log(`[TutorialFlow] Project: ${shared.project_name}`);
   
+  const runId = beginRun(shared);
+
   try {
+    startRunBudget(runId, shared);
+
     // Create and run the appropriate flow
     const flow = createTutorialFlow(skipFetchRepo);
     const result = await flow.run(shared);
+    markRunCompleted(runId);
+    logRunCost(runId);
     
     // Save updated cache after successful run
     if (repoUrl && shared.use_cache !== false) {
@@ -202,11 +241,153 @@ export async function runTutorialFlow(shared: any): Promise<any> {
     console.log(`[TutorialFlow] Flow execution completed successfully`);
     return result;
   } catch (error) {
-    console.error(`[TutorialFlow] Flow execution failed:`, error);
+    endRunWithError(runId, error, shared.abort_signal);
     throw error;
+  } finally {
+    endRunBudget(runId);
+  }
+}
+
+/**
+ * Record how a run ended when the flow threw: cancelled via
+ * shared.abort_signal, paused at its budget, or failed (the last two are
+ * resumable)
+ */
+function endRunWithError(runId: string, error: unknown, signal?: AbortSignal): void {
+  if (error instanceof BudgetExceededError) {
+    console.log(`[TutorialFlow] Run ${runId} paused: ${error.message}`);
+    markRunPaused(runId, error.message);
+  } else if (isCancelledError(error, signal)) {
+    console.log(`[TutorialFlow] Run ${runId} was cancelled`);
+    markRunCancelled(runId);
+  } else {
+    console.error(`[TutorialFlow] Flow execution failed:`, error);
+    markRunFailed(runId, error);
+  }
+}
+
+/**
+ * Run FetchRepo on its own when no files were provided (a local directory,
+ * a git clone, or a resumed run whose files are gone), so the flow then
+ * starts from the fetched files like any other run
+ */
+async function fetchRepoFiles(shared: Parameters<FetchRepo['run']>[0] & { skip_fetch_repo?: boolean }): Promise<void> {
+  if (shared.skip_fetch_repo === true) return;
+  await new FetchRepo().run(shared);
+  shared.skip_fetch_repo = true;
+}
+
+/**
+ * Start a new checkpointed run, or continue the run named by shared.run_id
+ * (set when resuming a failed run)
+ */
+function beginRun(shared: any): string {
+  if (shared.run_id && loadRun(shared.run_id)) {
+    console.log(`[TutorialFlow] Resuming run ${shared.run_id}`);
+    markRunResumed(shared.run_id);
+    return shared.run_id;
+  }
+  shared.run_id = createRun(shared);
+  console.log(`[TutorialFlow] Started run ${shared.run_id}`);
+  recordEstimate(shared.run_id, shared);
+  return shared.run_id;
+}
+
+/**
+ * Keep the Cost Estimator's prediction for a new run (same inputs as the UI
+ * uses) so it can be compared with the ledger afterwards
+ */
+function recordEstimate(
+  runId: string,
+  shared: {
+    files?: [string, string][];
+    llm_provider?: string;
+    llm_model?: string;
+    stage_models?: StageModelMap;
+    max_abstraction_num?: number;
+    language?: string;
+    summarize_files?: boolean;
+    chapter_concurrency?: number;
+    repo_url?: string;
+    project_name?: string;
+  }
+): void {
+  const files = shared.files || [];
+  if (files.length === 0) return; // Files are fetched by the flow; nothing to estimate from yet
+
+  const providerId = shared.llm_provider || PROVIDER_IDS.OPENAI;
+  const modelId = shared.llm_model || getProvider(providerId)?.models[0]?.id;
+  if (!modelId) return;
+
+  try {
+    const estimate = getFullCostEstimate(
+      providerId,
+      modelId,
+      files.map(([filePath, content]) => ({ path: filePath, content })),
+      shared.max_abstraction_num ?? DEFAULT_MAX_ABSTRACTIONS,
+      shared.stage_models,
+      {
+        language: shared.language,
+        summarizeFiles: shared.summarize_files,
+        chapterConcurrency: shared.chapter_concurrency,
+      }
+    );
+    recordRunEstimate({
+      runId,
+      repo: shared.repo_url || shared.project_name,
+      createdAt: new Date().toISOString(),
+      provider: providerId,
+      model: modelId,
+      inputTokens: estimate.tokens.inputTokens,
+      outputTokens: estimate.tokens.outputTokens,
+      costLow: estimate.costLow,
+      costEstimated: estimate.costEstimated,
+      costHigh: estimate.costHigh,
+    });
+  } catch (error) {
+    // Models outside the catalogue can't be estimated
+    cacheLog.debug(`No cost estimate for run ${runId}`, { error });
   }
 }
 
+/**
+ * Log what a finished run cost next to its estimate
+ */
+function logRunCost(runId: string): void {
+  const actual = getRunCost(runId);
+  cacheLog.cost(`Run ${runId}: ${actual.calls} LLM calls (${actual.cachedCalls} cached)`, actual.cost, {
+    inputTokens: actual.inputTokens,
+    outputTokens: actual.outputTokens,
+  });
+}
+
+/**
+ * Files changed since the commit the cache was generated from, when the crawl
+ * knows them: none at the same commit, or the changed paths of an incremental
+ * crawl based on that commit. Undefined means files must be compared by hash.
+ */
+function getCommitChangedPaths(
+  shared: { commit_sha?: string; base_commit_sha?: string; changed_paths?: string[] },
+  cache: RepoCache | null
+): string[] | undefined {
+  if (!cache?.lastCommit || !shared.commit_sha) return undefined;
+  if (shared.commit_sha === cache.lastCommit) return [];
+  if (shared.base_commit_sha === cache.lastCommit && Array.isArray(shared.changed_paths)) {
+    return shared.changed_paths;
+  }
+  return undefined;
+}
+
+/**
+ * Key of the repo cache: a monorepo package's tutorial is cached apart from
+ * the whole repository's and from the other packages'
+ */
+function repoCacheKey(shared: { repo_url?: string; package_path?: string }): string | undefined {
+  return shared.repo_url && shared.package_path
+    ? `${shared.repo_url}#${shared.package_path}`
+    : shared.repo_url;
+}
+
 /**
  * Save updated cache after tutorial generation
  */
@@ -239,10 +420,20 @@ async function saveUpdatedCache(
     }
   });
   
+  const previous = loadRepoCache(repoUrl);
+  // Keep the files the tutorial was made from; the crawl usually stored them already
+  const manifestId = shared.manifest_id
+    ?? createManifest(shared.repo_url ?? repoUrl, Object.fromEntries(shared.files || []), { commitSha: shared.commit_sha }).id;
+  const runCost = shared.run_id
+    ? getRunCost(shared.run_id)
+    : { inputTokens: 0, outputTokens: 0, cost: 0 };
+
   // Build cache object
   const cacheData = {
     repoUrl,
     repoId: repoUrl.replace(/^https?:\/\//, '').replace(/^github\.com\//, '').replace(/\.git$/, '').replace(/\/$/, '').toLowerCase(),
+    lastCommit: shared.commit_sha,
+    manifestId,
     lastCrawlTime: new Date().toISOString(),
     files: currentFiles.map(f => ({
       path: f.path,
@@ -254,6 +445,9 @@ async function saveUpdatedCache(
     chapterOrder: shared.chapter_order,
     chapters,
     metadata: {
+      // Running totals across all runs for this repo, from the cost ledger
+      totalTokensUsed: (previous?.metadata.totalTokensUsed ?? 0) + runCost.inputTokens + runCost.outputTokens,
+      totalCost: (previous?.metadata.totalCost ?? 0) + runCost.cost,
       llmProvider: shared.llm_provider,
       llmModel: shared.llm_model,
     },
@@ -265,15 +459,26 @@ async function saveUpdatedCache(
 /**
  * Executes the tutorial flow with progress callbacks for streaming updates.
  * This version provides real-time progress updates for UI display.
+ * Aborting `shared.abort_signal` cancels the run and its in-flight LLM calls.
  */
 export async function runTutorialFlowWithProgress(
   shared: any, 
   onProgress: ProgressCallback
 ): Promise<any> {
   console.log(`[TutorialFlow] Creating tutorial flow instance with progress tracking`);
+
+  // Files read on the server are fetched first, so the cache analysis sees them
+  if (shared.skip_fetch_repo !== true) {
+    await onProgress({
+      stage: 'fetching',
+      message: shared.local_dir ? 'Reading local directory...' : 'Fetching repository files...',
+      progress: 2
+    });
+    await fetchRepoFiles(shared);
+  }
   
   const skipFetchRepo = shared.skip_fetch_repo === true;
-  const repoUrl = shared.repo_url;
+  const repoUrl = repoCacheKey(shared);
   
   // Convert files to CurrentFileData format
   const currentFiles: CurrentFileData[] = (shared.files || []).map((f: [string, string]) => ({
@@ -305,7 +510,7 @@ export async function runTutorialFlowWithProgress(
   }
   
   // Analyze changes
-  const analysis = analyzeChanges(currentFiles, cache);
+  const analysis = analyzeChanges(currentFiles, cache, getCommitChangedPaths(shared, cache));
   const changeSummary = getChangeSummary(analysis);
   
   // Determine regeneration mode
@@ -347,9 +552,15 @@ export async function runTutorialFlowWithProgress(
   // Add progress callback to shared for nodes to use
   shared._onProgress = onProgress;
   
+  const runId = beginRun(shared);
+
   try {
+    startRunBudget(runId, shared);
+
     const flow = createTutorialFlow(skipFetchRepo);
     const result = await flow.run(shared);
+    markRunCompleted(runId);
+    logRunCost(runId);
     
     // Save cache
     if (repoUrl && shared.use_cache !== false) {
@@ -369,7 +580,20 @@ export async function runTutorialFlowWithProgress(
     
     return result;
   } catch (error) {
-    console.error(`[TutorialFlow] Flow execution failed:`, error);
+    endRunWithError(runId, error, shared.abort_signal);
+    if (error instanceof BudgetExceededError) {
+      await onProgress({
+        stage: 'budget_exceeded',
+        message: error.message,
+        progress: 0,
+        budget: {
+          ...error.details,
+          options: getBudgetOptions(shared, error.details.budget, error.details.spent),
+        },
+      });
+    }
     throw error;
+  } finally {
+    endRunBudget(runId);
   }
 }
\ No newline at end of file
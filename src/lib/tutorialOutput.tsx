@@ -0,0 +1,151 @@
+/**
+ * Tutorial Output
+ * Reads generated tutorials back from the output directory written by CombineTutorial
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Same default as CombineTutorial (shared.output_dir ?? "output")
+const OUTPUT_DIR = path.join(process.cwd(), 'output');
+const INDEX_FILE = 'index.md';
+
+// Chapter files are written as NN_safe_name.md by createSafeFilename
+const CHAPTER_FILE_PATTERN = /^\d+_.+\.md$/;
+// Chapter links in index.md look like "3. [Chapter Name](03_chapter_name.md)"
+const INDEX_LINK_PATTERN = /^(\d+)\.\s+\[(.+)\]\(([^)]+\.md)\)\s*$/;
+
+export interface TutorialChapter {
+  number: number;
+  title: string;
+  filename: string;
+}
+
+export interface TutorialSummary {
+  projectName: string;
+  chapterCount: number;
+  generatedAt: string;
+}
+
+export interface Tutorial extends TutorialSummary {
+  index: string;
+  chapters: TutorialChapter[];
+}
+
+/**
+ * Get the directory a project's tutorial is written to
+ */
+export function getTutorialDir(projectName: string): string {
+  return path.join(OUTPUT_DIR, projectName);
+}
+
+/**
+ * Check that a project or file name is a single path segment
+ * (guards the API routes against path traversal)
+ */
+export function isSafePathSegment(name: string): boolean {
+  return !!name && name === path.basename(name) && name !== '.' && name !== '..';
+}
+
+/**
+ * List all generated tutorials, most recent first
+ */
+export function listTutorials(): TutorialSummary[] {
+  if (!fs.existsSync(OUTPUT_DIR)) {
+    return [];
+  }
+
+  return fs.readdirSync(OUTPUT_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => loadTutorial(entry.name))
+    .filter((tutorial): tutorial is Tutorial => tutorial !== null)
+    .map(({ projectName, chapterCount, generatedAt }) => ({ projectName, chapterCount, generatedAt }))
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+}
+
+/**
+ * Load a tutorial's index and ordered chapter list
+ */
+export function loadTutorial(projectName: string): Tutorial | null {
+  if (!isSafePathSegment(projectName)) return null;
+
+  const dir = getTutorialDir(projectName);
+  const indexPath = path.join(dir, INDEX_FILE);
+  if (!fs.existsSync(indexPath)) return null;
+
+  const index = fs.readFileSync(indexPath, 'utf-8');
+  const chapters = parseChapters(index, listChapterFiles(dir));
+
+  return {
+    projectName,
+    chapterCount: chapters.length,
+    generatedAt: fs.statSync(indexPath).mtime.toISOString(),
+    index,
+    chapters,
+  };
+}
+
+/**
+ * Load a single Markdown file (index.md or a chapter) from a tutorial
+ */
+export function loadTutorialFile(projectName: string, filename: string): string | null {
+  if (!isSafePathSegment(projectName) || !isSafePathSegment(filename) || !filename.endsWith('.md')) {
+    return null;
+  }
+
+  const filePath = path.join(getTutorialDir(projectName), filename);
+  if (!fs.existsSync(filePath)) return null;
+
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Delete a tutorial's chapter files, leaving index.md and anything else in place.
+ * Returns how many were removed.
+ */
+export function removeChapterFiles(projectName: string): number {
+  const dir = getTutorialDir(projectName);
+  if (!isSafePathSegment(projectName) || !fs.existsSync(dir)) return 0;
+
+  const chapterFiles = listChapterFiles(dir);
+  for (const file of chapterFiles) {
+    fs.unlinkSync(path.join(dir, file));
+  }
+  return chapterFiles.length;
+}
+
+function listChapterFiles(dir: string): string[] {
+  return fs.readdirSync(dir)
+    .filter(file => CHAPTER_FILE_PATTERN.test(file))
+    .sort();
+}
+
+/**
+ * Order chapters as linked from index.md. Stale files from older runs are
+ * ignored; the filenames are only used when the index has no chapter links.
+ */
+function parseChapters(index: string, chapterFiles: string[]): TutorialChapter[] {
+  const available = new Set(chapterFiles);
+  const chapters: TutorialChapter[] = [];
+
+  for (const line of index.split('\n')) {
+    const match = line.trim().match(INDEX_LINK_PATTERN);
+    if (match && available.has(match[3])) {
+      chapters.push({ number: parseInt(match[1], 10), title: match[2], filename: match[3] });
+    }
+  }
+
+  if (chapters.length > 0) {
+    return chapters;
+  }
+
+  for (const filename of chapterFiles) {
+    chapters.push({
+      number: parseInt(filename, 10),
+      title: filename.replace(/^\d+_/, '').replace(/\.md$/, '').replace(/_/g, ' '),
+      filename,
+    });
+  }
+
+  return chapters;
+}
@@ -0,0 +1,303 @@
+/**
+ * Tutorial Request
+ * Turns a tutorial generation request body into the flow's shared state.
+ * Used by the streaming endpoint and the background job runner.
+ */
+
+import * as path from 'path';
+import {
+  PROVIDER_IDS,
+  LLM_STAGES,
+  type LLMStage,
+  type StageModelConfig,
+  type StageModelMap,
+} from './constants/llm';
+import { buildResumeSharedState } from './runCheckpoints';
+import { loadManifest, readManifestFiles } from './blobStore';
+import { resolveLocalDirectory } from './localFileCrawler';
+
+/**
+ * Request body accepted by the tutorial generation endpoints
+ */
+export interface TutorialGenerationRequest {
+  files?: Array<[string, string] | { path: string; content: string }>;
+  manifest_id?: string; // Instead of files: a crawl's blob store manifest
+  repo_url?: string;
+  ref?: string; // Branch, tag or commit crawled; unset for the default branch
+  // Instead of files, the server reads them itself: from a directory inside
+  // LOCAL_CRAWL_ROOT (repo_url is then only used for links), or a shallow git clone of repo_url
+  local_dir?: string;
+  use_git_clone?: boolean;
+  package_path?: string; // Monorepo package the files are from; the tutorial is cached per package
+  // From the crawl's stats: the commit the files were read at and, for an
+  // incremental crawl, the commit it was based on and the paths changed since
+  commit_sha?: string;
+  base_commit_sha?: string;
+  changed_paths?: string[];
+  include_patterns?: string[];
+  exclude_patterns?: string[];
+  project_name?: string;
+  language?: string;
+  use_cache?: boolean;
+  max_abstraction_num?: number;
+  max_file_size?: number;
+  summarize_files?: boolean;
+  chapter_concurrency?: number;
+  openai_api_key?: string;
+  llm_provider?: string;
+  llm_model?: string;
+  llm_api_key?: string;
+  llm_base_url?: string;
+  stage_models?: StageModelMap;
+  llm_fallbacks?: StageModelConfig[]; // Tried in order when the provider is rate limited, out of quota or down
+  max_cost_usd?: number; // Budget for the run; it won't start, or pauses, when this would be exceeded
+  max_tokens?: number; // Token budget for the run (input + output)
+  regeneration_mode?: string;
+  force_full_regeneration?: boolean;
+  resume_run_id?: string;
+  // With resume_run_id: settings to change, e.g. a budget option's cheaper model or fewer chapters
+  resume_settings?: {
+    llm_provider?: string;
+    llm_model?: string;
+    max_abstraction_num?: number;
+  };
+  github_token?: string;
+}
+
+/**
+ * Split per-stage model settings into the part that is checkpointed with the
+ * run and the API keys, which never are. Unknown stages and entries without
+ * a provider are dropped.
+ */
+function splitStageModels(stageModels?: StageModelMap): {
+  stage_models?: StageModelMap;
+  stage_api_keys?: Partial<Record<LLMStage, string>>;
+} {
+  if (!stageModels || typeof stageModels !== 'object') return {};
+
+  const knownStages = Object.values(LLM_STAGES) as string[];
+  const models: StageModelMap = {};
+  const apiKeys: Partial<Record<LLMStage, string>> = {};
+  for (const [stage, config] of Object.entries(stageModels) as [LLMStage, StageModelConfig | undefined][]) {
+    if (!knownStages.includes(stage) || !config?.provider) continue;
+    const { apiKey, ...settings } = config;
+    models[stage] = settings;
+    if (apiKey) apiKeys[stage] = apiKey;
+  }
+
+  return {
+    stage_models: Object.keys(models).length > 0 ? models : undefined,
+    stage_api_keys: Object.keys(apiKeys).length > 0 ? apiKeys : undefined,
+  };
+}
+
+/**
+ * Split the fallback list the same way: settings are checkpointed, API keys
+ * (kept by position in the list) are not. Entries without a provider are dropped.
+ */
+function splitFallbacks(fallbacks?: StageModelConfig[]): {
+  llm_fallbacks?: StageModelConfig[];
+  llm_fallback_api_keys?: string[];
+} {
+  if (!Array.isArray(fallbacks)) return {};
+
+  const models: StageModelConfig[] = [];
+  const apiKeys: string[] = [];
+  for (const config of fallbacks) {
+    if (!config?.provider) continue;
+    const { apiKey, ...settings } = config;
+    models.push(settings);
+    apiKeys.push(apiKey ?? '');
+  }
+
+  return {
+    llm_fallbacks: models.length > 0 ? models : undefined,
+    llm_fallback_api_keys: apiKeys.some(Boolean) ? apiKeys : undefined,
+  };
+}
+
+/**
+ * Check the budget fields; returns an error message for values that aren't
+ * positive numbers
+ */
+function validateBudget(payload: TutorialGenerationRequest): string | null {
+  for (const key of ['max_cost_usd', 'max_tokens'] as const) {
+    const value = payload[key];
+    if (value !== undefined && value !== null && !(typeof value === 'number' && isFinite(value) && value > 0)) {
+      return `${key} must be a positive number`;
+    }
+  }
+  return null;
+}
+
+export type TutorialSharedStateResult =
+  | { shared: Record<string, unknown>; resumeRunId?: string }
+  | { error: string; status?: number }; // status: HTTP status for the error, 400 when unset
+
+/**
+ * Build the shared state for a new run, or for resuming a failed run
+ * when `resume_run_id` is given.
+ */
+export function buildTutorialSharedState(payload: TutorialGenerationRequest): TutorialSharedStateResult {
+  const {
+    files,
+    manifest_id,
+    repo_url,
+    ref,
+    local_dir,
+    use_git_clone,
+    package_path,
+    commit_sha,
+    base_commit_sha,
+    changed_paths,
+    include_patterns = ['.js', '.ts', '.jsx', '.tsx', '.md'],
+    exclude_patterns = ['node_modules', '.git', 'dist', 'build'],
+    project_name,
+    language = 'english',
+    use_cache = true,
+    max_abstraction_num = 5,
+    max_file_size = 1000000,
+    summarize_files,
+    chapter_concurrency,
+    openai_api_key,
+    llm_provider = PROVIDER_IDS.OPENAI,
+    llm_model,
+    llm_api_key,
+    llm_base_url,
+    stage_models,
+    llm_fallbacks,
+    max_cost_usd,
+    max_tokens,
+    regeneration_mode,
+    force_full_regeneration = false,
+    resume_run_id,
+    resume_settings,
+    github_token,
+  } = payload;
+
+  const budgetError = validateBudget(payload);
+  if (budgetError) {
+    return { error: budgetError };
+  }
+
+  // Resume a failed or paused run from its last checkpoint with its original
+  // settings, except for a new budget and `resume_settings`.
+  // Secrets are never checkpointed, so they come from this request.
+  if (resume_run_id) {
+    const resumed = buildResumeSharedState(resume_run_id, {
+      openai_api_key: llm_api_key || openai_api_key,
+      llm_api_key: llm_api_key || openai_api_key,
+      stage_api_keys: splitStageModels(stage_models).stage_api_keys,
+      llm_fallback_api_keys: splitFallbacks(llm_fallbacks).llm_fallback_api_keys,
+      github_token,
+    }, {
+      llm_provider: resume_settings?.llm_provider,
+      llm_model: resume_settings?.llm_model,
+      // The old provider's base URL doesn't apply to another provider
+      llm_base_url: resume_settings?.llm_provider ? null : undefined,
+      max_abstraction_num: resume_settings?.max_abstraction_num,
+      max_cost_usd,
+      max_tokens,
+    });
+    if ('error' in resumed) {
+      return resumed;
+    }
+    return { shared: resumed.shared, resumeRunId: resume_run_id };
+  }
+
+  // Validate inputs
+  if (!repo_url && !local_dir) {
+    return { error: 'Repository URL is required' };
+  }
+
+  let localDir: string | undefined;
+  if (local_dir) {
+    if (!process.env.LOCAL_CRAWL_ROOT) {
+      return { error: 'Local directories can only be read when LOCAL_CRAWL_ROOT is set on the server' };
+    }
+    localDir = resolveLocalDirectory(local_dir) ?? undefined;
+    if (!localDir) {
+      return { error: `Not a directory inside LOCAL_CRAWL_ROOT: ${local_dir}` };
+    }
+  }
+  // FetchRepo reads the files on the server, so none are sent
+  const fetchOnServer = !!localDir || use_git_clone === true;
+  const projectName = project_name
+    || repo_url?.split('/').pop()?.replace(/\.git$/, '')
+    || (localDir && path.basename(localDir))
+    || 'GitHub-Tutorial';
+
+  const runSettings = {
+    include_patterns,
+    exclude_patterns,
+    project_name: projectName,
+    language,
+    use_cache,
+    max_abstraction_num,
+    max_file_size,
+    summarize_files,
+    chapter_concurrency,
+    openai_api_key: llm_api_key || openai_api_key,
+    llm_provider,
+    llm_model,
+    llm_api_key: llm_api_key || openai_api_key,
+    llm_base_url,
+    ...splitStageModels(stage_models),
+    ...splitFallbacks(llm_fallbacks),
+    max_cost_usd,
+    max_tokens,
+    force_full_regeneration,
+    requested_regeneration_mode: regeneration_mode,
+  };
+
+  if (fetchOnServer) {
+    return {
+      shared: {
+        repo_url,
+        ref: typeof ref === 'string' && ref ? ref : undefined,
+        local_dir: localDir,
+        use_git_clone: use_git_clone === true,
+        github_token,
+        ...runSettings,
+        skip_fetch_repo: false,
+      },
+    };
+  }
+
+  // A crawl's manifest stands in for its files, which are read from the blob store
+  let requestFiles = files;
+  if ((!Array.isArray(files) || files.length === 0) && manifest_id) {
+    const manifest = loadManifest(manifest_id);
+    const manifestFiles = manifest && readManifestFiles(manifest);
+    if (!manifestFiles) {
+      return { error: `Crawl not found: ${manifest_id}` };
+    }
+    requestFiles = Object.entries(manifestFiles);
+  }
+
+  if (!requestFiles || !Array.isArray(requestFiles) || requestFiles.length === 0) {
+    return { error: 'Files data is required' };
+  }
+
+  // Process files
+  const processedFiles = requestFiles.map(file => {
+    if (Array.isArray(file) && file.length === 2) return file;
+    if (!Array.isArray(file) && file.path && file.content) return [file.path, file.content];
+    return file;
+  });
+
+  return {
+    shared: {
+      files: processedFiles,
+      manifest_id,
+      repo_url,
+      ref: typeof ref === 'string' && ref ? ref : undefined,
+      package_path: typeof package_path === 'string' && package_path ? package_path : undefined,
+      commit_sha,
+      base_commit_sha,
+      changed_paths: Array.isArray(changed_paths) ? changed_paths : undefined,
+      ...runSettings,
+      skip_fetch_repo: true,
+    },
+  };
+}
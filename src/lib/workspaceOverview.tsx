@@ -0,0 +1,105 @@
+/**
+ * Workspace Overview
+ * Writes the top-level tutorial of a monorepo: the packages' dependency graph
+ * as its Mermaid diagram and links to each package's own tutorial
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getTutorialDir, loadTutorialFile, removeChapterFiles } from './tutorialOutput';
+import { createScopedLogger } from './cacheLogger';
+import { ROOT_PACKAGE_PATH, WORKSPACE_TOOL_NAMES, type WorkspacePackage, type WorkspaceTool } from './workspaces';
+
+const log = createScopedLogger('WorkspaceOverview');
+
+export interface OverviewPackage extends WorkspacePackage {
+  projectName: string; // Tutorial generated for the package
+}
+
+export interface WorkspaceOverviewOptions {
+  projectName: string;
+  tool: WorkspaceTool;
+  packages: OverviewPackage[];
+  repoUrl?: string;
+  commitSha?: string;
+  ref?: string;
+}
+
+/**
+ * Write the overview's index.md into the project's output directory.
+ * Packages without a generated tutorial are listed but not linked. Chapter
+ * files left by an earlier whole-repository tutorial are removed, so the
+ * overview isn't read or exported together with them.
+ */
+export function writeWorkspaceOverview(options: WorkspaceOverviewOptions): string {
+  const { projectName, tool, packages, repoUrl, commitSha, ref } = options;
+
+  let indexContent = `# Tutorial: ${projectName}\n\n`;
+  indexContent += `${projectName} is a monorepo (${WORKSPACE_TOOL_NAMES[tool]}) of ${packages.length} packages, each with its own tutorial. `;
+  indexContent += `The diagram shows which packages depend on which.\n\n`;
+
+  if (repoUrl) {
+    indexContent += `**Source Repository:** [${repoUrl}](${repoUrl})\n\n`;
+  }
+  if (commitSha) {
+    indexContent += `**Source Revision:** \`${commitSha}\`${ref ? ` (${ref})` : ''}\n\n`;
+  }
+
+  indexContent += '```mermaid\n';
+  indexContent += buildDependencyDiagram(packages) + '\n';
+  indexContent += '```\n\n';
+
+  indexContent += '## Packages\n\n';
+  for (const pkg of packages) {
+    const location = pkg.path === ROOT_PACKAGE_PATH ? 'repository root' : `\`${pkg.path}\``;
+    const index = loadTutorialFile(pkg.projectName, 'index.md');
+    const summary = (index && tutorialSummary(index)) || pkg.description;
+    const title = index ? `[${pkg.name}](../${pkg.projectName}/index.md)` : `${pkg.name} (no tutorial yet)`;
+    indexContent += `- ${title}, ${location}${summary ? `: ${summary}` : ''}\n`;
+  }
+
+  indexContent += `\n\n---\n\nGenerated by [Code Detail's AI Project Tutorial Builder](https://codedetails.io) - Code Details\n\n---\n\n`;
+
+  const outputPath = getTutorialDir(projectName);
+  fs.mkdirSync(outputPath, { recursive: true });
+  fs.writeFileSync(path.join(outputPath, 'index.md'), indexContent, 'utf-8');
+
+  // The overview has replaced a whole-repository tutorial's index; its chapters go with it
+  const staleChapters = removeChapterFiles(projectName);
+  if (staleChapters > 0) {
+    log.info(`Removed ${staleChapters} chapter files of an earlier tutorial`, { projectName });
+  }
+
+  log.info(`Wrote overview of ${packages.length} packages`, { projectName, tool });
+  return outputPath;
+}
+
+// Edges point from a package to the packages it depends on
+function buildDependencyDiagram(packages: OverviewPackage[]): string {
+  const nodeIds = new Map(packages.map((pkg, index) => [pkg.path, `P${index}`]));
+  const lines = ['flowchart TD'];
+
+  packages.forEach((pkg, index) => {
+    lines.push(`    P${index}["${pkg.name.replace(/"/g, '')}"]`);
+  });
+  packages.forEach((pkg, index) => {
+    for (const dependency of pkg.dependencies) {
+      const dependencyId = nodeIds.get(dependency);
+      if (dependencyId) {
+        lines.push(`    P${index} --> ${dependencyId}`);
+      }
+    }
+  });
+
+  return lines.join('\n');
+}
+
+// The first paragraph after the title, which CombineTutorial fills with the project summary
+function tutorialSummary(index: string): string | undefined {
+  const paragraphs = index.split(/\n\s*\n/).map(paragraph => paragraph.trim());
+  const titleIndex = paragraphs.findIndex(paragraph => paragraph.startsWith('# '));
+  const summary = titleIndex === -1 ? undefined : paragraphs[titleIndex + 1];
+  return summary && !summary.startsWith('**') && !summary.startsWith('```')
+    ? summary.replace(/\s*\n\s*/g, ' ')
+    : undefined;
+}
@@ -0,0 +1,498 @@
+/**
+ * Workspaces
+ * Detects monorepo layouts (npm/yarn/pnpm workspaces, Lerna, Nx, Cargo
+ * workspaces, Go multi-module, Maven modules) from crawled files, and the
+ * dependencies between their packages.
+ *
+ * Only reads the files it is given, so it works in the browser as well.
+ */
+
+import yaml from 'js-yaml';
+
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'lerna' | 'nx' | 'cargo' | 'go' | 'maven';
+
+export const WORKSPACE_TOOL_NAMES: Record<WorkspaceTool, string> = {
+  npm: 'npm workspaces',
+  yarn: 'Yarn workspaces',
+  pnpm: 'pnpm workspaces',
+  lerna: 'Lerna',
+  nx: 'Nx',
+  cargo: 'Cargo workspace',
+  go: 'Go multi-module',
+  maven: 'Maven modules',
+};
+
+// Files the detection reads; they must be crawled for a workspace to be found
+export const WORKSPACE_MANIFEST_FILES = [
+  'package.json',
+  'pnpm-workspace.yaml',
+  'lerna.json',
+  'nx.json',
+  'project.json',
+  'Cargo.toml',
+  'go.mod',
+  'go.work',
+  'pom.xml',
+];
+
+// Path of a package at the repository root
+export const ROOT_PACKAGE_PATH = '.';
+
+export interface WorkspacePackage {
+  name: string;
+  path: string; // Directory relative to the repository root, or ROOT_PACKAGE_PATH
+  description?: string;
+  dependencies: string[]; // Paths of the other packages this one depends on
+}
+
+export interface Workspace {
+  tool: WorkspaceTool;
+  packages: WorkspacePackage[];
+}
+
+// A package before its dependencies (by name) are resolved to package paths
+interface DetectedPackage {
+  name: string;
+  path: string;
+  description?: string;
+  aliases?: string[]; // Other names the package is depended on by
+  dependencyNames: string[];
+}
+
+type Files = Record<string, string>;
+
+/**
+ * Detect a monorepo layout in the crawled files. Returns null for a single
+ * package repository (fewer than two packages found).
+ */
+export function detectWorkspace(files: Files): Workspace | null {
+  const detectors: [WorkspaceTool | null, (files: Files) => DetectedPackage[] | null][] = [
+    ['pnpm', detectPnpm],
+    ['lerna', detectLerna],
+    ['nx', detectNx],
+    [null, detectNpm], // npm or Yarn, from the root package.json
+    ['cargo', detectCargo],
+    ['go', detectGo],
+    ['maven', detectMaven],
+  ];
+
+  for (const [tool, detect] of detectors) {
+    const packages = detect(files);
+    if (packages && packages.length >= 2) {
+      return {
+        tool: tool ?? npmClient(files),
+        packages: resolveDependencies(packages),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a file belongs to a package. A file inside a nested package
+ * belongs to that package only, so pass every package path of the workspace.
+ */
+export function isInPackage(filePath: string, packagePath: string, allPackagePaths: string[]): boolean {
+  return owningPackagePath(filePath, allPackagePaths) === packagePath;
+}
+
+/**
+ * Name of the tutorial project generated for one package of a workspace.
+ * The slug is only readable, e.g. "packages/a-b" and "packages/a/b" share it,
+ * so a hash of the path keeps the names apart.
+ */
+export function packageProjectName(projectName: string, packagePath: string): string {
+  const slug = packagePath === ROOT_PACKAGE_PATH
+    ? 'root'
+    : packagePath.replace(/[^a-zA-Z0-9_.-]+/g, '-').replace(/^[-.]+|-+$/g, '');
+  return `${projectName}-${slug || 'root'}-${pathHash(packagePath)}`;
+}
+
+// FNV-1a: short and stable, and works in the browser without a crypto API
+function pathHash(packagePath: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < packagePath.length; i++) {
+    hash ^= packagePath.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36).padStart(7, '0');
+}
+
+function owningPackagePath(filePath: string, packagePaths: string[]): string | null {
+  let owner: string | null = null;
+  for (const packagePath of packagePaths) {
+    const contains = packagePath === ROOT_PACKAGE_PATH || filePath.startsWith(`${packagePath}/`);
+    if (contains && (owner === null || owner === ROOT_PACKAGE_PATH || packagePath.length > owner.length)) {
+      owner = packagePath;
+    }
+  }
+  return owner;
+}
+
+function resolveDependencies(packages: DetectedPackage[]): WorkspacePackage[] {
+  const pathsByName = new Map<string, string>();
+  for (const pkg of packages) {
+    for (const name of [pkg.name, ...(pkg.aliases || [])]) {
+      pathsByName.set(name, pkg.path);
+    }
+  }
+
+  return packages
+    .map(pkg => ({
+      name: pkg.name,
+      path: pkg.path,
+      description: pkg.description,
+      dependencies: Array.from(new Set(
+        pkg.dependencyNames
+          .map(name => pathsByName.get(name))
+          .filter((path): path is string => !!path && path !== pkg.path)
+      )).sort(),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// --- Paths and globs ---
+
+function dirname(filePath: string): string {
+  const index = filePath.lastIndexOf('/');
+  return index === -1 ? ROOT_PACKAGE_PATH : filePath.slice(0, index);
+}
+
+function basename(dirPath: string): string {
+  return dirPath.split('/').pop() || dirPath;
+}
+
+// Join a relative path onto a directory, resolving "." and ".."
+function joinPath(dir: string, relative: string): string {
+  const parts = dir === ROOT_PACKAGE_PATH ? [] : dir.split('/');
+  for (const part of relative.split('/')) {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  }
+  return parts.length > 0 ? parts.join('/') : ROOT_PACKAGE_PATH;
+}
+
+// Directories containing a file with the given name
+function manifestDirs(files: Files, manifest: string): string[] {
+  return Object.keys(files)
+    .filter(file => file === manifest || file.endsWith(`/${manifest}`))
+    .map(dirname);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*/g, '__GLOBSTAR__')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/__GLOBSTAR__/g, '.*');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Directories with the manifest that match workspace globs;
+ * globs starting with "!" exclude directories
+ */
+function matchPackageDirs(files: Files, manifest: string, globs: string[]): string[] {
+  const include = globs.filter(glob => !glob.startsWith('!')).map(globToRegExp);
+  const exclude = globs.filter(glob => glob.startsWith('!')).map(glob => globToRegExp(glob.slice(1)));
+
+  return manifestDirs(files, manifest).filter(dir =>
+    dir !== ROOT_PACKAGE_PATH &&
+    !dir.split('/').includes('node_modules') &&
+    include.some(regex => regex.test(dir)) &&
+    !exclude.some(regex => regex.test(dir))
+  );
+}
+
+function parseJson(content: string | undefined): Record<string, unknown> | null {
+  if (!content) return null;
+  try {
+    const value = JSON.parse(content);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// --- JavaScript (npm, Yarn, pnpm, Lerna, Nx) ---
+
+function npmPackage(files: Files, dir: string): DetectedPackage {
+  const manifest = parseJson(files[`${dir}/package.json`]) || {};
+  const dependencyNames = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']
+    .flatMap(field => {
+      const deps = manifest[field];
+      return deps && typeof deps === 'object' ? Object.keys(deps) : [];
+    });
+
+  return {
+    name: typeof manifest.name === 'string' ? manifest.name : basename(dir),
+    path: dir,
+    description: typeof manifest.description === 'string' ? manifest.description : undefined,
+    dependencyNames,
+  };
+}
+
+// The "workspaces" field is an array of globs or { packages: [...] }
+function npmWorkspaceGlobs(files: Files): string[] | null {
+  const workspaces = parseJson(files['package.json'])?.workspaces;
+  if (Array.isArray(workspaces)) return stringArray(workspaces);
+  if (workspaces && typeof workspaces === 'object') {
+    return stringArray((workspaces as { packages?: unknown }).packages);
+  }
+  return null;
+}
+
+function npmClient(files: Files): WorkspaceTool {
+  const packageManager = parseJson(files['package.json'])?.packageManager;
+  return typeof packageManager === 'string' && packageManager.startsWith('yarn') ? 'yarn' : 'npm';
+}
+
+function detectNpm(files: Files): DetectedPackage[] | null {
+  const globs = npmWorkspaceGlobs(files);
+  if (!globs) return null;
+  return matchPackageDirs(files, 'package.json', globs).map(dir => npmPackage(files, dir));
+}
+
+function detectPnpm(files: Files): DetectedPackage[] | null {
+  const content = files['pnpm-workspace.yaml'];
+  if (!content) return null;
+
+  let config: unknown;
+  try {
+    config = yaml.load(content);
+  } catch {
+    return null;
+  }
+  const globs = stringArray((config as { packages?: unknown } | null)?.packages);
+  return matchPackageDirs(files, 'package.json', globs).map(dir => npmPackage(files, dir));
+}
+
+function detectLerna(files: Files): DetectedPackage[] | null {
+  const config = parseJson(files['lerna.json']);
+  if (!config) return null;
+
+  // Lerna reads the npm workspaces when useWorkspaces is set; packages/* is its default
+  const globs = Array.isArray(config.packages)
+    ? stringArray(config.packages)
+    : (config.useWorkspaces ? npmWorkspaceGlobs(files) : null) || ['packages/*'];
+  return matchPackageDirs(files, 'package.json', globs).map(dir => npmPackage(files, dir));
+}
+
+// Nx projects are directories with a project.json, plus any npm workspace packages
+function detectNx(files: Files): DetectedPackage[] | null {
+  if (!files['nx.json']) return null;
+
+  const packages = new Map<string, DetectedPackage>();
+  for (const dir of detectNpm(files)?.map(pkg => pkg.path) || []) {
+    packages.set(dir, npmPackage(files, dir));
+  }
+
+  for (const dir of manifestDirs(files, 'project.json')) {
+    if (dir === ROOT_PACKAGE_PATH || dir.split('/').includes('node_modules')) continue;
+
+    const project = parseJson(files[`${dir}/project.json`]) || {};
+    const npm = files[`${dir}/package.json`] ? npmPackage(files, dir) : null;
+    const name = typeof project.name === 'string' ? project.name : npm?.name || basename(dir);
+    packages.set(dir, {
+      name,
+      path: dir,
+      description: npm?.description,
+      aliases: npm && npm.name !== name ? [npm.name] : undefined,
+      dependencyNames: [
+        ...stringArray(project.implicitDependencies).filter(dep => !dep.startsWith('!')),
+        ...(npm?.dependencyNames || []),
+      ],
+    });
+  }
+
+  return Array.from(packages.values());
+}
+
+// --- Rust (Cargo) ---
+
+// Split a TOML file into its tables, keyed by header ("" for the top level)
+function tomlTables(content: string): Record<string, string> {
+  const tables: Record<string, string> = {};
+  let current = '';
+  for (const line of content.split('\n')) {
+    const header = line.match(/^\s*\[\[?\s*([^\]]+?)\s*\]\]?\s*(#.*)?$/);
+    if (header) {
+      current = header[1];
+      tables[current] = tables[current] ?? '';
+    } else {
+      tables[current] = (tables[current] ?? '') + line + '\n';
+    }
+  }
+  return tables;
+}
+
+function tomlString(table: string | undefined, key: string): string | undefined {
+  return table?.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']*)["']`, 'm'))?.[1];
+}
+
+function tomlStringArray(table: string | undefined, key: string): string[] {
+  const array = table?.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'))?.[1];
+  if (!array) return [];
+  return Array.from(array.replace(/#.*$/gm, '').matchAll(/["']([^"']+)["']/g), match => match[1]);
+}
+
+function cargoPackage(files: Files, dir: string): DetectedPackage | null {
+  const tables = tomlTables(files[dir === ROOT_PACKAGE_PATH ? 'Cargo.toml' : `${dir}/Cargo.toml`] || '');
+  const name = tomlString(tables.package, 'name');
+  if (!name) return null;
+
+  // Dependency keys in [dependencies], [dev-dependencies], [target.'cfg'.dependencies]
+  // and [dependencies.name] tables
+  const dependencyNames: string[] = [];
+  for (const [header, table] of Object.entries(tables)) {
+    const dependencyTable = header.match(/(?:^|\.)(?:dev-|build-)?dependencies(?:\.(.+))?$/);
+    // [workspace.dependencies] only declares versions for the members to use
+    if (!dependencyTable || header.startsWith('workspace.')) continue;
+    if (dependencyTable[1]) {
+      dependencyNames.push(dependencyTable[1].replace(/["']/g, ''));
+      continue;
+    }
+    for (const match of table.matchAll(/^\s*([A-Za-z0-9_-]+)\s*[=.]/gm)) {
+      dependencyNames.push(match[1]);
+    }
+  }
+
+  return {
+    name,
+    path: dir,
+    description: tomlString(tables.package, 'description'),
+    aliases: name.includes('-') ? [name.replace(/-/g, '_')] : undefined,
+    dependencyNames,
+  };
+}
+
+function detectCargo(files: Files): DetectedPackage[] | null {
+  const root = files['Cargo.toml'];
+  const workspace = root ? tomlTables(root).workspace : undefined;
+  if (workspace === undefined) return null;
+
+  const excluded = tomlStringArray(workspace, 'exclude').map(dir => `!${dir}`);
+  const dirs = matchPackageDirs(files, 'Cargo.toml', [...tomlStringArray(workspace, 'members'), ...excluded]);
+  // The workspace root can be a crate too
+  if (/^\s*\[package\]/m.test(root)) dirs.unshift(ROOT_PACKAGE_PATH);
+
+  return dirs
+    .map(dir => cargoPackage(files, dir))
+    .filter((pkg): pkg is DetectedPackage => pkg !== null);
+}
+
+// --- Go ---
+
+function goModule(files: Files, dir: string): DetectedPackage | null {
+  const content = files[dir === ROOT_PACKAGE_PATH ? 'go.mod' : `${dir}/go.mod`];
+  const name = content?.match(/^module\s+"?([^\s"]+)"?/m)?.[1];
+  if (!content || !name) return null;
+
+  // "require path version" lines and the lines of require ( ... ) blocks
+  const dependencyNames: string[] = [];
+  let inRequireBlock = false;
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (inRequireBlock) {
+      if (line === ')') {
+        inRequireBlock = false;
+      } else if (line) {
+        dependencyNames.push(line.split(/\s+/)[0]);
+      }
+    } else if (/^require\s*\($/.test(line)) {
+      inRequireBlock = true;
+    } else if (line.startsWith('require ')) {
+      dependencyNames.push(line.split(/\s+/)[1]);
+    }
+  }
+
+  return { name, path: dir, description: undefined, dependencyNames };
+}
+
+// Modules listed by go.work, or every directory with a go.mod
+function detectGo(files: Files): DetectedPackage[] | null {
+  const work = files['go.work'];
+  let dirs: string[];
+  if (work) {
+    dirs = [];
+    let inUseBlock = false;
+    for (const rawLine of work.split('\n')) {
+      const line = rawLine.replace(/\/\/.*$/, '').trim();
+      if (inUseBlock) {
+        if (line === ')') {
+          inUseBlock = false;
+        } else if (line) {
+          dirs.push(joinPath(ROOT_PACKAGE_PATH, line.replace(/"/g, '')));
+        }
+      } else if (/^use\s*\($/.test(line)) {
+        inUseBlock = true;
+      } else if (line.startsWith('use ')) {
+        dirs.push(joinPath(ROOT_PACKAGE_PATH, line.slice(4).trim().replace(/"/g, '')));
+      }
+    }
+  } else {
+    dirs = manifestDirs(files, 'go.mod').filter(dir => !dir.split('/').includes('vendor'));
+  }
+
+  return dirs
+    .map(dir => goModule(files, dir))
+    .filter((pkg): pkg is DetectedPackage => pkg !== null);
+}
+
+// --- Java (Maven) ---
+
+function xmlText(xml: string, tag: string): string | undefined {
+  return xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`))?.[1];
+}
+
+function stripXmlElements(xml: string, tags: string[]): string {
+  return tags.reduce(
+    (result, tag) => result.replace(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'g'), ''),
+    xml.replace(/<!--[\s\S]*?-->/g, '')
+  );
+}
+
+function detectMaven(files: Files): DetectedPackage[] | null {
+  if (!files['pom.xml']) return null;
+
+  const packages: DetectedPackage[] = [];
+  const visited = new Set<string>();
+
+  // Walk <modules> from the root pom; modules can have modules of their own
+  const visit = (dir: string) => {
+    const pom = files[dir === ROOT_PACKAGE_PATH ? 'pom.xml' : `${dir}/pom.xml`];
+    if (!pom || visited.has(dir)) return;
+    visited.add(dir);
+
+    const project = stripXmlElements(pom, ['parent', 'dependencyManagement', 'build', 'profiles', 'reporting']);
+    if (dir !== ROOT_PACKAGE_PATH) {
+      const dependencies = stripXmlElements(project.match(/<dependencies>([\s\S]*?)<\/dependencies>/)?.[1] || '', ['exclusions']);
+      const ownElements = stripXmlElements(project, ['dependencies', 'modules']);
+      packages.push({
+        name: xmlText(ownElements, 'artifactId') || basename(dir),
+        path: dir,
+        description: xmlText(ownElements, 'description') || xmlText(ownElements, 'name'),
+        dependencyNames: Array.from(dependencies.matchAll(/<artifactId>\s*([^<]*?)\s*<\/artifactId>/g), match => match[1]),
+      });
+    }
+
+    const modules = project.match(/<modules>([\s\S]*?)<\/modules>/)?.[1] || '';
+    for (const match of modules.matchAll(/<module>\s*([^<]*?)\s*<\/module>/g)) {
+      visit(joinPath(dir, match[1].replace(/\/pom\.xml$/, '')));
+    }
+  };
+
+  visit(ROOT_PACKAGE_PATH);
+  return packages;
+}